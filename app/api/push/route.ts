@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { Upcoming } from "@/lib/reminders";
+import { MAX_ITEMS, addRing, parseRest, parseSubscription, parseUpcoming, pushSender, removeDevice, setRest, setSchedule } from "@/lib/pushServer";
+
+// Push fallback for closed-app reminders (see lib/pushServer.ts).
+// GET the VAPID public key, PUT a device's schedule, POST one snoozed ring or the rest timer
+// ({ rest: null } cancels it), DELETE a device.
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const bad = (error: string, status = 400) => NextResponse.json({ error }, { status });
+
+async function body(req: Request): Promise<Record<string, unknown> | null> {
+  const x: unknown = await req.json().catch(() => null);
+  return typeof x === "object" && x !== null && !Array.isArray(x) ? (x as Record<string, unknown>) : null;
+}
+
+export function GET() {
+  const s = pushSender();
+  return s ? NextResponse.json({ publicKey: s.publicKey }) : bad("push non configuré (VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY)", 503);
+}
+
+export async function PUT(req: Request) {
+  if (!pushSender()) return bad("push non configuré", 503);
+  const b = await body(req);
+  const subscription = parseSubscription(b?.subscription);
+  if (!subscription || !Array.isArray(b?.items)) return bad("abonnement ou liste invalide");
+  if (b.items.length > MAX_ITEMS) return bad(`au plus ${MAX_ITEMS} rappels`, 413);
+  const items = b.items.map(parseUpcoming).filter((u): u is Upcoming => u !== null);
+  if (!setSchedule(subscription, items)) return bad("trop d’appareils enregistrés", 503);
+  return NextResponse.json({ ok: true, count: items.length });
+}
+
+export async function POST(req: Request) {
+  const b = await body(req);
+  if (b && "rest" in b) {
+    const rest = b.rest === null ? null : parseRest(b.rest);
+    if (typeof b.endpoint !== "string" || (b.rest !== null && !rest)) return bad("minuteur invalide");
+    return setRest(b.endpoint, rest) ? NextResponse.json({ ok: true }) : bad("appareil inconnu", 404);
+  }
+  const item = parseUpcoming(b?.item);
+  if (typeof b?.endpoint !== "string" || !item) return bad("rappel invalide");
+  const r = addRing(b.endpoint, item);
+  if (r === "unknown") return bad("appareil inconnu", 404);
+  if (r === "full") return bad(`au plus ${MAX_ITEMS} rappels`, 413);
+  return NextResponse.json({ ok: true });
+}
+
+export async function DELETE(req: Request) {
+  const b = await body(req);
+  if (typeof b?.endpoint !== "string") return bad("endpoint manquant");
+  removeDevice(b.endpoint);
+  return NextResponse.json({ ok: true });
+}
@@ -1,151 +1,40 @@
 "use client";
-import React, { useEffect, useMemo, useRef, useState } from "react";
-
-type Exo = { id: string; name: string; muscles: string[]; imageUrl?: string };
-type SetEntry = { exoId: string; weightKg: number; reps: number; rpe?: number };
-type WorkoutLog = { id: string; dateISO: string; dayType: "PUSH" | "PULL" | "LEGS"; notes?: string; sets: SetEntry[] };
-type WeightLog = { dateISO: string; weightKg: number };
-
-type Reminder = { id: string; title: string; timeHHMM: string; enabled: boolean; kind: "water" | "meal" | "supp" };
-type WaterLog = { date: string; ml: number };
-
-type NutritionState = {
-  todaysChecklist: Record<string, boolean>;
-  notes: string;
-};
-
-type AppState = {
-  waterGoalMl: number;
-  waterTodayMl: number;
-  waterTodayDate: string;
-  waterHistory: WaterLog[]; // for graphs
-  bodyweight: WeightLog[];
-
-  exercises: Exo[];
-  workoutTemplates: Record<WorkoutLog["dayType"], { exoId: string; defaultRestSec: number }[]>;
-  logs: WorkoutLog[];
-
-  reminders: Reminder[];
-  nutrition: NutritionState;
-};
-
-const LS_KEY = "myallinone_v2";
-const todayKey = () => new Date().toISOString().slice(0, 10);
-const uid = () => Math.random().toString(36).slice(2) + Date.now().toString(36);
-
-const DEFAULT_EXOS: Exo[] = [
-  { id: "incline_db_press", name: "Incline Dumbbell Bench Press", muscles: ["chest", "front delts", "triceps"] },
-  { id: "bench_press", name: "Barbell Bench Press", muscles: ["chest", "triceps"] },
-  { id: "pec_deck", name: "Chest Butterfly / Pec Deck", muscles: ["chest"] },
-  { id: "lat_pulldown", name: "Lat Pulldown", muscles: ["lats", "back"] },
-  { id: "1arm_row", name: "One-Arm Dumbbell Row", muscles: ["lats", "back"] },
-  { id: "cable_row", name: "Seated Cable Row", muscles: ["back"] },
-  { id: "pullover", name: "Cable Pullover", muscles: ["lats"] },
-  { id: "lateral_raise", name: "Lateral Raise", muscles: ["side delts"] },
-  { id: "triceps_ext", name: "Machine Tricep Extension", muscles: ["triceps"] },
-  { id: "ez_curl", name: "EZ Bar Curl", muscles: ["biceps"] },
-  { id: "incline_curl", name: "Incline Dumbbell Curl", muscles: ["biceps"] },
-  { id: "leg_press", name: "Leg Press", muscles: ["legs"] },
-  { id: "leg_curl", name: "Leg Curl", muscles: ["hamstrings"] },
-  { id: "leg_ext", name: "Leg Extension", muscles: ["quads"] },
-  { id: "calves", name: "Standing Calf Raise", muscles: ["calves"] },
-];
-
-const DEFAULT_STATE: AppState = {
-  waterGoalMl: 3000,
-  waterTodayMl: 0,
-  waterTodayDate: todayKey(),
-  waterHistory: [],
-  bodyweight: [],
-  exercises: DEFAULT_EXOS,
-  workoutTemplates: {
-    PUSH: [
-      { exoId: "incline_db_press", defaultRestSec: 120 },
-      { exoId: "bench_press", defaultRestSec: 150 },
-      { exoId: "pec_deck", defaultRestSec: 90 },
-      { exoId: "lateral_raise", defaultRestSec: 75 },
-      { exoId: "triceps_ext", defaultRestSec: 75 },
-    ],
-    PULL: [
-      { exoId: "lat_pulldown", defaultRestSec: 120 },
-      { exoId: "1arm_row", defaultRestSec: 120 },
-      { exoId: "cable_row", defaultRestSec: 105 },
-      { exoId: "pullover", defaultRestSec: 75 },
-      { exoId: "ez_curl", defaultRestSec: 75 },
-      { exoId: "incline_curl", defaultRestSec: 75 },
-    ],
-    LEGS: [
-      { exoId: "leg_press", defaultRestSec: 150 },
-      { exoId: "leg_curl", defaultRestSec: 90 },
-      { exoId: "leg_ext", defaultRestSec: 90 },
-      { exoId: "calves", defaultRestSec: 75 },
-    ],
-  },
-  logs: [],
-  reminders: [
-    { id: "r1", title: "Eau (500ml)", timeHHMM: "10:30", enabled: true, kind: "water" },
-    { id: "r2", title: "Déjeuner / repas", timeHHMM: "13:30", enabled: true, kind: "meal" },
-    { id: "r3", title: "Collation", timeHHMM: "17:00", enabled: true, kind: "meal" },
-    { id: "r4", title: "Créatine (5g)", timeHHMM: "19:30", enabled: true, kind: "supp" },
-  ],
-  nutrition: {
-    todaysChecklist: {
-      "Petit-déj (même petit)": false,
-      "Déjeuner": false,
-      "Collation": false,
-      "Dîner": false,
-      "Eau ≥ 2.5L": false,
-      "Créatine 5g": false,
-    },
-    notes: "",
-  },
-};
-
-function loadState(): AppState {
-  if (typeof window === "undefined") return DEFAULT_STATE;
-  try {
-    const raw = localStorage.getItem(LS_KEY);
-    if (!raw) return DEFAULT_STATE;
-    const parsed = JSON.parse(raw) as AppState;
-
-    // rollover water each new day
-    const t = todayKey();
-    if (parsed.waterTodayDate !== t) {
-      // save yesterday into history
-      const prevDate = parsed.waterTodayDate;
-      const prevMl = parsed.waterTodayMl;
-      if (prevDate) {
-        const hist = (parsed.waterHistory || []).filter((x) => x.date !== prevDate);
-        hist.push({ date: prevDate, ml: prevMl || 0 });
-        parsed.waterHistory = hist;
-      }
-      parsed.waterTodayDate = t;
-      parsed.waterTodayMl = 0;
-
-      // reset daily checklist
-      if (parsed.nutrition?.todaysChecklist) {
-        Object.keys(parsed.nutrition.todaysChecklist).forEach((k) => (parsed.nutrition.todaysChecklist[k] = false));
-      }
-    }
-
-    parsed.exercises ||= DEFAULT_EXOS;
-    parsed.workoutTemplates ||= DEFAULT_STATE.workoutTemplates;
-    parsed.logs ||= [];
-    parsed.bodyweight ||= [];
-    parsed.waterGoalMl ||= 3000;
-    parsed.waterHistory ||= [];
-    parsed.reminders ||= DEFAULT_STATE.reminders;
-    parsed.nutrition ||= DEFAULT_STATE.nutrition;
-
-    return parsed;
-  } catch {
-    return DEFAULT_STATE;
-  }
-}
-
-function saveState(s: AppState) {
-  localStorage.setItem(LS_KEY, JSON.stringify(s));
-}
+import React, { useEffect, useEffectEvent, useMemo, useRef, useState } from "react";
+import { AppState, DEFAULT_PAYLOAD, DEFAULT_STATE, DayTemplate, DrinkType, Exo, Reminder, RestTimer, SET_KINDS, SetEntry, SetKind, UNITS, Unit, WorkoutLog, dayLabel, dayOfISO, todayKey, uid } from "@/lib/state";
+import { draftStart, finalizeDraft, newDraft, upsertDraft } from "@/lib/drafts";
+import { LoadResult, Saver, loadState, rollover } from "@/lib/storage";
+import { downloadFile } from "@/lib/download";
+import BackupPanel from "@/components/BackupPanel";
+import CsvExportPanel from "@/components/CsvExportPanel";
+import ImportPanel from "@/components/ImportPanel";
+import SplitEditor from "@/components/SplitEditor";
+import ProgressionSettingsCard from "@/components/ProgressionSettingsCard";
+import PlateSettingsCard from "@/components/PlateSettingsCard";
+import { restsAfter, supersetLabels } from "@/lib/templates";
+import { Suggestion, suggestNext } from "@/lib/progression";
+import { PR, detectPRs } from "@/lib/analytics";
+import { SimpleBarChart, SimpleLineChart } from "@/components/charts";
+import ExerciseStatsPanel from "@/components/ExerciseStatsPanel";
+import MuscleVolumePanel from "@/components/MuscleVolumePanel";
+import HistoryPanel from "@/components/HistoryPanel";
+import ExerciseLibrary from "@/components/ExerciseLibrary";
+import CatalogBrowser from "@/components/CatalogBrowser";
+import ExoImage from "@/components/ExoImage";
+import SetInputs from "@/components/SetInputs";
+import { CATALOG_BY_ID, addFromCatalog } from "@/lib/catalog";
+import RestTimerControls from "@/components/RestTimerControls";
+import ReminderCard from "@/components/ReminderCard";
+import { RingAction, SNOOZE_MIN, acknowledge, appendEvents, applyRingAction, checkReminders, describePayload, skipReminder, snoozeReminder, snoozeUntil, upcomingRings } from "@/lib/reminders";
+import SupplementsPanel from "@/components/SupplementsPanel";
+import WaterPanel from "@/components/WaterPanel";
+import { addDrink, adjustDay, dayGoal, goalOf, goalParts, lastDays, removeDrink, setFixedGoal, syncWaterGoal, waterDay, waterStreak } from "@/lib/water";
+import { describeDose, logDose, postWorkoutSupplements } from "@/lib/supplements";
+import { DELIVERY_LABELS, Delivery, onRingAction, registerServiceWorker, showRing, syncRestAlert, syncSchedule, takeInbox } from "@/lib/push";
+import { restHistory, startTimer } from "@/lib/rest";
+import { closestLoad, describePlates, warmupRamp } from "@/lib/plates";
+import { fmtLoad, isRepBased, loadFn, modeOf } from "@/lib/tracking";
+import { SET_KIND_LABELS, addDropSet, changeKind, isStraightSet, kindOf, removeSetAt, setLabels } from "@/lib/sets";
+import { fmtWeight, fromUnit, roundAssist, roundToUnit, showWeight } from "@/lib/units";
 
 function formatTime(sec: number) {
   const m = Math.floor(sec / 60);
@@ -171,30 +60,10 @@ function beep() {
   } catch {}
 }
 
-function minutesUntil(hhmm: string) {
-  const [hh, mm] = hhmm.split(":").map(Number);
-  const now = new Date();
-  const target = new Date();
-  target.setHours(hh, mm, 0, 0);
-  let diff = target.getTime() - now.getTime();
-  if (diff < 0) diff += 24 * 60 * 60 * 1000; // tomorrow
-  return Math.floor(diff / 60000);
-}
-
-function msUntil(hhmm: string) {
-  const [hh, mm] = hhmm.split(":").map(Number);
-  const now = new Date();
-  const target = new Date();
-  target.setHours(hh, mm, 0, 0);
-  let diff = target.getTime() - now.getTime();
-  if (diff < 0) diff += 24 * 60 * 60 * 1000;
-  return diff;
-}
-
-function requestNotifPermission() {
+async function requestNotifPermission() {
   if (!("Notification" in window)) return;
   if (Notification.permission === "default") {
-    Notification.requestPermission();
+    await Notification.requestPermission();
   }
 }
 
@@ -205,57 +74,88 @@ function fireNotification(title: string, body: string) {
 }
 
 export default function Page() {
-  const [state, setState] = useState<AppState>(() => loadState());
-  const [tab, setTab] = useState<"TODAY" | "WORKOUT" | "LIB" | "STATS" | "REMIND" | "NUTRI">("TODAY");
+  const [loaded, setLoaded] = useState<LoadResult | null>(null);
+  const [state, setState] = useState<AppState>(DEFAULT_STATE);
+  const saverRef = useRef<Saver | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [tab, setTab] = useState<"TODAY" | "WORKOUT" | "HISTORY" | "LIB" | "STATS" | "REMIND" | "NUTRI" | "DATA" | "SPLIT">("TODAY");
 
-  // rest timer
-  const [restSec, setRestSec] = useState<number>(0);
-  const [restRunning, setRestRunning] = useState(false);
-  const restRef = useRef<number | null>(null);
+  useEffect(() => {
+    loadState()
+      .then(({ result, saver }) => {
+        saverRef.current = saver;
+        saver.onStatus = setSaveError;
+        setState(result.state);
+        setLoaded(result);
+      })
+      // without a working store we never save, so nothing on disk gets overwritten
+      .catch((e) => setLoaded({ state: DEFAULT_STATE, issues: [`Stockage indisponible : ${e}`] }));
+  }, []);
 
-  useEffect(() => saveState(state), [state]);
+  useEffect(() => {
+    if (loaded) saverRef.current?.schedule(state);
+  }, [state, loaded]);
 
   useEffect(() => {
-    if (!restRunning) return;
-    restRef.current = window.setInterval(() => {
-      setRestSec((s) => {
-        if (s <= 1) {
-          beep();
-          setRestRunning(false);
-          return 0;
-        }
-        return s - 1;
-      });
-    }, 1000);
+    const flush = () => {
+      if (document.visibilityState === "hidden") saverRef.current?.flush();
+    };
+    document.addEventListener("visibilitychange", flush);
+    window.addEventListener("pagehide", flush);
     return () => {
-      if (restRef.current) window.clearInterval(restRef.current);
+      document.removeEventListener("visibilitychange", flush);
+      window.removeEventListener("pagehide", flush);
     };
-  }, [restRunning]);
+  }, []);
 
-  // ===== reminders loop (simple, app-open only) =====
-  const [nowTick, setNowTick] = useState(0);
-  const firedTodayRef = useRef<Record<string, string>>({}); // reminderId -> YYYY-MM-DD last fired
+  // ===== reminders loop (app-open only) =====
+  const [now, setNow] = useState(() => Date.now());
+  const [ringing, setRinging] = useState<string[]>([]); // reminder ids waiting for OK / snooze
   useEffect(() => {
-    const t = window.setInterval(() => setNowTick((x) => x + 1), 1000);
+    const t = window.setInterval(() => {
+      setNow(Date.now());
+      // the checklist starts over at the configured day start, even with the app left open
+      setState((s) => rollover(s));
+    }, 1000);
     return () => window.clearInterval(t);
   }, []);
 
+  // today's water goal follows new weights, sessions and settings; runs on a new day or when one of those changes
+  const waterToday = waterDay(now, state.water.dayStartHHMM);
   useEffect(() => {
-    const today = todayKey();
-    state.reminders.forEach((r) => {
-      if (!r.enabled) return;
-      const ms = msUntil(r.timeHHMM);
-      // fire within first 2 seconds of the target minute
-      if (ms <= 1500) {
-        if (firedTodayRef.current[r.id] === today) return;
-        firedTodayRef.current[r.id] = today;
-        beep();
-        fireNotification("Rappel", r.title);
-      }
-    });
-  }, [nowTick, state.reminders]);
+    if (!loaded) return;
+    const t = window.setTimeout(() => setState((s) => syncWaterGoal(s)), 0);
+    return () => window.clearTimeout(t);
+  }, [loaded, waterToday, state.bodyweight, state.logs, state.water, state.waterGoalMl]);
+
+  // compares against what was already handled rather than the current second,
+  // so a tab that was frozen at the due time still rings when it wakes up
+  useEffect(() => {
+    const reminders = state.reminders;
+    const t = window.setInterval(() => {
+      const at = Date.now();
+      const { due, changed } = checkReminders(reminders, at);
+      if (!changed) return;
+      due.forEach(({ reminder: r, at: t }) => showRing({ id: r.id, title: r.title, kind: r.kind, at: t }));
+      if (due.length) beep();
+      const ids = new Set(due.map((d) => d.reminder.id));
+      setRinging((cur) => [...cur.filter((id) => !ids.has(id)), ...ids]);
+      setState((s) => {
+        const checked = checkReminders(s.reminders, at);
+        return { ...s, reminders: checked.reminders, reminderEvents: appendEvents(s.reminderEvents, checked.events, at) };
+      });
+    }, 1000);
+    return () => window.clearInterval(t);
+  }, [state.reminders]);
 
-  const waterPct = Math.min(100, Math.round((state.waterTodayMl / state.waterGoalMl) * 100));
+  // closed-app delivery: the worker or the push server gets the next rings whenever reminders change
+  const [delivery, setDelivery] = useState<Delivery>("none");
+  const syncRings = (reminders: Reminder[]) => syncSchedule(upcomingRings(reminders, Date.now())).then(setDelivery);
+  useEffect(() => {
+    if (!loaded) return;
+    const t = window.setTimeout(() => syncSchedule(upcomingRings(state.reminders, Date.now())).then(setDelivery), 1000);
+    return () => window.clearTimeout(t);
+  }, [state.reminders, loaded]);
 
   const exoById = useMemo(() => {
     const m = new Map<string, Exo>();
@@ -263,10 +163,57 @@ export default function Page() {
     return m;
   }, [state.exercises]);
 
-  // water
-  const addWater = (ml: number) => {
-    setState((s) => ({ ...s, waterTodayMl: Math.max(0, s.waterTodayMl + ml) }));
+  // rest timer: the alert goes through the service worker (or push), which still fires in a
+  // background tab or on a locked phone; the page's own timeout beeps while it's visible and
+  // only notifies itself when the worker couldn't take the alert
+  const restEndsAt = state.restTimer?.endsAt;
+  const restExoName = exoById.get(state.restTimer?.exoId ?? "")?.name;
+  const restAlertAt = useRef<number | undefined>(undefined);
+  useEffect(() => {
+    if (restEndsAt === undefined) {
+      // stopped or paused before the end; a new end time just replaces the alert
+      if (restAlertAt.current !== undefined && Date.now() < restAlertAt.current) syncRestAlert(null);
+      restAlertAt.current = undefined;
+      return;
+    }
+    restAlertAt.current = restEndsAt;
+    const body = restExoName ? `Série suivante : ${restExoName}` : "Série suivante !";
+    let delivered = false;
+    syncRestAlert({ at: restEndsAt, body }).then((d) => (delivered = d !== "none"));
+    const t = window.setTimeout(() => {
+      // reopened long after the end: just clear it, no stale alert
+      if (Date.now() - restEndsAt < 60_000) {
+        if (document.visibilityState === "visible") beep();
+        if (!delivered) fireNotification("Repos terminé", body);
+      }
+      setState((s) => (s.restTimer?.endsAt === restEndsAt ? { ...s, restTimer: null } : s));
+    }, Math.max(0, restEndsAt - Date.now()));
+    return () => window.clearTimeout(t);
+  }, [restEndsAt, restExoName]);
+
+  const setRestTimer = (restTimer: RestTimer | null) => {
+    requestNotifPermission();
+    setState((s) => ({ ...s, restTimer }));
   };
+  const startRest = (sec: number, exoId?: string) => setRestTimer(startTimer(sec, exoId));
+
+  // water
+  const addWater = (ml: number, drink: DrinkType) => setState((s) => addDrink(s, ml, drink));
+
+  const dismissRing = (id: string) => setRinging((cur) => cur.filter((x) => x !== id));
+  // "done" / "snooze" from a notification, live from the worker or queued while the app was closed
+  const applyRing = useEffectEvent((a: RingAction) => {
+    setState((s) => applyRingAction(s, a));
+    dismissRing(a.id);
+  });
+  useEffect(() => {
+    if (!loaded) return;
+    registerServiceWorker().catch(() => {});
+    takeInbox()
+      .then((xs) => xs.forEach((a) => applyRing(a)))
+      .catch(() => {});
+    return onRingAction((a) => applyRing(a));
+  }, [loaded]);
 
   // weight
   const addBodyWeight = (w: number) => {
@@ -278,18 +225,76 @@ export default function Page() {
   };
 
   // workout
-  const [dayType, setDayType] = useState<WorkoutLog["dayType"]>("PUSH");
-  const [activeLog, setActiveLog] = useState<WorkoutLog>(() => ({ id: uid(), dateISO: new Date().toISOString(), dayType: "PUSH", sets: [] }));
+  // the active session is one of state.drafts, or a blank that becomes a draft on its first edit
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [blank, setBlank] = useState<WorkoutLog>(() => newDraft("PUSH"));
+  const activeLog = state.drafts.find((d) => d.id === activeId) ?? blank;
+  const setActiveLog = (f: (l: WorkoutLog) => WorkoutLog) => {
+    const id = activeLog.id;
+    setState((s) => ({ ...s, drafts: upsertDraft(s.drafts, f(s.drafts.find((d) => d.id === id) ?? activeLog)) }));
+    setActiveId(id);
+  };
+  const otherDrafts = state.drafts.filter((d) => d.id !== activeLog.id);
+  const [resumePrompt, setResumePrompt] = useState(true);
+  // falls back to the first day when the selected one was deleted
+  const day: DayTemplate | undefined = useMemo(
+    () => state.workoutTemplates.find((d) => d.id === activeLog.dayId) ?? state.workoutTemplates[0],
+    [state.workoutTemplates, activeLog.dayId]
+  );
+  const supersets = supersetLabels(day?.entries ?? []);
+
+  const suggestions = useMemo(() => {
+    const m = new Map<string, Suggestion>();
+    day?.entries.forEach((t) => {
+      const mode = modeOf(exoById.get(t.exoId));
+      if (!isRepBased(mode)) return;
+      const sg = suggestNext(state.logs, t, state.progression, state.units, mode);
+      if (sg) m.set(t.exoId, sg);
+    });
+    return m;
+  }, [day, exoById, state.logs, state.progression, state.units]);
 
-  useEffect(() => setActiveLog((l) => ({ ...l, dayType })), [dayType]);
+  const rests = useMemo(() => new Map((day?.entries ?? []).map((t) => [t.exoId, restHistory(state.logs, t.exoId, 5)])), [day, state.logs]);
 
-  const addSet = (exoId: string) => {
+  // later sets repeat the one just done; the first one starts from the suggestion
+  const prefill = (exoId: string) => {
+    const prev = [...activeLog.sets].reverse().find((s) => s.exoId === exoId && isStraightSet(s));
+    const sg = suggestions.get(exoId);
     const last = [...state.logs]
       .sort((a, b) => b.dateISO.localeCompare(a.dateISO))
       .flatMap((l) => l.sets)
-      .find((s) => s.exoId === exoId);
-    const suggested = last?.weightKg ?? 0;
-    setActiveLog((l) => ({ ...l, sets: [...l.sets, { exoId, weightKg: suggested, reps: last?.reps ?? 10 }] }));
+      .find((s) => s.exoId === exoId && isStraightSet(s));
+    const target = day?.entries.find((t) => t.exoId === exoId);
+    const mode = modeOf(exoById.get(exoId));
+    return {
+      weightKg: prev?.weightKg ?? sg?.weightKg ?? last?.weightKg ?? 0,
+      reps: isRepBased(mode) ? (prev?.reps ?? sg?.reps ?? last?.reps ?? target?.repMin ?? 10) : 0,
+      durationSec: isRepBased(mode) ? undefined : (prev?.durationSec ?? last?.durationSec ?? 60),
+      distanceM: mode === "distance" ? (prev?.distanceM ?? last?.distanceM ?? 0) : undefined,
+    };
+  };
+
+  const addSet = (exoId: string, kind?: SetKind) => {
+    const set: SetEntry = { exoId, ...prefill(exoId), kind, at: new Date().toISOString() };
+    if (kind === "warmup") {
+      // repeat the last warm-up, else half the working load (twice the assistance when assisted)
+      const warm = [...activeLog.sets].reverse().find((s) => s.exoId === exoId && s.kind === "warmup");
+      const exo = exoById.get(exoId);
+      set.weightKg =
+        warm?.weightKg ??
+        (modeOf(exo) === "assisted" ? roundAssist(set.weightKg * 2, state.units) : (closestLoad(set.weightKg / 2, state.plates, exo)?.totalKg ?? roundToUnit(set.weightKg / 2, state.units)));
+      set.reps = warm?.reps ?? Math.max(set.reps, 8);
+    }
+    setActiveLog((l) => ({ ...l, sets: [...l.sets, set] }));
+    const target = day?.entries.find((t) => t.exoId === exoId);
+    // inside a superset the next exercise follows right away; rest comes after the last one
+    if (state.restAutoStart && target && kind !== "warmup" && restsAfter(day?.entries ?? [], exoId)) startRest(target.defaultRestSec, exoId);
+  };
+
+  const addWarmupRamp = (exoId: string) => {
+    const ramp = warmupRamp(prefill(exoId).weightKg, state.plates, exoById.get(exoId));
+    const at = new Date().toISOString();
+    setActiveLog((l) => ({ ...l, sets: [...l.sets, ...ramp.map((r): SetEntry => ({ exoId, ...r, kind: "warmup", at }))] }));
   };
 
   const updateSet = (idx: number, patch: Partial<SetEntry>) => {
@@ -300,48 +305,85 @@ export default function Page() {
     });
   };
 
-  const removeSet = (idx: number) => {
-    setActiveLog((l) => {
-      const sets = l.sets.slice();
-      sets.splice(idx, 1);
-      return { ...l, sets };
-    });
+  const labels = setLabels(activeLog.sets);
+  const removeSet = (idx: number) => setActiveLog((l) => ({ ...l, sets: removeSetAt(l.sets, idx) }));
+
+  const [celebration, setCelebration] = useState<PR[] | null>(null);
+  const [suppPrompt, setSuppPrompt] = useState<string[]>([]); // post-workout supplements to offer
+
+  const saveDraft = (draft: WorkoutLog, keepDate: boolean) => {
+    if (draft.sets.length === 0 || state.workoutTemplates.length === 0) return;
+    const toSave = finalizeDraft(draft, state.workoutTemplates, keepDate);
+    const prs = detectPRs(state.logs, toSave, state.e1rmFormula, (id) => loadFn(exoById.get(id), state.bodyweight));
+    if (prs.length) setCelebration(prs);
+    // an old draft saved under its own date doesn't prompt for today's shake
+    if (dayOfISO(toSave.dateISO, state.water.dayStartHHMM) === todayKey(state.water.dayStartHHMM)) setSuppPrompt(postWorkoutSupplements(state).map((p) => p.id));
+    setState((s) => ({ ...s, logs: [toSave, ...s.logs].sort((a, b) => b.dateISO.localeCompare(a.dateISO)), drafts: s.drafts.filter((d) => d.id !== draft.id) }));
+    if (draft.id === activeLog.id) {
+      setBlank(newDraft(toSave.dayId));
+      setActiveId(null);
+    }
   };
 
-  const startRest = (sec: number) => {
-    requestNotifPermission();
-    setRestSec(sec);
-    setRestRunning(true);
+  const discardDraft = (id: string) => {
+    if (!confirm("Supprimer cette séance non enregistrée ?")) return;
+    setState((s) => ({ ...s, drafts: s.drafts.filter((d) => d.id !== id) }));
+    if (id === activeLog.id) setActiveId(null);
   };
 
-  const saveWorkout = () => {
-    if (activeLog.sets.length === 0) return;
-    const toSave: WorkoutLog = { ...activeLog, id: uid(), dateISO: new Date().toISOString() };
-    setState((s) => ({ ...s, logs: [toSave, ...s.logs] }));
-    setActiveLog({ id: uid(), dateISO: new Date().toISOString(), dayType, sets: [], notes: "" });
+  const resumeDraft = (id: string) => {
+    setActiveId(id);
+    setResumePrompt(false);
+    setTab("WORKOUT");
   };
 
-  // library
-  const addExercise = (name: string, musclesCSV: string, imageUrl: string) => {
-    const id = name.toLowerCase().replace(/[^a-z0-9]+/g, "_").slice(0, 40) + "_" + Math.random().toString(36).slice(2, 6);
-    const muscles = musclesCSV.split(",").map((x) => x.trim()).filter(Boolean);
-    setState((s) => ({ ...s, exercises: [...s.exercises, { id, name, muscles, imageUrl: imageUrl || undefined }] }));
+  // keeps the current session as a draft and opens a fresh one
+  const newSession = () => {
+    setBlank(newDraft(activeLog.dayId));
+    setActiveId(null);
   };
 
-  const updateExerciseImage = (id: string, imageUrl: string) => {
-    setState((s) => ({ ...s, exercises: s.exercises.map((e) => (e.id === id ? { ...e, imageUrl: imageUrl || undefined } : e)) }));
+  // copies a past session's sets into a new draft to redo it today
+  const duplicateLog = (l: WorkoutLog) => {
+    const d = { ...newDraft(l.dayId), sets: l.sets.map((s) => ({ ...s, at: undefined })) };
+    setState((s) => ({ ...s, drafts: upsertDraft(s.drafts, d) }));
+    setActiveId(d.id);
+    setTab("WORKOUT");
   };
 
+  const draftRow = (d: WorkoutLog) => (
+    <div key={d.id} className="row" style={{ justifyContent: "space-between" }}>
+      <span>
+        <b>{dayLabel(d, state.workoutTemplates)}</b> <span className="muted">— {new Date(draftStart(d)).toLocaleString("fr-FR", { dateStyle: "short", timeStyle: "short" })} • {d.sets.length} série(s)</span>
+      </span>
+      <span className="row">
+        <button className="btn primary" onClick={() => resumeDraft(d.id)}>Reprendre</button>
+        <button className="btn" onClick={() => saveDraft(d, true)} disabled={d.sets.length === 0}>Enregistrer</button>
+        <button className="btn danger" onClick={() => discardDraft(d.id)}>✕</button>
+      </span>
+    </div>
+  );
+
   // reminders management
-  const toggleReminder = (id: string) => setState((s) => ({ ...s, reminders: s.reminders.map((r) => (r.id === id ? { ...r, enabled: !r.enabled } : r)) }));
-  const updateReminderTime = (id: string, timeHHMM: string) => setState((s) => ({ ...s, reminders: s.reminders.map((r) => (r.id === id ? { ...r, timeHHMM } : r)) }));
+  const updateReminder = (next: Reminder) => setState((s) => ({ ...s, reminders: s.reminders.map((r) => (r.id === next.id ? next : r)) }));
   const addReminder = () =>
     setState((s) => ({
       ...s,
-      reminders: [...s.reminders, { id: uid(), title: "Nouveau rappel", timeHHMM: "12:00", enabled: true, kind: "meal" }],
+      reminders: [...s.reminders, { id: uid(), title: "Nouveau rappel", enabled: true, kind: "meal", schedule: { kind: "daily", timeHHMM: "12:00", weekdays: [] }, payload: DEFAULT_PAYLOAD }],
     }));
-  const updateReminderTitle = (id: string, title: string) => setState((s) => ({ ...s, reminders: s.reminders.map((r) => (r.id === id ? { ...r, title } : r)) }));
   const removeReminder = (id: string) => setState((s) => ({ ...s, reminders: s.reminders.filter((r) => r.id !== id) }));
+  const ackRing = (id: string) => {
+    setState((s) => acknowledge(s, id));
+    dismissRing(id);
+  };
+  const snoozeRing = (id: string, min: number) => {
+    setState((s) => snoozeReminder(s, id, undefined, snoozeUntil(min)));
+    dismissRing(id);
+  };
+  const skipRing = (id: string) => {
+    setState((s) => skipReminder(s, id));
+    dismissRing(id);
+  };
 
   // nutrition
   const toggleCheck = (k: string) =>
@@ -351,20 +393,8 @@ export default function Page() {
   const latestWeight = [...state.bodyweight].sort((a, b) => b.dateISO.localeCompare(a.dateISO))[0]?.weightKg;
 
   // Graph data helpers
-  const waterLast7 = useMemo(() => {
-    const t = todayKey();
-    const days: string[] = [];
-    const dt = new Date(t);
-    for (let i = 6; i >= 0; i--) {
-      const d = new Date(dt);
-      d.setDate(d.getDate() - i);
-      days.push(d.toISOString().slice(0, 10));
-    }
-    const map = new Map<string, number>();
-    (state.waterHistory || []).forEach((x) => map.set(x.date, x.ml));
-    map.set(t, state.waterTodayMl);
-    return days.map((d) => ({ date: d, ml: map.get(d) || 0 }));
-  }, [state.waterHistory, state.waterTodayMl]);
+  const waterLast7 = useMemo(() => lastDays(state.waterLog, state.water, waterToday, 7).map((d) => ({ ...d, goalMl: goalOf(state, d.date) })), [state, waterToday]);
+  const waterMax = Math.max(...waterLast7.map((d) => Math.max(d.goalMl, d.ml)));
 
   const weightLast30 = useMemo(() => {
     const sorted = [...state.bodyweight].sort((a, b) => a.dateISO.localeCompare(b.dateISO));
@@ -382,53 +412,168 @@ export default function Page() {
         <div className="row">
           <button className={`btn ${tab === "TODAY" ? "primary" : ""}`} onClick={() => setTab("TODAY")}>Aujourd’hui</button>
           <button className={`btn ${tab === "WORKOUT" ? "primary" : ""}`} onClick={() => setTab("WORKOUT")}>Salle</button>
+          <button className={`btn ${tab === "HISTORY" ? "primary" : ""}`} onClick={() => setTab("HISTORY")}>Historique</button>
+          <button className={`btn ${tab === "SPLIT" ? "primary" : ""}`} onClick={() => setTab("SPLIT")}>Programme</button>
           <button className={`btn ${tab === "NUTRI" ? "primary" : ""}`} onClick={() => setTab("NUTRI")}>Nutrition</button>
           <button className={`btn ${tab === "REMIND" ? "primary" : ""}`} onClick={() => setTab("REMIND")}>Rappels</button>
           <button className={`btn ${tab === "LIB" ? "primary" : ""}`} onClick={() => setTab("LIB")}>Exos</button>
           <button className={`btn ${tab === "STATS" ? "primary" : ""}`} onClick={() => setTab("STATS")}>Stats</button>
+          <button className={`btn ${tab === "DATA" ? "primary" : ""}`} onClick={() => setTab("DATA")}>Données</button>
+          <select className="select" value={state.units} onChange={(e) => setState((s) => ({ ...s, units: e.target.value as Unit }))} title="Unité de poids">
+            {UNITS.map((u) => <option key={u} value={u}>{u}</option>)}
+          </select>
         </div>
       </div>
 
       <div className="sep" />
 
-      {tab === "TODAY" && (
-        <div className="grid cols2">
-          <div className="card">
+      {!loaded && <div className="muted">Chargement…</div>}
+
+      {ringing.map((id) => {
+        const r = state.reminders.find((x) => x.id === id);
+        if (!r) return null;
+        return (
+          <div key={id} className="card" style={{ marginBottom: 12, borderColor: "#2f5bff" }}>
             <div className="row" style={{ justifyContent: "space-between" }}>
               <div>
-                <div className="muted">Eau (objectif {state.waterGoalMl} ml)</div>
-                <div className="big">{waterPct}%</div>
-                <div className="muted">{state.waterTodayMl} ml aujourd’hui</div>
+                <div style={{ fontWeight: 900 }}>🔔 {r.title}</div>
+                <div className="muted" style={{ fontSize: 12 }}>{describePayload(r, state.supplements)}</div>
+              </div>
+              <div className="row">
+                {SNOOZE_MIN.map((m) => (
+                  <button key={m} className="btn" onClick={() => snoozeRing(id, m)}>+{m} min</button>
+                ))}
+                <button className="btn" onClick={() => skipRing(id)}>Passer</button>
+                <button className="btn primary" onClick={() => ackRing(id)}>Fait ✅</button>
               </div>
-              <div className="pill">{todayKey()}</div>
-            </div>
-            <div className="sep" />
-            <div className="row">
-              <button className="btn" onClick={() => addWater(250)}>+250ml</button>
-              <button className="btn" onClick={() => addWater(500)}>+500ml</button>
-              <button className="btn" onClick={() => addWater(750)}>+750ml</button>
-              <button className="btn danger" onClick={() => addWater(-250)}>-250ml</button>
-            </div>
-            <div className="sep" />
-            <div className="row">
-              <label className="muted">Objectif (ml):</label>
-              <input className="input" type="number" value={state.waterGoalMl} onChange={(e) => setState((s) => ({ ...s, waterGoalMl: Math.max(500, Number(e.target.value || 0)) }))} />
             </div>
           </div>
+        );
+      })}
+
+      {celebration && (
+        <div className="card" style={{ marginBottom: 12, borderColor: "#c9a227" }}>
+          <div className="row" style={{ justifyContent: "space-between" }}>
+            <div style={{ fontWeight: 900, fontSize: 18 }}>🏆 Nouveau record !</div>
+            <button className="btn" onClick={() => setCelebration(null)}>OK</button>
+          </div>
+          <ul style={{ margin: "8px 0 0" }}>
+            {celebration.map((p) => (
+              <li key={p.exoId + p.kind}>
+                <b>{exoById.get(p.exoId)?.name ?? p.exoId}</b> — {p.kind === "e1rm" ? "1RM estimé" : p.kind} : {fmtWeight(p.value, state.units)}
+                {p.previous !== undefined && <span className="muted"> (avant {fmtWeight(p.previous, state.units)})</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {suppPrompt.length > 0 && (
+        <div className="card" style={{ marginBottom: 12, borderColor: "#2f5bff" }}>
+          <div className="row" style={{ justifyContent: "space-between" }}>
+            <div style={{ fontWeight: 900 }}>💊 Après la séance</div>
+            <button className="btn" onClick={() => setSuppPrompt([])}>Plus tard</button>
+          </div>
+          <div className="list" style={{ marginTop: 8 }}>
+            {suppPrompt.map((id) => {
+              const p = state.supplements.find((x) => x.id === id);
+              if (!p) return null;
+              return (
+                <div key={id} className="row" style={{ justifyContent: "space-between" }}>
+                  <span>{describeDose(p)}</span>
+                  <div className="row">
+                    <button className="btn" onClick={() => setSuppPrompt((ids) => ids.filter((x) => x !== id))}>Passer</button>
+                    <button className="btn primary" onClick={() => { setState((s) => logDose(s, id)); setSuppPrompt((ids) => ids.filter((x) => x !== id)); }}>Pris ✅</button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {loaded && resumePrompt && otherDrafts.some((d) => d.sets.length > 0) && (
+        <div className="card" style={{ marginBottom: 12, borderColor: "#2f5bff" }}>
+          <div className="row" style={{ justifyContent: "space-between" }}>
+            <div style={{ fontWeight: 800 }}>Reprendre la séance ?</div>
+            <button className="btn" onClick={() => setResumePrompt(false)}>Plus tard</button>
+          </div>
+          <div className="muted">Séance(s) commencée(s) mais pas enregistrée(s). « Enregistrer » la date au moment où elle a été faite.</div>
+          <div className="sep" />
+          <div className="list">{otherDrafts.filter((d) => d.sets.length > 0).map(draftRow)}</div>
+        </div>
+      )}
+
+      {saveError && (
+        <div className="card" style={{ marginBottom: 12, borderColor: "#7a2c41" }}>
+          <div style={{ fontWeight: 800 }}>Sauvegarde impossible</div>
+          <div className="muted">Les dernières modifications ne sont pas encore enregistrées ; nouvel essai automatique. ({saveError})</div>
+          <div className="row" style={{ marginTop: 8 }}>
+            <button className="btn" onClick={() => saverRef.current?.flush()}>Réessayer</button>
+          </div>
+        </div>
+      )}
+
+      {loaded?.unsafeRaw && (
+        <div className="card" style={{ marginBottom: 12, borderColor: "#7a2c41" }}>
+          <div style={{ fontWeight: 800 }}>Sauvegarde suspendue</div>
+          <div className="muted">Les données enregistrées sont abîmées et aucune copie n’a pu en être gardée. Rien n’est enregistré tant que tu n’as pas téléchargé l’original.</div>
+          <div className="row" style={{ marginTop: 8 }}>
+            <button
+              className="btn primary"
+              onClick={() => {
+                downloadFile(`myallinone-original-${todayKey()}.json`, loaded.unsafeRaw!, "application/json");
+                saverRef.current?.release();
+                setLoaded({ ...loaded, unsafeRaw: undefined });
+              }}
+            >
+              Télécharger l’original et reprendre
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loaded && loaded.issues.length > 0 && (
+        <div className="card" style={{ marginBottom: 12, borderColor: "#7a2c41" }}>
+          <div style={{ fontWeight: 800 }}>{loaded.quarantinedAt ? "Données partiellement illisibles" : "Données non chargées"}</div>
+          <div className="muted">
+            {loaded.issues.length} problème(s) détecté(s).
+            {loaded.quarantinedAt ? ` Une copie intacte est conservée en quarantaine (${loaded.quarantinedAt}).` : ` ${loaded.issues[0]}`}
+          </div>
+        </div>
+      )}
+
+      {loaded && tab === "TODAY" && (
+        <div className="grid cols2">
+          <WaterPanel
+            log={state.waterLog}
+            settings={state.water}
+            goalMl={goalOf(state, waterToday)}
+            fixedGoalMl={state.waterGoalMl}
+            parts={goalParts(state, waterToday)}
+            adjust={dayGoal(state, waterToday)}
+            streak={waterStreak(state, waterToday)}
+            now={now}
+            onAdd={addWater}
+            onRemove={(id) => setState((s) => removeDrink(s, id))}
+            onSettings={(water) => setState((s) => ({ ...s, water }))}
+            onGoal={(ml) => setState((s) => setFixedGoal(s, ml))}
+            onAdjust={(adj) => setState((s) => adjustDay(s, waterToday, adj))}
+          />
 
           <div className="card">
             <div className="muted">Poids du corps</div>
-            <div className="big">{latestWeight ? `${latestWeight} kg` : "—"}</div>
+            <div className="big">{latestWeight ? fmtWeight(latestWeight, state.units) : "—"}</div>
             <div className="muted">Note ton poids (1x/jour)</div>
             <div className="sep" />
-            <WeightInput onSave={addBodyWeight} />
+            <WeightInput unit={state.units} onSave={addBodyWeight} />
             <div className="sep" />
             <div className="muted">Derniers poids :</div>
             <div className="list">
               {[...state.bodyweight].sort((a, b) => b.dateISO.localeCompare(a.dateISO)).slice(0, 6).map((w) => (
                 <div key={w.dateISO} className="row" style={{ justifyContent: "space-between" }}>
                   <span className="muted">{w.dateISO}</span>
-                  <span>{w.weightKg} kg</span>
+                  <span>{fmtWeight(w.weightKg, state.units)}</span>
                 </div>
               ))}
             </div>
@@ -436,30 +581,20 @@ export default function Page() {
 
           <div className="card">
             <div className="muted">Chrono repos</div>
-            <div className="big">{formatTime(restSec)}</div>
-            <div className="row">
-              <button className="btn" onClick={() => startRest(60)}>1:00</button>
-              <button className="btn" onClick={() => startRest(90)}>1:30</button>
-              <button className="btn" onClick={() => startRest(120)}>2:00</button>
-              <button className="btn" onClick={() => startRest(150)}>2:30</button>
-              <button className="btn" onClick={() => startRest(180)}>3:00</button>
-            </div>
-            <div className="sep" />
-            <div className="row">
-              <button className="btn" disabled={!restRunning} onClick={() => setRestRunning(false)}>Pause</button>
-              <button className="btn" onClick={() => { setRestRunning(false); setRestSec(0); }}>Stop</button>
-              <button className="btn" disabled={restRunning || restSec === 0} onClick={() => setRestRunning(true)}>Reprendre</button>
-            </div>
+            <RestTimerControls timer={state.restTimer} now={now} label={restExoName} onChange={setRestTimer} />
           </div>
 
           <div className="card">
-            <div className="muted">Dernières séances</div>
+            <div className="row" style={{ justifyContent: "space-between" }}>
+              <div className="muted">Dernières séances</div>
+              <button className="btn" onClick={() => setTab("HISTORY")}>Tout voir</button>
+            </div>
             <div className="sep" />
             <div className="list">
               {recentLogs.length === 0 && <div className="muted">Aucune séance enregistrée.</div>}
               {recentLogs.map((l) => (
                 <div key={l.id} className="row" style={{ justifyContent: "space-between" }}>
-                  <span className="pill">{l.dayType}</span>
+                  <span className="pill">{dayLabel(l, state.workoutTemplates)}</span>
                   <span className="muted">{new Date(l.dateISO).toLocaleString("fr-FR")}</span>
                   <span>{l.sets.length} séries</span>
                 </div>
@@ -469,42 +604,85 @@ export default function Page() {
         </div>
       )}
 
-      {tab === "WORKOUT" && (
+      {loaded && tab === "WORKOUT" && (
         <div className="grid cols2">
           <div className="card">
             <div className="row" style={{ justifyContent: "space-between" }}>
               <div>
                 <div className="muted">Séance</div>
-                <div className="h1" style={{ margin: 0 }}>{dayType}</div>
+                <div className="h1" style={{ margin: 0 }}>{day?.name ?? "—"}</div>
+                {day && (
+                  <div className="muted" style={{ fontSize: 12 }}>
+                    {activeLog.sets.filter((x) => isStraightSet(x) && day.entries.some((t) => t.exoId === x.exoId)).length}/{day.entries.reduce((n, t) => n + t.targetSets, 0)} séries prévues
+                  </div>
+                )}
               </div>
               <div className="row">
-                <select className="select" value={dayType} onChange={(e) => setDayType(e.target.value as any)}>
-                  <option value="PUSH">PUSH</option>
-                  <option value="PULL">PULL</option>
-                  <option value="LEGS">LEGS</option>
+                <select className="select" value={day?.id ?? ""} onChange={(e) => setActiveLog((l) => ({ ...l, dayId: e.target.value }))}>
+                  {state.workoutTemplates.map((d) => (
+                    <option key={d.id} value={d.id}>{d.name}</option>
+                  ))}
                 </select>
-                <button className="btn primary" onClick={saveWorkout} disabled={activeLog.sets.length === 0}>Enregistrer</button>
+                <button className="btn primary" onClick={() => saveDraft(activeLog, false)} disabled={activeLog.sets.length === 0}>Enregistrer</button>
               </div>
             </div>
+            {waterDay(Date.parse(draftStart(activeLog)), state.water.dayStartHHMM) !== waterToday && activeLog.sets.length > 0 && (
+              <div className="row" style={{ marginTop: 8 }}>
+                <span className="muted" style={{ flex: 1 }}>Séance commencée le {new Date(draftStart(activeLog)).toLocaleDateString("fr-FR")}</span>
+                <button className="btn" onClick={() => saveDraft(activeLog, true)}>Enregistrer à cette date</button>
+              </div>
+            )}
+            {(otherDrafts.length > 0 || state.drafts.some((d) => d.id === activeLog.id)) && (
+              <>
+                <div className="sep" />
+                <div className="row" style={{ justifyContent: "space-between" }}>
+                  <span className="muted">{otherDrafts.length} autre(s) séance(s) en cours</span>
+                  <button className="btn" onClick={newSession} disabled={activeLog.sets.length === 0}>+ Nouvelle séance</button>
+                </div>
+                {otherDrafts.length > 0 && <div className="list" style={{ marginTop: 8 }}>{otherDrafts.map(draftRow)}</div>}
+              </>
+            )}
 
             <div className="sep" />
-            <div className="muted">Ajoute tes séries (kg + reps). Le poids se pré-remplit depuis ta dernière séance.</div>
+            <div className="muted">Ajoute tes séries (charge + reps). La 1ʳᵉ série part de la suggestion de progression.</div>
 
             <div className="sep" />
             <div className="list">
-              {state.workoutTemplates[dayType].map((t) => {
+              {!day && <div className="muted">Aucun jour dans ton programme : crée-en un dans l’onglet Programme.</div>}
+              {day?.entries.map((t) => {
                 const exo = exoById.get(t.exoId);
                 if (!exo) return null;
+                const done = activeLog.sets.filter((s) => s.exoId === t.exoId && isStraightSet(s)).length;
                 return (
-                  <div key={t.exoId} className="card" style={{ padding: 12 }}>
-                    {exo.imageUrl ? <img className="exo" src={exo.imageUrl} alt={exo.name} /> : null}
+                  <div key={t.exoId} className="card" style={{ padding: 12, borderLeft: t.supersetId ? "4px solid #2f5bff" : undefined }}>
+                    <ExoImage exo={exo} />
                     <div className="row" style={{ justifyContent: "space-between", marginTop: 8 }}>
                       <div>
-                        <div style={{ fontWeight: 800 }}>{exo.name}</div>
+                        <div style={{ fontWeight: 800 }}>
+                          {exo.name}
+                          {t.supersetId && <span className="pill" style={{ marginLeft: 8, fontSize: 12 }}>Superset {supersets.get(t.supersetId)}</span>}
+                        </div>
                         <div className="muted" style={{ fontSize: 12 }}>{exo.muscles.join(" • ")}</div>
+                        {CATALOG_BY_ID.has(exo.id) && <div className="muted" style={{ fontSize: 12 }}>🎯 {CATALOG_BY_ID.get(exo.id)!.cues.join(" • ")}</div>}
+                        <div className="muted" style={{ fontSize: 12 }}>
+                          <b style={{ color: done >= t.targetSets ? "#7ee2a8" : undefined }}>{done}/{t.targetSets} séries</b> • {t.repMin}–{t.repMax} reps
+                        </div>
+                        {suggestions.has(t.exoId) && (
+                          <div style={{ fontSize: 12, marginTop: 4 }}>
+                            💡 <b>{fmtLoad(suggestions.get(t.exoId)!.weightKg, state.units, modeOf(exo))} × {suggestions.get(t.exoId)!.reps}</b>{" "}
+                            <span className="muted">— {suggestions.get(t.exoId)!.reason}</span>
+                          </div>
+                        )}
+                        {!!rests.get(t.exoId)?.length && (
+                          <div className="muted" style={{ fontSize: 12 }}>
+                            ⏱ Repos réels : {rests.get(t.exoId)!.map(formatTime).join(", ")} (cible {formatTime(t.defaultRestSec)})
+                          </div>
+                        )}
                       </div>
                       <div className="row">
-                        <button className="btn" onClick={() => startRest(t.defaultRestSec)}>Repos {formatTime(t.defaultRestSec)}</button>
+                        <button className="btn" onClick={() => startRest(t.defaultRestSec, t.exoId)}>Repos {formatTime(t.defaultRestSec)}</button>
+                        <button className="btn" onClick={() => addSet(t.exoId, "warmup")}>+ Échauff.</button>
+                        {modeOf(exo) === "weight_reps" && <button className="btn" onClick={() => addWarmupRamp(t.exoId)}>Rampe</button>}
                         <button className="btn primary" onClick={() => addSet(t.exoId)}>+ Série</button>
                       </div>
                     </div>
@@ -515,7 +693,7 @@ export default function Page() {
 
             <div className="sep" />
             <div className="muted">Notes séance</div>
-            <textarea className="textarea" value={activeLog.notes || ""} onChange={(e) => setActiveLog((l) => ({ ...l, notes: e.target.value }))} placeholder="Ex: +2.5kg, bonne forme, fatigué..." />
+            <textarea className="textarea" value={activeLog.notes || ""} onChange={(e) => setActiveLog((l) => ({ ...l, notes: e.target.value }))} placeholder={`Ex: +${state.units === "lb" ? "5lb" : "2.5kg"}, bonne forme, fatigué...`} />
           </div>
 
           <div className="card">
@@ -525,25 +703,45 @@ export default function Page() {
             <div className="list">
               {activeLog.sets.map((s, idx) => {
                 const exo = exoById.get(s.exoId);
+                const loading = modeOf(exo) === "weight_reps" ? closestLoad(s.weightKg, state.plates, exo) : null;
                 return (
-                  <div key={idx} className="card" style={{ padding: 12 }}>
+                  <div key={idx} className="card" style={{ padding: 12, marginLeft: s.kind === "drop" ? 16 : undefined, opacity: s.kind === "warmup" ? 0.75 : 1 }}>
                     <div className="row" style={{ justifyContent: "space-between" }}>
                       <div style={{ fontWeight: 800 }}>{exo?.name || s.exoId}</div>
                       <button className="btn danger" onClick={() => removeSet(idx)}>Suppr</button>
                     </div>
                     <div className="sep" />
                     <div className="set">
-                      <div className="name"><span className="muted">Série #{idx + 1}</span></div>
-                      <input className="input" type="number" value={s.weightKg} onChange={(e) => updateSet(idx, { weightKg: Number(e.target.value || 0) })} placeholder="kg" />
-                      <input className="input" type="number" value={s.reps} onChange={(e) => updateSet(idx, { reps: Number(e.target.value || 0) })} placeholder="reps" />
-                      <input className="input" type="number" value={s.rpe ?? ""} onChange={(e) => updateSet(idx, { rpe: e.target.value === "" ? undefined : Number(e.target.value) })} placeholder="RPE" />
+                      <div className="name"><span className="muted">Série {labels[idx]}</span></div>
+                      <SetInputs set={s} mode={modeOf(exo)} unit={state.units} onChange={(patch) => updateSet(idx, patch)} />
+                    </div>
+                    {loading && (loading.perSide || !loading.exact) && (
+                      <div className="row" style={{ marginTop: 6, fontSize: 12 }}>
+                        <span className="muted">🏋 {loading.perSide ? describePlates(loading, state.plates.unit) : fmtWeight(loading.totalKg, state.units)}</span>
+                        {!loading.exact && (
+                          <>
+                            <span className="muted">— le plus proche : <b>{fmtWeight(loading.totalKg, state.units)}</b></span>
+                            <button className="btn" onClick={() => updateSet(idx, { weightKg: loading.totalKg })}>Arrondir</button>
+                          </>
+                        )}
+                      </div>
+                    )}
+                    <div className="row" style={{ marginTop: 8 }}>
+                      <select className="select" value={kindOf(s)} onChange={(e) => setActiveLog((l) => ({ ...l, sets: changeKind(l.sets, idx, e.target.value as SetKind) }))}>
+                        {SET_KINDS.map((k) => (
+                          <option key={k} value={k}>{SET_KIND_LABELS[k]}</option>
+                        ))}
+                      </select>
+                      <input className="input" type="number" value={s.rir ?? ""} onChange={(e) => updateSet(idx, { rir: e.target.value === "" ? undefined : Number(e.target.value) })} placeholder="RIR" style={{ width: 70 }} />
+                      <input className="input" value={s.tempo ?? ""} onChange={(e) => updateSet(idx, { tempo: e.target.value || undefined })} placeholder="Tempo 3-1-1-0" style={{ width: 120 }} />
+                      {isStraightSet(s) && <button className="btn" onClick={() => setActiveLog((l) => ({ ...l, sets: addDropSet(l.sets, idx, state.units, state.progression.increment[state.units]) }))}>↘ Drop</button>}
                     </div>
                     <div className="sep" />
                     <div className="row">
-                      <button className="btn" onClick={() => startRest(60)}>1:00</button>
-                      <button className="btn" onClick={() => startRest(90)}>1:30</button>
-                      <button className="btn" onClick={() => startRest(120)}>2:00</button>
-                      <button className="btn" onClick={() => startRest(150)}>2:30</button>
+                      <button className="btn" onClick={() => startRest(60, s.exoId)}>1:00</button>
+                      <button className="btn" onClick={() => startRest(90, s.exoId)}>1:30</button>
+                      <button className="btn" onClick={() => startRest(120, s.exoId)}>2:00</button>
+                      <button className="btn" onClick={() => startRest(150, s.exoId)}>2:30</button>
                     </div>
                   </div>
                 );
@@ -551,16 +749,46 @@ export default function Page() {
             </div>
 
             <div className="sep" />
-            <div className="muted">Chrono : <b>{formatTime(restSec)}</b> {restRunning ? "(go)" : ""}</div>
-            <div className="row">
-              <button className="btn" onClick={() => setRestRunning((x) => !x)} disabled={restSec === 0}>{restRunning ? "Pause" : "Reprendre"}</button>
-              <button className="btn" onClick={() => { setRestRunning(false); setRestSec(0); }}>Stop</button>
+            <div className="row" style={{ justifyContent: "space-between" }}>
+              <div className="muted">Chrono</div>
+              <button className={`btn ${state.restAutoStart ? "primary" : ""}`} onClick={() => setState((s) => ({ ...s, restAutoStart: !s.restAutoStart }))}>
+                Auto après série : {state.restAutoStart ? "oui" : "non"}
+              </button>
             </div>
+            <RestTimerControls timer={state.restTimer} now={now} label={restExoName} onChange={setRestTimer} />
           </div>
         </div>
       )}
 
-      {tab === "NUTRI" && (
+      {loaded && tab === "HISTORY" && (
+        <HistoryPanel
+          logs={state.logs}
+          days={state.workoutTemplates}
+          exercises={state.exercises}
+          exoById={exoById}
+          unit={state.units}
+          onChange={(logs) => setState((s) => ({ ...s, logs }))}
+          onDuplicate={duplicateLog}
+        />
+      )}
+
+      {loaded && tab === "SPLIT" && (
+        <>
+          <SplitEditor
+            days={state.workoutTemplates}
+            exercises={state.exercises}
+            exoById={exoById}
+            logs={state.logs}
+            onChange={(workoutTemplates) => setState((s) => ({ ...s, workoutTemplates }))}
+          />
+          <div className="grid cols2" style={{ marginTop: 12 }}>
+            <ProgressionSettingsCard value={state.progression} unit={state.units} onChange={(progression) => setState((s) => ({ ...s, progression }))} />
+            <PlateSettingsCard value={state.plates} unit={state.units} onChange={(plates) => setState((s) => ({ ...s, plates }))} />
+          </div>
+        </>
+      )}
+
+      {loaded && tab === "NUTRI" && (
         <div className="grid cols2">
           <div className="card">
             <div className="h1">Plan alimentaire simple (anti-skip)</div>
@@ -635,44 +863,28 @@ export default function Page() {
             <div className="muted">Notes nutrition</div>
             <textarea className="textarea" value={state.nutrition.notes} onChange={(e) => setState((s) => ({ ...s, nutrition: { ...s.nutrition, notes: e.target.value } }))} placeholder="Ex: faim faible matin, manger plus tôt, etc." />
           </div>
+
+          <SupplementsPanel state={state} onApply={setState} />
         </div>
       )}
 
-      {tab === "REMIND" && (
+      {loaded && tab === "REMIND" && (
         <div className="grid cols2">
           <div className="card">
-            <div className="h1">Rappels (simple)</div>
+            <div className="h1">Rappels</div>
             <div className="muted">
-              Ça bip + notif <b>quand l’app est ouverte</b>. (Sur iPhone: ouvre l’app en mode “écran d’accueil”, ça suffit.)
+              Ça bip + notif quand l’app est ouverte. App fermée : <b>{DELIVERY_LABELS[delivery]}</b>. « Fait » enregistre l’action du rappel (eau bue, repas coché, complément pris), aussi depuis la notif. (Sur iPhone: ajoute l’app à l’écran d’accueil pour recevoir les notifs.)
             </div>
             <div className="sep" />
             <div className="row">
-              <button className="btn primary" onClick={() => { requestNotifPermission(); fireNotification("Test", "Notifications activées ✅"); }}>Activer notifications</button>
+              <button className="btn primary" onClick={() => requestNotifPermission().then(() => { fireNotification("Test", "Notifications activées ✅"); return syncRings(state.reminders); })}>Activer notifications</button>
               <button className="btn" onClick={addReminder}>+ Ajouter rappel</button>
             </div>
             <div className="sep" />
 
             <div className="list">
               {state.reminders.map((r) => (
-                <div key={r.id} className="card" style={{ padding: 12 }}>
-                  <div className="row" style={{ justifyContent: "space-between" }}>
-                    <div style={{ fontWeight: 900 }}>{r.title}</div>
-                    <button className="btn danger" onClick={() => removeReminder(r.id)}>Suppr</button>
-                  </div>
-
-                  <div className="sep" />
-                  <div className="row">
-                    <label className="muted">Heure</label>
-                    <input className="input" type="time" value={r.timeHHMM} onChange={(e) => updateReminderTime(r.id, e.target.value)} />
-                    <span className="pill">dans ~{minutesUntil(r.timeHHMM)} min</span>
-                    <button className={`btn ${r.enabled ? "primary" : ""}`} onClick={() => toggleReminder(r.id)}>
-                      {r.enabled ? "Activé" : "Désactivé"}
-                    </button>
-                  </div>
-
-                  <div className="sep" />
-                  <input className="input" value={r.title} onChange={(e) => updateReminderTitle(r.id, e.target.value)} placeholder="Titre du rappel" style={{ width: "100%" }} />
-                </div>
+                <ReminderCard key={r.id} reminder={r} now={now} events={state.reminderEvents} checklistKeys={Object.keys(state.nutrition.todaysChecklist)} supplements={state.supplements} onChange={updateReminder} onRemove={() => removeReminder(r.id)} />
               ))}
             </div>
           </div>
@@ -681,11 +893,11 @@ export default function Page() {
             <div className="h1">Rappels conseillés (prise de masse)</div>
             <div className="sep" />
             <ul>
-              <li>10:30 → Eau 500ml</li>
+              <li>10:30 → Eau 250ml</li>
               <li>13:30 → Déjeuner</li>
               <li>17:00 → Collation</li>
               <li>20:30 → Dîner</li>
-              <li>Après séance → Créatine 5g + gainer</li>
+              <li>Après séance → gainer (proposé à l’enregistrement, voir Nutrition › Compléments)</li>
             </ul>
             <div className="sep" />
             <div className="muted">
@@ -695,52 +907,28 @@ export default function Page() {
         </div>
       )}
 
-      {tab === "LIB" && (
-        <div className="grid cols2">
-          <div className="card">
-            <div className="h1">Ajouter un exercice</div>
-            <AddExerciseForm onAdd={addExercise} />
-            <div className="sep" />
-            <div className="muted">Images : colle une URL d’image (optionnel).</div>
-          </div>
-          <div className="card">
-            <div className="h1">Bibliothèque</div>
-            <div className="list">
-              {state.exercises.map((e) => (
-                <div key={e.id} className="card" style={{ padding: 12 }}>
-                  {e.imageUrl ? <img className="exo" src={e.imageUrl} alt={e.name} /> : null}
-                  <div className="row" style={{ justifyContent: "space-between", marginTop: 8 }}>
-                    <div>
-                      <div style={{ fontWeight: 800 }}>{e.name}</div>
-                      <div className="muted" style={{ fontSize: 12 }}>{e.muscles.join(" • ")}</div>
-                    </div>
-                  </div>
-                  <div className="sep" />
-                  <div className="row">
-                    <input className="input" placeholder="Image URL" defaultValue={e.imageUrl || ""} onBlur={(ev) => updateExerciseImage(e.id, ev.target.value)} style={{ flex: 1 }} />
-                  </div>
-                </div>
-              ))}
-            </div>
-          </div>
-        </div>
+      {loaded && tab === "LIB" && (
+        <>
+          <ExerciseLibrary state={state} onApply={setState} />
+          <CatalogBrowser exercises={state.exercises} onAdd={(c) => setState((s) => ({ ...s, exercises: addFromCatalog(s.exercises, c) }))} />
+        </>
       )}
 
-      {tab === "STATS" && (
+      {loaded && tab === "STATS" && (
         <div className="grid cols2">
           <div className="card">
             <div className="h1">Poids (30 derniers)</div>
             <div className="sep" />
             <SimpleLineChart
-              points={weightLast30.map((x) => ({ x: x.dateISO.slice(5), y: x.weightKg }))}
-              yLabel="kg"
+              points={weightLast30.map((x) => ({ x: x.dateISO.slice(5), y: showWeight(x.weightKg, state.units) }))}
+              yLabel={state.units}
             />
             <div className="sep" />
             <div className="list">
               {[...state.bodyweight].sort((a, b) => b.dateISO.localeCompare(a.dateISO)).slice(0, 10).map((w) => (
                 <div key={w.dateISO} className="row" style={{ justifyContent: "space-between" }}>
                   <span className="muted">{w.dateISO}</span>
-                  <span>{w.weightKg} kg</span>
+                  <span>{fmtWeight(w.weightKg, state.units)}</span>
                 </div>
               ))}
               {state.bodyweight.length === 0 && <div className="muted">Aucune entrée.</div>}
@@ -751,35 +939,46 @@ export default function Page() {
             <div className="h1">Eau (7 derniers jours)</div>
             <div className="sep" />
             <SimpleBarChart
-              bars={waterLast7.map((x) => ({ label: x.date.slice(5), value: x.ml }))}
-              maxValue={state.waterGoalMl}
+              bars={waterLast7.map((x) => ({ label: x.date.slice(5), value: x.ml, goal: x.goalMl }))}
+              maxValue={waterMax}
               unit="ml"
             />
             <div className="sep" />
-            <div className="muted">Objectif: {state.waterGoalMl} ml</div>
+            <div className="muted">Chaque jour est comparé à son propre objectif (trait orange). Série en cours : {waterStreak(state, waterToday)} jour(s).</div>
           </div>
+
+          <ExerciseStatsPanel logs={state.logs} exoById={exoById} bodyweight={state.bodyweight} unit={state.units} formula={state.e1rmFormula} onFormula={(e1rmFormula) => setState((s) => ({ ...s, e1rmFormula }))} />
+          <MuscleVolumePanel logs={state.logs} exoById={exoById} bodyweight={state.bodyweight} unit={state.units} settings={state.volume} onSettings={(volume) => setState((s) => ({ ...s, volume }))} />
+        </div>
+      )}
+
+      {loaded && tab === "DATA" && (
+        <div className="grid cols2">
+          <BackupPanel state={state} onApply={setState} />
+          <CsvExportPanel state={state} exoById={exoById} />
+          <ImportPanel state={state} exoById={exoById} onApply={setState} />
         </div>
       )}
 
       <div style={{ height: 24 }} />
       <div className="muted" style={{ fontSize: 12 }}>
-        Prochain upgrade (facultatif): vraies notifs iPhone même app fermée (Web Push) + perf par exercice.
+        Rappels app fermée : Notification Triggers si le navigateur les a, sinon Web Push via /api/push (clés VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY côté serveur).
       </div>
     </div>
   );
 }
 
-function WeightInput({ onSave }: { onSave: (w: number) => void }) {
+function WeightInput({ unit, onSave }: { unit: Unit; onSave: (kg: number) => void }) {
   const [val, setVal] = useState("");
   return (
     <div className="row">
-      <input className="input" value={val} onChange={(e) => setVal(e.target.value)} placeholder="ex: 68.4" inputMode="decimal" />
+      <input className="input" value={val} onChange={(e) => setVal(e.target.value)} placeholder={unit === "lb" ? "ex: 150.8" : "ex: 68.4"} inputMode="decimal" />
       <button
         className="btn primary"
         onClick={() => {
           const n = Number(val);
           if (!Number.isFinite(n) || n <= 0) return;
-          onSave(Math.round(n * 10) / 10);
+          onSave(fromUnit(Math.round(n * 10) / 10, unit));
           setVal("");
         }}
       >
@@ -788,176 +987,3 @@ function WeightInput({ onSave }: { onSave: (w: number) => void }) {
     </div>
   );
 }
-
-function AddExerciseForm({ onAdd }: { onAdd: (name: string, musclesCSV: string, imageUrl: string) => void }) {
-  const [name, setName] = useState("");
-  const [muscles, setMuscles] = useState("chest");
-  const [img, setImg] = useState("");
-  return (
-    <div className="list">
-      <input className="input" value={name} onChange={(e) => setName(e.target.value)} placeholder="Nom exo" />
-      <input className="input" value={muscles} onChange={(e) => setMuscles(e.target.value)} placeholder="Muscles (séparés par virgule)" />
-      <input className="input" value={img} onChange={(e) => setImg(e.target.value)} placeholder="Image URL (optionnel)" />
-      <button
-        className="btn primary"
-        onClick={() => {
-          if (!name.trim()) return;
-          onAdd(name.trim(), muscles, img);
-          setName("");
-          setMuscles("chest");
-          setImg("");
-        }}
-      >
-        Ajouter
-      </button>
-    </div>
-  );
-}
-
-// ---------- Simple charts (no libs) ----------
-function SimpleLineChart({ points, yLabel }: { points: { x: string; y: number }[]; yLabel: string }) {
-  const canvasRef = useRef<HTMLCanvasElement | null>(null);
-
-  useEffect(() => {
-    const c = canvasRef.current;
-    if (!c) return;
-    const ctx = c.getContext("2d");
-    if (!ctx) return;
-
-    // resize for crisp
-    const w = 900;
-    const h = 240;
-    c.width = w;
-    c.height = h;
-
-    ctx.clearRect(0, 0, w, h);
-    ctx.fillStyle = "#0e1526";
-    ctx.fillRect(0, 0, w, h);
-
-    if (points.length < 2) {
-      ctx.fillStyle = "#a8b2cc";
-      ctx.fillText("Pas assez de points", 20, 30);
-      return;
-    }
-
-    const ys = points.map((p) => p.y);
-    const minY = Math.min(...ys);
-    const maxY = Math.max(...ys);
-    const pad = 20;
-    const left = 50;
-    const right = 15;
-    const top = 20;
-    const bottom = 35;
-
-    const scaleX = (i: number) => left + (i * (w - left - right)) / (points.length - 1);
-    const scaleY = (y: number) => {
-      const denom = maxY - minY || 1;
-      return top + ((maxY - y) * (h - top - bottom)) / denom;
-    };
-
-    // grid
-    ctx.strokeStyle = "#22304f";
-    ctx.lineWidth = 1;
-    for (let i = 0; i <= 4; i++) {
-      const y = top + (i * (h - top - bottom)) / 4;
-      ctx.beginPath();
-      ctx.moveTo(left, y);
-      ctx.lineTo(w - right, y);
-      ctx.stroke();
-    }
-
-    // line
-    ctx.strokeStyle = "#2f5bff";
-    ctx.lineWidth = 3;
-    ctx.beginPath();
-    points.forEach((p, i) => {
-      const x = scaleX(i);
-      const y = scaleY(p.y);
-      if (i === 0) ctx.moveTo(x, y);
-      else ctx.lineTo(x, y);
-    });
-    ctx.stroke();
-
-    // dots
-    ctx.fillStyle = "#e6e9f2";
-    points.forEach((p, i) => {
-      const x = scaleX(i);
-      const y = scaleY(p.y);
-      ctx.beginPath();
-      ctx.arc(x, y, 4, 0, Math.PI * 2);
-      ctx.fill();
-    });
-
-    // labels
-    ctx.fillStyle = "#a8b2cc";
-    ctx.font = "14px system-ui";
-    ctx.fillText(`${maxY.toFixed(1)} ${yLabel}`, 10, top + 10);
-    ctx.fillText(`${minY.toFixed(1)} ${yLabel}`, 10, h - bottom);
-
-    // x labels (few)
-    ctx.fillStyle = "#a8b2cc";
-    const step = Math.max(1, Math.floor(points.length / 5));
-    for (let i = 0; i < points.length; i += step) {
-      const x = scaleX(i);
-      ctx.fillText(points[i].x, x - 14, h - 12);
-    }
-  }, [points, yLabel]);
-
-  return <canvas ref={canvasRef} style={{ width: "100%", height: 220, borderRadius: 12, border: "1px solid #22304f" }} />;
-}
-
-function SimpleBarChart({ bars, maxValue, unit }: { bars: { label: string; value: number }[]; maxValue: number; unit: string }) {
-  const canvasRef = useRef<HTMLCanvasElement | null>(null);
-
-  useEffect(() => {
-    const c = canvasRef.current;
-    if (!c) return;
-    const ctx = c.getContext("2d");
-    if (!ctx) return;
-
-    const w = 900;
-    const h = 240;
-    c.width = w;
-    c.height = h;
-
-    ctx.clearRect(0, 0, w, h);
-    ctx.fillStyle = "#0e1526";
-    ctx.fillRect(0, 0, w, h);
-
-    const left = 40;
-    const right = 15;
-    const top = 20;
-    const bottom = 35;
-
-    // grid line at goal
-    ctx.strokeStyle = "#22304f";
-    ctx.lineWidth = 1;
-    const goalY = top + ((maxValue - maxValue) * (h - top - bottom)) / (maxValue || 1);
-    ctx.beginPath();
-    ctx.moveTo(left, goalY);
-    ctx.lineTo(w - right, goalY);
-    ctx.stroke();
-
-    const barW = (w - left - right) / bars.length;
-    bars.forEach((b, i) => {
-      const x = left + i * barW + 10;
-      const usableH = h - top - bottom;
-      const v = Math.min(maxValue, b.value);
-      const bh = (v / (maxValue || 1)) * usableH;
-      const y = top + (usableH - bh);
-
-      ctx.fillStyle = "#2f5bff";
-      ctx.fillRect(x, y, barW - 20, bh);
-
-      ctx.fillStyle = "#a8b2cc";
-      ctx.font = "12px system-ui";
-      ctx.fillText(b.label, x, h - 12);
-    });
-
-    ctx.fillStyle = "#a8b2cc";
-    ctx.font = "14px system-ui";
-    ctx.fillText(`max ${maxValue} ${unit}`, 10, 18);
-  }, [bars, maxValue, unit]);
-
-  return <canvas ref={canvasRef} style={{ width: "100%", height: 220, borderRadius: 12, border: "1px solid #22304f" }} />;
-}
@@ -0,0 +1,112 @@
+"use client";
+import React, { useState } from "react";
+import { AppState, todayKey } from "@/lib/state";
+import { MergePreview, SliceDiff, exportBackup, mergeStates, parseBackup, previewMerge } from "@/lib/backup";
+import { downloadFile } from "@/lib/download";
+import { rollover } from "@/lib/storage";
+import { dropPhotos, exportPhotos, restorePhotos } from "@/lib/photos";
+
+type Pending = { incoming: AppState; issues: string[]; exportedAt: string; photos: Record<string, string>; preview: MergePreview };
+
+const SLICE_LABELS: Record<keyof MergePreview, string> = {
+  logs: "Séances",
+  bodyweight: "Poids",
+  waterLog: "Boissons",
+  waterGoals: "Objectifs eau",
+  exercises: "Exercices",
+  reminders: "Rappels",
+  reminderEvents: "Suivi des rappels",
+  supplements: "Compléments",
+  suppDoses: "Prises de compléments",
+};
+
+export default function BackupPanel({ state, onApply }: { state: AppState; onApply: (f: (s: AppState) => AppState) => void }) {
+  const [pending, setPending] = useState<Pending | null>(null);
+  const [error, setError] = useState("");
+
+  const onFile = async (file: File | undefined) => {
+    setError("");
+    setPending(null);
+    if (!file) return;
+    try {
+      const { state: incoming, issues, exportedAt, photos } = parseBackup(await file.text());
+      setPending({ incoming, issues, exportedAt, photos, preview: previewMerge(state, incoming) });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const exportAll = async () => {
+    setError("");
+    try {
+      downloadFile(`myallinone-${todayKey()}.json`, exportBackup(state, await exportPhotos(state.exercises)), "application/json");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const apply = async (mode: "replace" | "merge") => {
+    if (!pending) return;
+    if (mode === "replace" && !confirm("Remplacer toutes les données de cet appareil par la sauvegarde ?")) return;
+    try {
+      const { incoming, photos } = pending;
+      const photoIds = [...state.exercises, ...incoming.exercises].flatMap((e) => (e.photoId ? [e.photoId] : []));
+      const missing = await restorePhotos(photos, photoIds);
+      // merged into the state as it is once the photos are in, not as it was when they started
+      onApply((s) => dropPhotos(mode === "replace" ? rollover(incoming) : mergeStates(s, incoming), missing));
+      setPending(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="h1">Sauvegarde complète (JSON)</div>
+      <div className="muted">Séances, poids, eau, exercices (avec leurs photos), templates, rappels (et leur suivi), compléments et nutrition.</div>
+      <div className="sep" />
+      <div className="row">
+        <button className="btn primary" onClick={exportAll}>
+          Exporter
+        </button>
+        <label className="btn">
+          Importer…
+          <input type="file" accept="application/json,.json" style={{ display: "none" }} onChange={(e) => { onFile(e.target.files?.[0]); e.target.value = ""; }} />
+        </label>
+      </div>
+
+      {error && <div className="muted" style={{ marginTop: 8, color: "#ff8a9a" }}>Import impossible : {error}</div>}
+
+      {pending && (
+        <>
+          <div className="sep" />
+          <div style={{ fontWeight: 800 }}>Aperçu de l’import</div>
+          {pending.exportedAt && <div className="muted">Exporté le {new Date(pending.exportedAt).toLocaleString("fr-FR")}</div>}
+          {pending.issues.length > 0 && <div className="muted">{pending.issues.length} entrée(s) invalide(s) ignorée(s).</div>}
+          <div className="list" style={{ marginTop: 8 }}>
+            {(Object.keys(SLICE_LABELS) as (keyof MergePreview)[]).map((k) => (
+              <PreviewRow key={k} label={SLICE_LABELS[k]} diff={pending.preview[k]} />
+            ))}
+          </div>
+          <div className="sep" />
+          <div className="row">
+            <button className="btn primary" onClick={() => apply("merge")}>Fusionner</button>
+            <button className="btn danger" onClick={() => apply("replace")}>Remplacer tout</button>
+            <button className="btn" onClick={() => setPending(null)}>Annuler</button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function PreviewRow({ label, diff }: { label: string; diff: SliceDiff<unknown> }) {
+  return (
+    <div className="row" style={{ justifyContent: "space-between" }}>
+      <span>{label}</span>
+      <span className="muted">
+        +{diff.added.length} nouveau(x) • {diff.overwritten.length} écrasé(s) • {diff.unchanged} identique(s)
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+import React, { useMemo, useState } from "react";
+import { EQUIPMENTS, Equipment, Exo, MOVEMENT_PATTERNS, MovementPattern } from "@/lib/state";
+import { CATALOG, CatalogEntry } from "@/lib/catalog";
+import { EMPTY_LIBRARY_FILTER, LibraryFilter, PATTERN_LABELS, allMuscles, filterExercises } from "@/lib/library";
+import { EQUIPMENT_LABELS } from "@/lib/plates";
+
+const PAGE = 30;
+
+export default function CatalogBrowser({ exercises, onAdd }: { exercises: Exo[]; onAdd: (c: CatalogEntry) => void }) {
+  const [filter, setFilter] = useState<LibraryFilter>(EMPTY_LIBRARY_FILTER);
+  const [limit, setLimit] = useState(PAGE);
+  const [open, setOpen] = useState<string | null>(null);
+  const shown = useMemo(() => filterExercises(CATALOG, filter), [filter]);
+  const muscles = useMemo(() => allMuscles(CATALOG), []);
+  const owned = useMemo(() => new Set(exercises.map((e) => e.id)), [exercises]);
+  const setF = (patch: Partial<LibraryFilter>) => {
+    setFilter((f) => ({ ...f, ...patch }));
+    setLimit(PAGE);
+  };
+
+  return (
+    <div className="card" style={{ marginTop: 12 }}>
+      <div className="h1">Catalogue d’exercices</div>
+      <div className="muted">{CATALOG.length} mouvements disponibles hors ligne, avec exécution et points clés. Ajoute ceux que tu pratiques à ta bibliothèque.</div>
+      <div className="sep" />
+      <input className="input" value={filter.query} onChange={(e) => setF({ query: e.target.value })} placeholder="Rechercher (nom, muscle)…" style={{ width: "100%" }} />
+      <div className="row" style={{ marginTop: 8 }}>
+        <select className="select" value={filter.muscle} onChange={(e) => setF({ muscle: e.target.value })}>
+          <option value="">Tous les muscles</option>
+          {muscles.map((m) => (
+            <option key={m} value={m}>{m}</option>
+          ))}
+        </select>
+        <select className="select" value={filter.equipment} onChange={(e) => setF({ equipment: e.target.value as Equipment | "" })}>
+          <option value="">Tout matériel</option>
+          {EQUIPMENTS.map((q) => (
+            <option key={q} value={q}>{EQUIPMENT_LABELS[q]}</option>
+          ))}
+        </select>
+        <select className="select" value={filter.pattern} onChange={(e) => setF({ pattern: e.target.value as MovementPattern | "" })}>
+          <option value="">Tous les mouvements</option>
+          {MOVEMENT_PATTERNS.map((p) => (
+            <option key={p} value={p}>{PATTERN_LABELS[p]}</option>
+          ))}
+        </select>
+        <button className="btn" onClick={() => setF(EMPTY_LIBRARY_FILTER)}>Effacer</button>
+      </div>
+      <div className="sep" />
+      <div className="muted">{shown.length} résultat(s)</div>
+      <div className="list" style={{ marginTop: 8 }}>
+        {shown.slice(0, limit).map((c) => (
+          <div key={c.id}>
+            <div className="row" style={{ justifyContent: "space-between" }}>
+              <div style={{ cursor: "pointer" }} onClick={() => setOpen(open === c.id ? null : c.id)}>
+                <div style={{ fontWeight: 800 }}>{open === c.id ? "▾" : "▸"} {c.name}</div>
+                <div className="muted" style={{ fontSize: 12 }}>{c.muscles.join(" • ")} — {EQUIPMENT_LABELS[c.equipment]}</div>
+              </div>
+              {owned.has(c.id) ? <span className="pill">✓ Dans ta bibliothèque</span> : <button className="btn" onClick={() => onAdd(c)}>+ Ajouter</button>}
+            </div>
+            {open === c.id && <ExerciseNotes entry={c} />}
+          </div>
+        ))}
+        {shown.length > limit && <button className="btn" onClick={() => setLimit((n) => n + PAGE)}>Afficher plus</button>}
+      </div>
+    </div>
+  );
+}
+
+export function ExerciseNotes({ entry }: { entry: CatalogEntry }) {
+  return (
+    <div style={{ fontSize: 13, marginTop: 6 }}>
+      {!!entry.instructions.length && (
+        <ol style={{ margin: "4px 0", paddingLeft: 20 }}>
+          {entry.instructions.map((s, i) => (
+            <li key={i}>{s}</li>
+          ))}
+        </ol>
+      )}
+      {!!entry.cues.length && <div className="muted">Points clés : {entry.cues.join(" • ")}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+import React, { useState } from "react";
+import { AppState, Exo, UNITS, Unit, todayKey } from "@/lib/state";
+import { CsvOptions, bodyweightCsv, setsCsv, waterCsv } from "@/lib/csv";
+import { downloadFile } from "@/lib/download";
+
+export default function CsvExportPanel({ state, exoById }: { state: AppState; exoById: Map<string, Exo> }) {
+  const [opts, setOpts] = useState<CsvOptions>({ from: "", to: "", decimal: ",", unit: state.units });
+
+  const save = (name: string, csv: string) => {
+    const range = opts.from || opts.to ? `_${opts.from || "debut"}_${opts.to || todayKey()}` : "";
+    downloadFile(`myallinone-${name}${range}.csv`, csv, "text/csv;charset=utf-8");
+  };
+
+  return (
+    <div className="card">
+      <div className="h1">Export CSV (tableur)</div>
+      <div className="muted">Une ligne par série, par pesée ou par jour d’eau.</div>
+      <div className="sep" />
+      <div className="row">
+        <label className="muted">Du</label>
+        <input className="input" type="date" value={opts.from} onChange={(e) => setOpts((o) => ({ ...o, from: e.target.value }))} />
+        <label className="muted">au</label>
+        <input className="input" type="date" value={opts.to} onChange={(e) => setOpts((o) => ({ ...o, to: e.target.value }))} />
+      </div>
+      <div className="row" style={{ marginTop: 8 }}>
+        <label className="muted">Décimales</label>
+        <select className="select" value={opts.decimal} onChange={(e) => setOpts((o) => ({ ...o, decimal: e.target.value as CsvOptions["decimal"] }))}>
+          <option value=",">virgule (Excel FR, séparateur ;)</option>
+          <option value=".">point (séparateur ,)</option>
+        </select>
+        <select className="select" value={opts.unit} onChange={(e) => setOpts((o) => ({ ...o, unit: e.target.value as Unit }))}>
+          {UNITS.map((u) => (
+            <option key={u} value={u}>{u}</option>
+          ))}
+        </select>
+      </div>
+      <div className="sep" />
+      <div className="row">
+        <button className="btn" onClick={() => save("series", setsCsv(state, exoById, opts))}>Séries</button>
+        <button className="btn" onClick={() => save("poids", bodyweightCsv(state, opts))}>Poids</button>
+        <button className="btn" onClick={() => save("eau", waterCsv(state, opts))}>Eau</button>
+      </div>
+    </div>
+  );
+}
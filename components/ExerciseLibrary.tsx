@@ -0,0 +1,229 @@
+"use client";
+import React, { useMemo, useState } from "react";
+import { AppState, EQUIPMENTS, Equipment, Exo, MOVEMENT_PATTERNS, MovementPattern, TRACKING_MODES, TrackingMode } from "@/lib/state";
+import { EMPTY_LIBRARY_FILTER, LibraryFilter, PATTERN_LABELS, allMuscles, deleteExercise, exerciseRefs, filterExercises, isReferenced, likelyDuplicates, mergeExercises, newExoId, parseMuscles } from "@/lib/library";
+import { EQUIPMENT_LABELS } from "@/lib/plates";
+import { TRACKING_LABELS, modeOf } from "@/lib/tracking";
+import { fromUnit, showWeight } from "@/lib/units";
+import { CATALOG_BY_ID } from "@/lib/catalog";
+import { deletePhoto, savePhoto, shrinkImage } from "@/lib/photos";
+import ExoImage from "@/components/ExoImage";
+import { ExerciseNotes } from "@/components/CatalogBrowser";
+
+// muscles are edited as text and only split on save
+type Draft = { exo: Exo; muscles: string; isNew: boolean };
+
+const blankDraft = (): Draft => ({ exo: { id: "", name: "", muscles: [] }, muscles: "", isNew: true });
+
+export default function ExerciseLibrary({ state, onApply }: { state: AppState; onApply: (next: AppState) => void }) {
+  const [filter, setFilter] = useState<LibraryFilter>(EMPTY_LIBRARY_FILTER);
+  const [draft, setDraft] = useState<Draft>(blankDraft);
+  const [mergeInto, setMergeInto] = useState("");
+  const [photoError, setPhotoError] = useState("");
+  const unit = state.units;
+  const shown = useMemo(() => filterExercises(state.exercises, filter), [state.exercises, filter]);
+  const muscles = useMemo(() => allMuscles(state.exercises), [state.exercises]);
+  const duplicates = useMemo(() => new Map(state.exercises.map((e) => [e.id, likelyDuplicates(state.exercises, e)])), [state.exercises]);
+  const setF = (patch: Partial<LibraryFilter>) => setFilter((f) => ({ ...f, ...patch }));
+  const set = (patch: Partial<Exo>) => setDraft((d) => ({ ...d, exo: { ...d.exo, ...patch } }));
+  const e = draft.exo;
+  const saved = draft.isNew ? undefined : state.exercises.find((x) => x.id === e.id);
+  const notes = CATALOG_BY_ID.get(e.id);
+
+  const dropPhoto = (id: string) => deletePhoto(id).catch((err) => setPhotoError(`Photo non supprimée : ${err instanceof Error ? err.message : String(err)}`));
+  // a photo picked but never saved would otherwise stay in the photos store forever
+  const dropUnsavedPhoto = () => {
+    if (e.photoId && e.photoId !== saved?.photoId) dropPhoto(e.photoId);
+  };
+
+  const open = (next: Draft) => {
+    dropUnsavedPhoto();
+    setDraft(next);
+    setMergeInto("");
+    setPhotoError("");
+  };
+  const edit = (exo: Exo) => open({ exo, muscles: exo.muscles.join(", "), isNew: false });
+
+  const pickPhoto = async (file: File | undefined) => {
+    setPhotoError("");
+    if (!file) return;
+    try {
+      const photoId = await savePhoto(await shrinkImage(file));
+      dropUnsavedPhoto();
+      set({ photoId, imageUrl: undefined });
+    } catch (err) {
+      setPhotoError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const save = () => {
+    const name = e.name.trim();
+    if (!name) return;
+    const exo = { ...e, name, muscles: parseMuscles(draft.muscles) };
+    if (saved?.photoId && saved.photoId !== exo.photoId) dropPhoto(saved.photoId);
+    if (draft.isNew) {
+      const created = { ...exo, id: newExoId(name) };
+      onApply({ ...state, exercises: [...state.exercises, created] });
+      setDraft({ exo: created, muscles: created.muscles.join(", "), isNew: false });
+    } else {
+      onApply({ ...state, exercises: state.exercises.map((x) => (x.id === exo.id ? exo : x)) });
+      setDraft({ ...draft, exo });
+    }
+  };
+
+  const remove = () => {
+    const refs = exerciseRefs(state, e.id);
+    const used = [
+      refs.days.length ? `il sera retiré de : ${refs.days.join(", ")}` : "",
+      refs.logs ? `${refs.logs} séance(s) enregistrée(s) gardent leurs séries sans nom d’exercice` : "",
+      refs.drafts ? `${refs.drafts} séance(s) en cours le contiennent` : "",
+    ].filter(Boolean);
+    const msg = isReferenced(refs)
+      ? `Supprimer « ${e.name} » ?\n\n• ${used.join("\n• ")}\n\nPour garder l’historique, fusionne-le plutôt dans un autre exercice.`
+      : `Supprimer « ${e.name} » ?`;
+    if (!confirm(msg)) return;
+    if (saved?.photoId) dropPhoto(saved.photoId);
+    onApply(deleteExercise(state, e.id));
+    open(blankDraft());
+  };
+
+  const merge = () => {
+    const target = state.exercises.find((x) => x.id === mergeInto);
+    if (!target) return;
+    const refs = exerciseRefs(state, e.id);
+    if (!confirm(`Fusionner « ${e.name} » dans « ${target.name} » ?\n\n${refs.logs} séance(s) et ${refs.days.length} jour(s) du programme pointeront vers « ${target.name} », puis « ${e.name} » sera supprimé.`)) return;
+    // the target inherits the photo only when it has none
+    if (saved?.photoId && target.photoId) dropPhoto(saved.photoId);
+    const next = mergeExercises(state, e.id, target.id);
+    onApply(next);
+    open({ exo: next.exercises.find((x) => x.id === target.id) ?? target, muscles: target.muscles.join(", "), isNew: false });
+  };
+
+  const dups = draft.isNew ? [] : duplicates.get(e.id) ?? [];
+  const others = state.exercises.filter((x) => x.id !== e.id && !dups.includes(x)).sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <div className="grid cols2">
+      <div className="card">
+        <div className="row" style={{ justifyContent: "space-between" }}>
+          <div className="h1" style={{ margin: 0 }}>Bibliothèque</div>
+          <button className="btn primary" onClick={() => open(blankDraft())}>+ Exercice</button>
+        </div>
+        <input className="input" value={filter.query} onChange={(ev) => setF({ query: ev.target.value })} placeholder="Rechercher (nom, muscle)…" style={{ width: "100%", marginTop: 8 }} />
+        <div className="row" style={{ marginTop: 8 }}>
+          <select className="select" value={filter.muscle} onChange={(ev) => setF({ muscle: ev.target.value })}>
+            <option value="">Tous les muscles</option>
+            {muscles.map((m) => (
+              <option key={m} value={m}>{m}</option>
+            ))}
+          </select>
+          <select className="select" value={filter.equipment} onChange={(ev) => setF({ equipment: ev.target.value as Equipment | "" })}>
+            <option value="">Tout matériel</option>
+            {EQUIPMENTS.map((q) => (
+              <option key={q} value={q}>{EQUIPMENT_LABELS[q]}</option>
+            ))}
+          </select>
+          <select className="select" value={filter.pattern} onChange={(ev) => setF({ pattern: ev.target.value as MovementPattern | "" })}>
+            <option value="">Tous les mouvements</option>
+            {MOVEMENT_PATTERNS.map((p) => (
+              <option key={p} value={p}>{PATTERN_LABELS[p]}</option>
+            ))}
+          </select>
+          <button className="btn" onClick={() => setFilter(EMPTY_LIBRARY_FILTER)}>Effacer</button>
+        </div>
+        <div className="sep" />
+        <div className="muted">{shown.length} / {state.exercises.length} exercice(s)</div>
+        <div className="list" style={{ marginTop: 8 }}>
+          {shown.map((x) => (
+            <div key={x.id} className="row" style={{ justifyContent: "space-between", cursor: "pointer", opacity: !draft.isNew && e.id !== x.id ? 0.6 : 1 }} onClick={() => edit(x)}>
+              <div>
+                <div style={{ fontWeight: 800 }}>{x.name}</div>
+                <div className="muted" style={{ fontSize: 12 }}>{[x.muscles.join(" • "), x.pattern && PATTERN_LABELS[x.pattern]].filter(Boolean).join(" — ")}</div>
+              </div>
+              <div className="row">
+                {!!duplicates.get(x.id)?.length && <span className="pill">doublon ?</span>}
+                <span className="pill">{EQUIPMENT_LABELS[x.equipment ?? "other"]}</span>
+              </div>
+            </div>
+          ))}
+          {shown.length === 0 && <div className="muted">Aucun exercice.</div>}
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="h1">{draft.isNew ? "Ajouter un exercice" : "Modifier l’exercice"}</div>
+        <ExoImage exo={e} />
+        <div className="list">
+          <input className="input" value={e.name} onChange={(ev) => set({ name: ev.target.value })} placeholder="Nom exo" />
+          <input className="input" value={draft.muscles} onChange={(ev) => setDraft((d) => ({ ...d, muscles: ev.target.value }))} placeholder="Muscles (séparés par virgule, le principal d’abord)" />
+          <div className="row">
+            <label className="muted">Photo</label>
+            <input type="file" accept="image/*" onChange={(ev) => pickPhoto(ev.target.files?.[0])} />
+            {(e.photoId || e.imageUrl) && <button className="btn" onClick={() => { dropUnsavedPhoto(); set({ photoId: undefined, imageUrl: undefined }); }}>Retirer</button>}
+          </div>
+          {photoError && <div className="muted" style={{ color: "#ff8a9a" }}>Photo illisible : {photoError}</div>}
+          <div className="row">
+            <select className="select" value={modeOf(e)} onChange={(ev) => set({ mode: ev.target.value === "weight_reps" ? undefined : (ev.target.value as TrackingMode) })}>
+              {TRACKING_MODES.map((m) => (
+                <option key={m} value={m}>{TRACKING_LABELS[m]}</option>
+              ))}
+            </select>
+            <select className="select" value={e.equipment ?? "other"} onChange={(ev) => set({ equipment: ev.target.value === "other" ? undefined : (ev.target.value as Equipment) })}>
+              {EQUIPMENTS.map((q) => (
+                <option key={q} value={q}>{EQUIPMENT_LABELS[q]}</option>
+              ))}
+            </select>
+            <select className="select" value={e.pattern ?? ""} onChange={(ev) => set({ pattern: (ev.target.value || undefined) as MovementPattern | undefined })}>
+              <option value="">Mouvement —</option>
+              {MOVEMENT_PATTERNS.map((p) => (
+                <option key={p} value={p}>{PATTERN_LABELS[p]}</option>
+              ))}
+            </select>
+          </div>
+          {e.equipment === "barbell" && (
+            <input className="input" type="number" step="0.5" placeholder={`Barre ${unit} (sinon par défaut)`} value={e.barKg === undefined ? "" : showWeight(e.barKg, unit)} onChange={(ev) => set({ barKg: ev.target.value === "" ? undefined : fromUnit(Number(ev.target.value), unit) })} />
+          )}
+          {(e.equipment === "dumbbell" || e.equipment === "machine" || e.equipment === "cable") && (
+            <input className="input" type="number" step="0.5" placeholder={`Pas ${unit} (défaut ${showWeight(e.equipment === "dumbbell" ? state.plates.dumbbellStepKg : state.plates.machineStepKg, unit)})`} value={e.loadStep === undefined ? "" : showWeight(e.loadStep, unit)} onChange={(ev) => set({ loadStep: ev.target.value === "" ? undefined : fromUnit(Number(ev.target.value), unit) })} />
+          )}
+          <div className="row">
+            <button className="btn primary" onClick={save} disabled={!e.name.trim()}>{draft.isNew ? "Ajouter" : "Enregistrer"}</button>
+            {!draft.isNew && <button className="btn" onClick={() => open(blankDraft())}>Annuler</button>}
+            {!draft.isNew && <button className="btn danger" onClick={remove}>Supprimer</button>}
+          </div>
+        </div>
+        {notes && (
+          <>
+            <div className="sep" />
+            <div className="muted">Exécution</div>
+            <ExerciseNotes entry={notes} />
+          </>
+        )}
+        {!draft.isNew && (
+          <>
+            <div className="sep" />
+            <div className="muted">Fusionner avec un doublon : ses séances et le programme passent sur l’autre exercice.</div>
+            <div className="row" style={{ marginTop: 8 }}>
+              <select className="select" value={mergeInto} onChange={(ev) => setMergeInto(ev.target.value)} style={{ flex: 1 }}>
+                <option value="">Fusionner dans…</option>
+                {!!dups.length && (
+                  <optgroup label="Doublons probables">
+                    {dups.map((x) => (
+                      <option key={x.id} value={x.id}>{x.name}</option>
+                    ))}
+                  </optgroup>
+                )}
+                <optgroup label="Tous">
+                  {others.map((x) => (
+                    <option key={x.id} value={x.id}>{x.name}</option>
+                  ))}
+                </optgroup>
+              </select>
+              <button className="btn" onClick={merge} disabled={!mergeInto}>Fusionner</button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
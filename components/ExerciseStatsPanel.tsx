@@ -0,0 +1,113 @@
+"use client";
+import React, { useMemo, useState } from "react";
+import { E1RM_FORMULAS, E1rmFormula, Exo, Unit, WeightLog, WorkoutLog, dayOfISO } from "@/lib/state";
+import { RM_REPS, enduranceSessions, exerciseStats } from "@/lib/analytics";
+import { fmtWeight, showWeight } from "@/lib/units";
+import { fmtDistance, fmtDuration, isRepBased, loadFn, modeOf } from "@/lib/tracking";
+import { SimpleLineChart } from "@/components/charts";
+
+type Props = {
+  logs: WorkoutLog[];
+  exoById: Map<string, Exo>;
+  bodyweight: WeightLog[];
+  unit: Unit;
+  formula: E1rmFormula;
+  onFormula: (f: E1rmFormula) => void;
+};
+
+export default function ExerciseStatsPanel({ logs, exoById, bodyweight, unit, formula, onFormula }: Props) {
+  const kg = (x: number) => fmtWeight(x, unit);
+  // only exercises that actually have history, most used first
+  const done = useMemo(() => {
+    const counts = new Map<string, number>();
+    logs.forEach((l) => l.sets.forEach((s) => counts.set(s.exoId, (counts.get(s.exoId) || 0) + 1)));
+    return [...counts].sort((a, b) => b[1] - a[1]).map(([id]) => id);
+  }, [logs]);
+  const [picked, setPicked] = useState("");
+  const exoId = done.includes(picked) ? picked : done[0];
+  const mode = modeOf(exoById.get(exoId));
+  const stats = useMemo(
+    () => (exoId && isRepBased(mode) ? exerciseStats(logs, exoId, formula, loadFn(exoById.get(exoId), bodyweight)) : null),
+    [logs, exoId, exoById, mode, formula, bodyweight]
+  );
+  const endurance = useMemo(() => (exoId && !isRepBased(mode) ? enduranceSessions(logs, exoId) : null), [logs, exoId, mode]);
+
+  return (
+    <div className="card">
+      <div className="h1">Perf par exercice</div>
+      {!exoId && <div className="muted">Aucune série enregistrée.</div>}
+      {exoId && (
+        <div className="row">
+          <select className="select" value={exoId} onChange={(e) => setPicked(e.target.value)} style={{ flex: 1 }}>
+            {done.map((id) => (
+              <option key={id} value={id}>{exoById.get(id)?.name ?? id}</option>
+            ))}
+          </select>
+          {isRepBased(mode) && (
+            <select className="select" value={formula} onChange={(e) => onFormula(e.target.value as E1rmFormula)}>
+              {E1RM_FORMULAS.map((f) => (
+                <option key={f} value={f}>1RM {f === "epley" ? "Epley" : "Brzycki"}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+      {endurance && (
+        <>
+          <div className="sep" />
+          <div className="muted">{mode === "distance" ? "Distance max par séance (m)" : "Durée max par séance (s)"}</div>
+          <SimpleLineChart points={endurance.slice(-30).map((p) => ({ x: p.dateISO.slice(5, 10), y: mode === "distance" ? p.distanceM : p.durationSec }))} yLabel={mode === "distance" ? "m" : "s"} />
+          <div className="sep" />
+          <div className="list">
+            {endurance
+              .slice(-8)
+              .reverse()
+              .map((p) => (
+                <div key={p.dateISO} className="row" style={{ justifyContent: "space-between" }}>
+                  <span className="muted">{new Date(p.dateISO).toLocaleDateString("fr-FR")}</span>
+                  <span>{mode === "distance" ? `${fmtDistance(p.distanceM)} en ${fmtDuration(p.durationSec)}` : fmtDuration(p.durationSec)}</span>
+                </div>
+              ))}
+          </div>
+        </>
+      )}
+      {stats && (
+        <>
+          <div className="sep" />
+          <div className="muted">1RM estimé par séance{mode === "weight_reps" ? "" : " (poids du corps inclus)"}</div>
+          <SimpleLineChart points={stats.sessions.slice(-30).map((p) => ({ x: p.dateISO.slice(5, 10), y: showWeight(p.e1rm, unit) }))} yLabel={unit} />
+          <div className="sep" />
+          <div className="list">
+            {stats.bestSet && (
+              <div className="row" style={{ justifyContent: "space-between" }}>
+                <span className="muted">Meilleure série</span>
+                <span>
+                  {kg(stats.bestSet.weightKg)} × {stats.bestSet.reps} <span className="muted">(1RM ≈ {kg(stats.bestSet.e1rm)}, {dayOfISO(stats.bestSet.dateISO)})</span>
+                </span>
+              </div>
+            )}
+            {RM_REPS.map((n) => (
+              <div key={n} className="row" style={{ justifyContent: "space-between" }}>
+                <span className="muted">Record {n}RM</span>
+                <span>{stats.rm[n] ? `${kg(stats.rm[n]!.weightKg)} (${dayOfISO(stats.rm[n]!.dateISO)})` : "—"}</span>
+              </div>
+            ))}
+          </div>
+          <div className="sep" />
+          <div className="muted">Tonnage par séance</div>
+          <div className="list" style={{ marginTop: 6 }}>
+            {stats.sessions
+              .slice(-8)
+              .reverse()
+              .map((p) => (
+                <div key={p.dateISO} className="row" style={{ justifyContent: "space-between" }}>
+                  <span className="muted">{new Date(p.dateISO).toLocaleDateString("fr-FR")}</span>
+                  <span>{Math.round(showWeight(p.tonnage, unit))} {unit}</span>
+                </div>
+              ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { Exo } from "@/lib/state";
+import { getPhoto } from "@/lib/photos";
+
+// Object URL for a stored photo, revoked when the photo changes or the image unmounts.
+function usePhotoUrl(photoId: string | undefined) {
+  const [loaded, setLoaded] = useState<{ id: string; url: string } | null>(null);
+  useEffect(() => {
+    if (!photoId) return;
+    let live = true;
+    let url: string | undefined;
+    getPhoto(photoId)
+      .then((blob) => {
+        if (!live || !blob) return;
+        url = URL.createObjectURL(blob);
+        setLoaded({ id: photoId, url });
+      })
+      .catch(() => {});
+    return () => {
+      live = false;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [photoId]);
+  return loaded && loaded.id === photoId ? loaded.url : undefined;
+}
+
+// Local photo first; a legacy remote imageUrl is only used when there is no photo.
+export default function ExoImage({ exo }: { exo: Exo }) {
+  const photo = usePhotoUrl(exo.photoId);
+  const src = exo.photoId ? photo : exo.imageUrl;
+  // blob: object URLs and arbitrary remote URLs can't go through next/image's optimizer
+  // eslint-disable-next-line @next/next/no-img-element
+  return src ? <img className="exo" src={src} alt={exo.name} /> : null;
+}
@@ -0,0 +1,142 @@
+"use client";
+import React, { useMemo, useState } from "react";
+import { DayTemplate, Exo, SetEntry, Unit, WorkoutLog, dayLabel, uid } from "@/lib/state";
+import { showWeight } from "@/lib/units";
+import { EMPTY_FILTER, HistoryFilter, filterLogs, removeLog, replaceLog, toLocalInput } from "@/lib/history";
+import { tonnage } from "@/lib/analytics";
+import { isWorkSet, removeSetAt } from "@/lib/sets";
+import { modeOf } from "@/lib/tracking";
+import SetInputs from "@/components/SetInputs";
+
+type Props = {
+  logs: WorkoutLog[];
+  days: DayTemplate[];
+  exercises: Exo[];
+  exoById: Map<string, Exo>;
+  unit: Unit;
+  onChange: (logs: WorkoutLog[]) => void;
+  onDuplicate: (log: WorkoutLog) => void;
+};
+
+export default function HistoryPanel({ logs, days, exercises, exoById, unit, onChange, onDuplicate }: Props) {
+  const [filter, setFilter] = useState<HistoryFilter>(EMPTY_FILTER);
+  // edits happen on a copy so a half-typed value never reaches the stats or the suggestions
+  const [editing, setEditing] = useState<WorkoutLog | null>(null);
+  const shown = useMemo(() => filterLogs(logs, filter, days, exoById), [logs, filter, days, exoById]);
+  const setF = (patch: Partial<HistoryFilter>) => setFilter((f) => ({ ...f, ...patch }));
+
+  // days that only exist in old logs still need to be filterable
+  const dayOptions = useMemo(() => {
+    const m = new Map(days.map((d) => [d.id, d.name]));
+    logs.forEach((l) => m.has(l.dayId) || m.set(l.dayId, l.dayName || l.dayId));
+    return [...m];
+  }, [days, logs]);
+
+  const updateSet = (idx: number, patch: Partial<SetEntry>) =>
+    setEditing((l) => l && { ...l, sets: l.sets.map((s, i) => (i === idx ? { ...s, ...patch } : s)) });
+
+  // a new straight set like the last one, not a second copy of it (same id, or a drop hanging off its parent)
+  const copyLast = (sets: SetEntry[]): SetEntry => {
+    const last = sets[sets.length - 1] ?? { exoId: exercises[0]?.id ?? "", weightKg: 0, reps: 10 };
+    return { ...last, id: uid(), kind: undefined, parentId: undefined, at: undefined };
+  };
+
+  const save = () => {
+    if (!editing) return;
+    onChange(replaceLog(logs, editing));
+    setEditing(null);
+  };
+
+  const remove = (id: string) => {
+    if (!confirm("Supprimer définitivement cette séance ?")) return;
+    onChange(removeLog(logs, id));
+    setEditing(null);
+  };
+
+  return (
+    <div className="grid cols2">
+      <div className="card">
+        <div className="h1">Historique</div>
+        <input className="input" value={filter.query} onChange={(e) => setF({ query: e.target.value })} placeholder="Rechercher (exercice, notes, jour)…" style={{ width: "100%" }} />
+        <div className="row" style={{ marginTop: 8 }}>
+          <select className="select" value={filter.dayId} onChange={(e) => setF({ dayId: e.target.value })}>
+            <option value="">Tous les jours</option>
+            {dayOptions.map(([id, name]) => (
+              <option key={id} value={id}>{name}</option>
+            ))}
+          </select>
+          <select className="select" value={filter.exoId} onChange={(e) => setF({ exoId: e.target.value })}>
+            <option value="">Tous les exercices</option>
+            {exercises.map((e) => (
+              <option key={e.id} value={e.id}>{e.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="row" style={{ marginTop: 8 }}>
+          <label className="muted">Du</label>
+          <input className="input" type="date" value={filter.from} onChange={(e) => setF({ from: e.target.value })} />
+          <label className="muted">au</label>
+          <input className="input" type="date" value={filter.to} onChange={(e) => setF({ to: e.target.value })} />
+          <button className="btn" onClick={() => setFilter(EMPTY_FILTER)}>Effacer</button>
+        </div>
+        <div className="sep" />
+        <div className="muted">{shown.length} / {logs.length} séance(s)</div>
+        <div className="list" style={{ marginTop: 8 }}>
+          {shown.map((l) => (
+            <div key={l.id} className="row" style={{ justifyContent: "space-between", cursor: "pointer", opacity: editing && editing.id !== l.id ? 0.6 : 1 }} onClick={() => setEditing(l)}>
+              <span className="pill">{dayLabel(l, days)}</span>
+              <span className="muted">{new Date(l.dateISO).toLocaleString("fr-FR", { dateStyle: "short", timeStyle: "short" })}</span>
+              <span>{l.sets.length} séries • {Math.round(showWeight(tonnage(l.sets.filter(isWorkSet)), unit))} {unit}</span>
+            </div>
+          ))}
+          {shown.length === 0 && <div className="muted">Aucune séance ne correspond.</div>}
+        </div>
+      </div>
+
+      {editing && (
+        <div className="card">
+          <div className="row" style={{ justifyContent: "space-between" }}>
+            <div className="h1" style={{ margin: 0 }}>{dayLabel(editing, days)}</div>
+            <button className="btn" onClick={() => setEditing(null)}>Fermer</button>
+          </div>
+          <div className="row" style={{ marginTop: 8 }}>
+            <label className="muted">Date</label>
+            <input className="input" type="datetime-local" value={toLocalInput(editing.dateISO)} onChange={(e) => e.target.value && setEditing({ ...editing, dateISO: new Date(e.target.value).toISOString() })} />
+            <select className="select" value={editing.dayId} onChange={(e) => setEditing({ ...editing, dayId: e.target.value, dayName: dayOptions.find(([id]) => id === e.target.value)?.[1] ?? editing.dayName })}>
+              {dayOptions.map(([id, name]) => (
+                <option key={id} value={id}>{name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="sep" />
+          <div className="list">
+            {editing.sets.map((s, idx) => (
+              <div key={idx} className="row" style={{ flexWrap: "nowrap" }}>
+                <div className="set" style={{ flex: 1 }}>
+                  <select className="select name" value={s.exoId} onChange={(e) => updateSet(idx, { exoId: e.target.value })}>
+                    {!exoById.has(s.exoId) && <option value={s.exoId}>{s.exoId}</option>}
+                    {exercises.map((e) => (
+                      <option key={e.id} value={e.id}>{e.name}</option>
+                    ))}
+                  </select>
+                  <SetInputs set={s} mode={modeOf(exoById.get(s.exoId))} unit={unit} onChange={(patch) => updateSet(idx, patch)} />
+                </div>
+                <button className="btn danger" onClick={() => setEditing({ ...editing, sets: removeSetAt(editing.sets, idx) })}>✕</button>
+              </div>
+            ))}
+            <button className="btn" onClick={() => setEditing({ ...editing, sets: [...editing.sets, copyLast(editing.sets)] })}>+ Série</button>
+          </div>
+          <div className="sep" />
+          <div className="muted">Notes</div>
+          <textarea className="textarea" value={editing.notes || ""} onChange={(e) => setEditing({ ...editing, notes: e.target.value })} />
+          <div className="sep" />
+          <div className="row">
+            <button className="btn primary" onClick={save}>Enregistrer</button>
+            <button className="btn" onClick={() => onDuplicate(editing)}>Refaire aujourd’hui</button>
+            <button className="btn danger" onClick={() => remove(editing.id)}>Supprimer</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+import React, { useState } from "react";
+import { AppState, Exo } from "@/lib/state";
+import { ExerciseChoice, ImportPlan, NEW_DAY, applyImport, parseWorkoutCsv } from "@/lib/importers";
+
+const encodeChoice = (c: ExerciseChoice) => (c.kind === "existing" ? `exo:${c.exoId}` : c.kind);
+const decodeChoice = (v: string): ExerciseChoice => (v.startsWith("exo:") ? { kind: "existing", exoId: v.slice(4) } : { kind: v as "new" | "skip" });
+
+export default function ImportPanel({ state, exoById, onApply }: { state: AppState; exoById: Map<string, Exo>; onApply: (next: AppState) => void }) {
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [text, setText] = useState("");
+  const [strongInLb, setStrongInLb] = useState(false);
+  const [msg, setMsg] = useState("");
+
+  const parse = (csv: string, inLb: boolean) => {
+    setMsg("");
+    try {
+      setPlan(parseWorkoutCsv(csv, state, { strongInLb: inLb }));
+    } catch (e) {
+      setPlan(null);
+      setMsg(`Import impossible : ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  const onFile = async (file: File | undefined) => {
+    if (!file) return;
+    const csv = await file.text();
+    setText(csv);
+    parse(csv, strongInLb);
+  };
+
+  const setChoice = (name: string, choice: ExerciseChoice) =>
+    setPlan((p) => p && { ...p, exercises: p.exercises.map((m) => (m.name === name ? { ...m, choice } : m)) });
+  const setDay = (name: string, dayId: string) => setPlan((p) => p && { ...p, days: { ...p.days, [name]: dayId } });
+
+  const commit = () => {
+    if (!plan) return;
+    const r = applyImport(state, plan);
+    onApply(r.state);
+    setPlan(null);
+    setText("");
+    setMsg(`${r.logs} séance(s) et ${r.sets} série(s) importées.`);
+  };
+
+  const setCount = plan?.sessions.reduce((n, s) => n + s.sets.length, 0) ?? 0;
+
+  return (
+    <div className="card">
+      <div className="h1">Importer depuis Strong / Hevy</div>
+      <div className="muted">Fichier CSV exporté depuis l’app (Réglages → Exporter les données).</div>
+      <div className="sep" />
+      <div className="row">
+        <label className="btn">
+          Choisir un CSV…
+          <input type="file" accept=".csv,text/csv" style={{ display: "none" }} onChange={(e) => { onFile(e.target.files?.[0]); e.target.value = ""; }} />
+        </label>
+        <label className="row muted">
+          <input type="checkbox" checked={strongInLb} onChange={(e) => { setStrongInLb(e.target.checked); if (text) parse(text, e.target.checked); }} />
+          Poids Strong en lb
+        </label>
+      </div>
+      {msg && <div className="muted" style={{ marginTop: 8 }}>{msg}</div>}
+
+      {plan && (
+        <>
+          <div className="sep" />
+          <div style={{ fontWeight: 800 }}>
+            {plan.source === "strong" ? "Strong" : "Hevy"} : {plan.sessions.length} séance(s), {setCount} série(s)
+          </div>
+
+          <div className="sep" />
+          <div className="muted">Exercices</div>
+          <div className="list" style={{ marginTop: 6 }}>
+            {plan.exercises.map((m) => (
+              <div key={m.name} className="row" style={{ justifyContent: "space-between" }}>
+                <span>
+                  {m.name} <span className="muted">({m.sets})</span> {m.ambiguous && <span className="pill">à vérifier</span>}
+                </span>
+                <select className="select" value={encodeChoice(m.choice)} onChange={(e) => setChoice(m.name, decodeChoice(e.target.value))}>
+                  {m.candidates.map((c) => (
+                    <option key={c.exoId} value={`exo:${c.exoId}`}>
+                      {exoById.get(c.exoId)?.name} ({Math.round(c.score * 100)}%)
+                    </option>
+                  ))}
+                  <option value="new">+ Créer « {m.name} »</option>
+                  <option value="skip">Ignorer</option>
+                  <optgroup label="Bibliothèque">
+                    {state.exercises.map((e) => (
+                      <option key={e.id} value={`exo:${e.id}`}>{e.name}</option>
+                    ))}
+                  </optgroup>
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className="sep" />
+          <div className="muted">Jour du programme</div>
+          <div className="list" style={{ marginTop: 6 }}>
+            {Object.entries(plan.days).map(([name, dayId]) => (
+              <div key={name} className="row" style={{ justifyContent: "space-between" }}>
+                <span>{name}</span>
+                <select className="select" value={dayId} onChange={(e) => setDay(name, e.target.value)}>
+                  {state.workoutTemplates.map((d) => (
+                    <option key={d.id} value={d.id}>{d.name}</option>
+                  ))}
+                  <option value={NEW_DAY}>+ Nouveau jour « {name} »</option>
+                </select>
+              </div>
+            ))}
+          </div>
+
+          {plan.skipped.length > 0 && (
+            <>
+              <div className="sep" />
+              <details>
+                <summary className="muted">{plan.skipped.length} ligne(s) ignorée(s)</summary>
+                <ul style={{ marginTop: 6 }}>
+                  {plan.skipped.slice(0, 50).map((s) => (
+                    <li key={s.line} className="muted">Ligne {s.line} : {s.reason}</li>
+                  ))}
+                </ul>
+              </details>
+            </>
+          )}
+
+          <div className="sep" />
+          <div className="row">
+            <button className="btn primary" onClick={commit} disabled={setCount === 0}>Importer</button>
+            <button className="btn" onClick={() => setPlan(null)}>Annuler</button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+import React, { useMemo, useState } from "react";
+import { Exo, Unit, VolumeSettings, WeightLog, WorkoutLog } from "@/lib/state";
+import { showWeight } from "@/lib/units";
+import { VolumeStatus, shiftWeek, volumeStatus, weekStart, weeklyVolume } from "@/lib/volume";
+
+type Props = {
+  logs: WorkoutLog[];
+  exoById: Map<string, Exo>;
+  bodyweight: WeightLog[];
+  unit: Unit;
+  settings: VolumeSettings;
+  onSettings: (v: VolumeSettings) => void;
+};
+
+const STATUS_COLOR: Record<VolumeStatus, string> = { under: "#e0a341", ok: "#7ee2a8", over: "#ff8a9a", untracked: "#a8b2cc" };
+const STATUS_LABEL: Record<VolumeStatus, string> = { under: "sous-entraîné", ok: "dans la cible", over: "trop de volume", untracked: "pas de cible" };
+
+export default function MuscleVolumePanel({ logs, exoById, bodyweight, unit, settings, onSettings }: Props) {
+  const [monday, setMonday] = useState(() => weekStart(new Date()));
+  const [editing, setEditing] = useState(false);
+  const rows = useMemo(() => weeklyVolume(logs, exoById, monday, settings, bodyweight), [logs, exoById, monday, settings, bodyweight]);
+  const isCurrent = monday === weekStart(new Date());
+
+  const setTarget = (muscle: string, patch: Partial<{ min: number; max: number }>) => {
+    const cur = settings.targets[muscle] ?? { min: 0, max: 0 };
+    onSettings({ ...settings, targets: { ...settings.targets, [muscle]: { ...cur, ...patch } } });
+  };
+  const removeTarget = (muscle: string) => {
+    const targets = { ...settings.targets };
+    delete targets[muscle];
+    onSettings({ ...settings, targets });
+  };
+
+  return (
+    <div className="card">
+      <div className="row" style={{ justifyContent: "space-between" }}>
+        <div className="h1" style={{ margin: 0 }}>Volume par muscle</div>
+        <button className={`btn ${editing ? "primary" : ""}`} onClick={() => setEditing((x) => !x)}>Cibles</button>
+      </div>
+      <div className="row" style={{ marginTop: 8 }}>
+        <button className="btn" onClick={() => setMonday((m) => shiftWeek(m, -1))}>←</button>
+        <span className="pill">Semaine du {new Date(monday + "T00:00").toLocaleDateString("fr-FR")}</span>
+        <button className="btn" disabled={isCurrent} onClick={() => setMonday((m) => shiftWeek(m, 1))}>→</button>
+      </div>
+      <div className="sep" />
+
+      <div className="list">
+        {rows.length === 0 && <div className="muted">Aucune série cette semaine.</div>}
+        {rows.map((v) => {
+          const st = volumeStatus(v, settings);
+          const t = settings.targets[v.muscle];
+          const scale = Math.max(t?.max ?? 0, v.sets, 1);
+          return (
+            <div key={v.muscle}>
+              <div className="row" style={{ justifyContent: "space-between" }}>
+                <span style={{ fontWeight: 700 }}>{v.muscle}</span>
+                <span>
+                  <b style={{ color: STATUS_COLOR[st] }}>{Math.round(v.sets * 10) / 10}</b>
+                  <span className="muted"> {t ? `/ ${t.min}–${t.max}` : ""} séries • {Math.round(showWeight(v.tonnage, unit))} {unit}</span>
+                </span>
+              </div>
+              <div style={{ position: "relative", height: 8, background: "#0e1526", borderRadius: 999, marginTop: 4 }}>
+                {t && (
+                  <div style={{ position: "absolute", left: `${(t.min / scale) * 100}%`, width: `${((t.max - t.min) / scale) * 100}%`, top: 0, bottom: 0, background: "#22304f", borderRadius: 999 }} />
+                )}
+                <div style={{ position: "absolute", left: 0, width: `${(v.sets / scale) * 100}%`, top: 2, bottom: 2, background: STATUS_COLOR[st], borderRadius: 999 }} />
+              </div>
+              {st !== "ok" && st !== "untracked" && <div className="muted" style={{ fontSize: 12 }}>{STATUS_LABEL[st]}</div>}
+              {editing && (
+                <div className="row" style={{ marginTop: 6 }}>
+                  <label className="muted">min</label>
+                  <input className="input" type="number" value={t?.min ?? ""} onChange={(e) => setTarget(v.muscle, { min: Math.max(0, Number(e.target.value || 0)) })} style={{ width: 70 }} />
+                  <label className="muted">max</label>
+                  <input className="input" type="number" value={t?.max ?? ""} onChange={(e) => setTarget(v.muscle, { max: Math.max(0, Number(e.target.value || 0)) })} style={{ width: 70 }} />
+                  {t && <button className="btn danger" onClick={() => removeTarget(v.muscle)}>✕</button>}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {editing && (
+        <>
+          <div className="sep" />
+          <div className="row">
+            <label className="muted" style={{ flex: 1 }}>Crédit muscles secondaires</label>
+            <select className="select" value={settings.secondaryCredit} onChange={(e) => onSettings({ ...settings, secondaryCredit: Number(e.target.value) })}>
+              <option value={0}>0 (principal seulement)</option>
+              <option value={0.5}>0,5 série</option>
+              <option value={1}>1 série</option>
+            </select>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+import React from "react";
+import { PlateSettings, Unit } from "@/lib/state";
+import { fromUnit, showWeight } from "@/lib/units";
+
+// `unit` is the display preference for the dumbbell / machine steps; the bar and
+// plates have their own unit since a gym's plates don't change with the app setting.
+export default function PlateSettingsCard({ value, unit, onChange }: { value: PlateSettings; unit: Unit; onChange: (v: PlateSettings) => void }) {
+  const set = (patch: Partial<PlateSettings>) => onChange({ ...value, ...patch });
+  const num = (v: string) => Math.max(0, Number(v || 0));
+  const setPlate = (i: number, patch: Partial<PlateSettings["plates"][number]>) =>
+    set({ plates: value.plates.map((p, j) => (j === i ? { ...p, ...patch } : p)) });
+  const setStep = (i: number, patch: Partial<PlateSettings["warmup"][number]>) => set({ warmup: value.warmup.map((w, j) => (j === i ? { ...w, ...patch } : w)) });
+  return (
+    <div className="card">
+      <div className="h1">Barre, disques et échauffement</div>
+      <div className="muted">Sert au calcul des disques par côté, à l’arrondi des haltères / machines et à la rampe d’échauffement.</div>
+      <div className="sep" />
+      <div className="list">
+        <div className="row">
+          <label className="muted" style={{ flex: 1 }}>Unité des disques</label>
+          <select className="select" value={value.unit} onChange={(e) => set({ unit: e.target.value as PlateSettings["unit"] })}>
+            <option value="kg">kg</option>
+            <option value="lb">lb</option>
+          </select>
+        </div>
+        <div className="row">
+          <label className="muted" style={{ flex: 1 }}>Barre ({value.unit})</label>
+          <input className="input" type="number" step="0.5" value={value.bar} onChange={(e) => set({ bar: num(e.target.value) })} style={{ width: 90 }} />
+        </div>
+        <div className="muted">Disques disponibles (taille × paires)</div>
+        {value.plates.map((p, i) => (
+          <div key={i} className="row">
+            <input className="input" type="number" step="0.25" value={p.size} onChange={(e) => setPlate(i, { size: num(e.target.value) })} style={{ width: 90 }} />
+            <span className="muted">×</span>
+            <input className="input" type="number" value={p.pairs} onChange={(e) => setPlate(i, { pairs: Math.round(num(e.target.value)) })} style={{ width: 70 }} />
+            <button className="btn danger" onClick={() => set({ plates: value.plates.filter((_, j) => j !== i) })}>✕</button>
+          </div>
+        ))}
+        <button className="btn" onClick={() => set({ plates: [...value.plates, { size: 0.5, pairs: 1 }] })}>+ Disque</button>
+        <div className="row">
+          <label className="muted" style={{ flex: 1 }}>Pas des haltères ({unit})</label>
+          <input className="input" type="number" step="0.5" value={showWeight(value.dumbbellStepKg, unit)} onChange={(e) => set({ dumbbellStepKg: fromUnit(num(e.target.value), unit) })} style={{ width: 90 }} />
+        </div>
+        <div className="row">
+          <label className="muted" style={{ flex: 1 }}>Pas des machines ({unit})</label>
+          <input className="input" type="number" step="0.5" value={showWeight(value.machineStepKg, unit)} onChange={(e) => set({ machineStepKg: fromUnit(num(e.target.value), unit) })} style={{ width: 90 }} />
+        </div>
+        <div className="sep" />
+        <div className="muted">Rampe d’échauffement (% de la charge de travail × reps, 0 % = barre à vide)</div>
+        {value.warmup.map((w, i) => (
+          <div key={i} className="row">
+            <input className="input" type="number" value={w.pct} onChange={(e) => setStep(i, { pct: Math.min(100, num(e.target.value)) })} style={{ width: 70 }} />
+            <span className="muted">% ×</span>
+            <input className="input" type="number" value={w.reps} onChange={(e) => setStep(i, { reps: Math.round(num(e.target.value)) })} style={{ width: 70 }} />
+            <button className="btn danger" onClick={() => set({ warmup: value.warmup.filter((_, j) => j !== i) })}>✕</button>
+          </div>
+        ))}
+        <button className="btn" onClick={() => set({ warmup: [...value.warmup, { pct: 90, reps: 1 }] })}>+ Palier</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+"use client";
+import React from "react";
+import { ProgressionSettings, Unit } from "@/lib/state";
+
+export default function ProgressionSettingsCard({ value, unit, onChange }: { value: ProgressionSettings; unit: Unit; onChange: (v: ProgressionSettings) => void }) {
+  const set = (patch: Partial<ProgressionSettings>) => onChange({ ...value, ...patch });
+  const num = (v: string) => Math.max(0, Number(v || 0));
+  return (
+    <div className="card">
+      <div className="h1">Progression</div>
+      <div className="muted">
+        Double progression : quand toutes les séries atteignent le haut de la fourchette, la charge monte. Décharge après plusieurs échecs.
+      </div>
+      <div className="sep" />
+      <div className="list">
+        <div className="row">
+          <label className="muted" style={{ flex: 1 }}>Palier de charge ({unit})</label>
+          <input className="input" type="number" step="0.5" value={value.increment[unit]} onChange={(e) => set({ increment: { ...value.increment, [unit]: num(e.target.value) || 0.5 } })} style={{ width: 90 }} />
+        </div>
+        <div className="row">
+          <label className="muted" style={{ flex: 1 }}>Ajuster selon le RPE</label>
+          <button className={`btn ${value.useRpe ? "primary" : ""}`} onClick={() => set({ useRpe: !value.useRpe })}>{value.useRpe ? "Activé" : "Désactivé"}</button>
+        </div>
+        <div className="row">
+          <label className="muted" style={{ flex: 1 }}>RPE cible</label>
+          <input className="input" type="number" step="0.5" value={value.targetRpe} disabled={!value.useRpe} onChange={(e) => set({ targetRpe: Math.min(10, num(e.target.value)) })} style={{ width: 90 }} />
+        </div>
+        <div className="row">
+          <label className="muted" style={{ flex: 1 }}>Décharge après N échecs (0 = jamais)</label>
+          <input className="input" type="number" value={value.failuresBeforeDeload} onChange={(e) => set({ failuresBeforeDeload: Math.round(num(e.target.value)) })} style={{ width: 90 }} />
+        </div>
+        <div className="row">
+          <label className="muted" style={{ flex: 1 }}>Décharge (%)</label>
+          <input className="input" type="number" value={value.deloadPct} onChange={(e) => set({ deloadPct: Math.min(50, num(e.target.value)) })} style={{ width: 90 }} />
+        </div>
+      </div>
+    </div>
+  );
+}
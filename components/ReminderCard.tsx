@@ -0,0 +1,134 @@
+"use client";
+import React, { useMemo } from "react";
+import { REMINDER_KINDS, Reminder, ReminderEvent, ReminderKind, ReminderPayload, ReminderSchedule, Supplement } from "@/lib/state";
+import { weekStart } from "@/lib/volume";
+import { REMINDER_KIND_LABELS, WEEKDAY_LABELS, WEEK_ORDER, adherencePct, describeSchedule, fmtNext, nextRing, weeklyAdherence, withSchedule } from "@/lib/reminders";
+import { toLocalInput } from "@/lib/history";
+import { describeDose } from "@/lib/supplements";
+
+type Props = { reminder: Reminder; now: number; events: ReminderEvent[]; checklistKeys: string[]; supplements: Supplement[]; onChange: (r: Reminder) => void; onRemove: () => void };
+
+// Switching the kind of schedule keeps what still applies (time, weekdays).
+function convert(s: ReminderSchedule, kind: ReminderSchedule["kind"], now: number): ReminderSchedule {
+  const weekdays = s.kind === "once" ? [] : s.weekdays;
+  if (kind === "daily") return { kind, timeHHMM: s.kind === "daily" ? s.timeHHMM : s.kind === "interval" ? s.fromHHMM : s.atLocal.slice(11, 16), weekdays };
+  if (kind === "interval") return { kind, everyMin: 60, fromHHMM: "09:00", toHHMM: "21:00", weekdays };
+  return { kind, atLocal: toLocalInput(new Date(now + 3600_000).toISOString()) };
+}
+
+function toggleDay(weekdays: number[], d: number) {
+  const all = weekdays.length ? weekdays : WEEK_ORDER;
+  const next = all.includes(d) ? all.filter((x) => x !== d) : [...all, d];
+  // none or all ticked both mean every day
+  return next.length === 0 || next.length === 7 ? [] : next.sort((a, b) => a - b);
+}
+
+export default function ReminderCard({ reminder: r, now, events, checklistKeys, supplements, onChange, onRemove }: Props) {
+  const s = r.schedule;
+  const p = r.payload;
+  const setSchedule = (next: ReminderSchedule) => onChange(withSchedule(r, next));
+  const setPayload = (patch: Partial<ReminderPayload>) => onChange({ ...r, payload: { ...p, ...patch } });
+  const next = r.enabled ? nextRing(r, now) : null;
+  const week = weekStart(new Date(now));
+  const adherence = useMemo(() => weeklyAdherence(events, r.id, week), [events, r.id, week]);
+  return (
+    <div className="card" style={{ padding: 12 }}>
+      <div className="row" style={{ justifyContent: "space-between" }}>
+        <div style={{ fontWeight: 900 }}>{r.title}</div>
+        <button className="btn danger" onClick={onRemove}>Suppr</button>
+      </div>
+      <div className="muted" style={{ fontSize: 12 }}>{describeSchedule(s)}</div>
+
+      <div className="sep" />
+      <div className="row">
+        <select className="select" value={s.kind} onChange={(e) => setSchedule(convert(s, e.target.value as ReminderSchedule["kind"], now))}>
+          <option value="daily">À heure fixe</option>
+          <option value="interval">Toutes les N min</option>
+          <option value="once">Une seule fois</option>
+        </select>
+        {s.kind === "daily" && <input className="input" type="time" value={s.timeHHMM} onChange={(e) => e.target.value && setSchedule({ ...s, timeHHMM: e.target.value })} />}
+        {s.kind === "interval" && (
+          <>
+            <input className="input" type="number" min={5} step={5} value={s.everyMin} onChange={(e) => setSchedule({ ...s, everyMin: Math.max(5, Number(e.target.value || 0)) })} style={{ width: 80 }} />
+            <span className="muted">min, de</span>
+            <input className="input" type="time" value={s.fromHHMM} onChange={(e) => e.target.value && setSchedule({ ...s, fromHHMM: e.target.value })} />
+            <span className="muted">à</span>
+            <input className="input" type="time" value={s.toHHMM} onChange={(e) => e.target.value && setSchedule({ ...s, toHHMM: e.target.value })} />
+          </>
+        )}
+        {s.kind === "once" && <input className="input" type="datetime-local" value={s.atLocal} onChange={(e) => e.target.value && setSchedule({ ...s, atLocal: e.target.value })} />}
+      </div>
+      {s.kind !== "once" && (
+        <div className="row" style={{ marginTop: 8 }}>
+          {WEEK_ORDER.map((d) => (
+            <button key={d} className={`btn ${s.weekdays.length === 0 || s.weekdays.includes(d) ? "primary" : ""}`} onClick={() => setSchedule({ ...s, weekdays: toggleDay(s.weekdays, d) })}>
+              {WEEKDAY_LABELS[d]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="sep" />
+      <div className="row">
+        <select className="select" value={r.kind} onChange={(e) => onChange({ ...r, kind: e.target.value as ReminderKind })}>
+          {REMINDER_KINDS.map((k) => (
+            <option key={k} value={k}>{REMINDER_KIND_LABELS[k]}</option>
+          ))}
+        </select>
+        {r.enabled && <span className="pill">{fmtNext(next, now)}</span>}
+        <button className={`btn ${r.enabled ? "primary" : ""}`} onClick={() => onChange(r.enabled ? { ...r, enabled: false } : withSchedule({ ...r, enabled: true }, s))}>
+          {r.enabled ? "Activé" : "Désactivé"}
+        </button>
+      </div>
+      {r.snoozedUntil !== undefined && (
+        <div className="row" style={{ marginTop: 8 }}>
+          <span className="muted">⏰ Reporté à {new Date(r.snoozedUntil).toTimeString().slice(0, 5)}</span>
+          <button className="btn" onClick={() => onChange({ ...r, snoozedUntil: undefined })}>Annuler le report</button>
+        </div>
+      )}
+
+      <div className="row" style={{ marginTop: 8 }}>
+        <span className="muted">« Fait » :</span>
+        {r.kind === "water" && (
+          <>
+            <input className="input" type="number" min={0} step={50} value={p.waterMl} onChange={(e) => setPayload({ waterMl: Math.max(0, Number(e.target.value || 0)) })} style={{ width: 90 }} />
+            <span className="muted">ml bus</span>
+          </>
+        )}
+        {r.kind === "meal" && (
+          <select className="select" value={p.checklistKey} onChange={(e) => setPayload({ checklistKey: e.target.value })}>
+            <option value="">Rien à cocher</option>
+            {checklistKeys.map((k) => (
+              <option key={k} value={k}>Cocher « {k} »</option>
+            ))}
+          </select>
+        )}
+        {r.kind === "supp" && (
+          <select className="select" value={p.supplementId} onChange={(e) => setPayload({ supplementId: e.target.value })}>
+            <option value="">Rien à noter</option>
+            {supplements.map((x) => (
+              <option key={x.id} value={x.id}>Prendre {describeDose(x)}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="sep" />
+      <div className="row">
+        <span className="muted" style={{ fontSize: 12 }}>Suivi par semaine :</span>
+        {adherence.map((w, i) => {
+          const pct = adherencePct(w);
+          const label = i === adherence.length - 1 ? "cette sem." : `S-${adherence.length - 1 - i}`;
+          return (
+            <span key={w.weekStart} className="pill" title={`${w.ack} fait(s), ${w.miss} manqué(s), ${w.snooze} report(s)`}>
+              {label} {pct === null ? "–" : `${pct}%`}
+            </span>
+          );
+        })}
+      </div>
+
+      <div className="sep" />
+      <input className="input" value={r.title} onChange={(e) => onChange({ ...r, title: e.target.value })} placeholder="Titre du rappel" style={{ width: "100%" }} />
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+import React from "react";
+import { RestTimer } from "@/lib/state";
+import { adjustTimer, isRunning, pauseTimer, remainingSec, resumeTimer, startTimer } from "@/lib/rest";
+
+type Props = {
+  timer: RestTimer | null;
+  now: number;
+  label?: string;
+  onChange: (t: RestTimer | null) => void;
+};
+
+const PRESETS = [60, 90, 120, 150, 180];
+
+const fmt = (sec: number) => `${Math.floor(sec / 60)}:${String(sec % 60).padStart(2, "0")}`;
+
+export default function RestTimerControls({ timer, now, label, onChange }: Props) {
+  const left = remainingSec(timer, now);
+  const running = isRunning(timer);
+  // `now` only drives the display; the buttons act on the real clock
+  const start = (sec: number) => onChange(startTimer(sec, timer?.exoId));
+  return (
+    <>
+      <div className="row" style={{ justifyContent: "space-between" }}>
+        <div className="big">{fmt(left)}</div>
+        {label && <span className="pill">{label}</span>}
+      </div>
+      {timer && (
+        <div style={{ height: 6, background: "#0e1526", borderRadius: 999, margin: "6px 0" }}>
+          <div style={{ width: `${timer.durationSec ? (left / timer.durationSec) * 100 : 0}%`, height: "100%", background: running ? "#2f5bff" : "#a8b2cc", borderRadius: 999 }} />
+        </div>
+      )}
+      <div className="row">
+        {PRESETS.map((sec) => (
+          <button key={sec} className="btn" onClick={() => start(sec)}>{fmt(sec)}</button>
+        ))}
+      </div>
+      <div className="row" style={{ marginTop: 8 }}>
+        <button className="btn" disabled={!timer} onClick={() => timer && onChange(adjustTimer(timer, -15))}>−15s</button>
+        <button className="btn" disabled={!timer} onClick={() => timer && onChange(adjustTimer(timer, 15))}>+15s</button>
+        <button className="btn" disabled={!timer || left === 0} onClick={() => timer && onChange(running ? pauseTimer(timer) : resumeTimer(timer))}>{running ? "Pause" : "Reprendre"}</button>
+        <button className="btn" disabled={!timer} onClick={() => onChange(null)}>Stop</button>
+      </div>
+    </>
+  );
+}
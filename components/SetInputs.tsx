@@ -0,0 +1,45 @@
+"use client";
+import React from "react";
+import { SetEntry, TrackingMode, Unit } from "@/lib/state";
+import { fromUnit, showWeight } from "@/lib/units";
+
+// The three inputs of a set row, depending on how the exercise is tracked.
+export default function SetInputs({ set: s, mode, unit, onChange }: { set: SetEntry; mode: TrackingMode; unit: Unit; onChange: (patch: Partial<SetEntry>) => void }) {
+  const n = (v: string) => Number(v || 0);
+  const kg = <input className="input" type="number" value={showWeight(s.weightKg, unit)} onChange={(e) => onChange({ weightKg: fromUnit(n(e.target.value), unit) })} placeholder={mode === "weight_reps" ? unit : `+${unit}`} />;
+  const reps = <input className="input" type="number" value={s.reps} onChange={(e) => onChange({ reps: n(e.target.value) })} placeholder="reps" />;
+  const rpe = <input className="input" type="number" value={s.rpe ?? ""} onChange={(e) => onChange({ rpe: e.target.value === "" ? undefined : Number(e.target.value) })} placeholder="RPE" />;
+  const sec = <input className="input" type="number" value={s.durationSec ?? ""} onChange={(e) => onChange({ durationSec: n(e.target.value) })} placeholder="sec" />;
+  if (mode === "assisted")
+    return (
+      <>
+        {/* assistance is entered as a positive number and stored as negative load */}
+        <input className="input" type="number" value={Math.abs(showWeight(s.weightKg, unit))} onChange={(e) => onChange({ weightKg: -Math.abs(fromUnit(n(e.target.value), unit)) })} placeholder={`aide ${unit}`} />
+        {reps}
+        {rpe}
+      </>
+    );
+  if (mode === "duration")
+    return (
+      <>
+        {sec}
+        {kg}
+        {rpe}
+      </>
+    );
+  if (mode === "distance")
+    return (
+      <>
+        <input className="input" type="number" value={s.distanceM ?? ""} onChange={(e) => onChange({ distanceM: n(e.target.value) })} placeholder="m" />
+        {sec}
+        {kg}
+      </>
+    );
+  return (
+    <>
+      {kg}
+      {reps}
+      {rpe}
+    </>
+  );
+}
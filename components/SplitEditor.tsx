@@ -0,0 +1,139 @@
+"use client";
+import React, { useState } from "react";
+import { DayTemplate, Exo, WorkoutLog } from "@/lib/state";
+import { addDay, addEntry, linkWithNext, moveEntry, moveItem, removeDay, removeEntry, renameDay, supersetLabels, unlink, updateEntry } from "@/lib/templates";
+
+type Props = {
+  days: DayTemplate[];
+  exercises: Exo[];
+  exoById: Map<string, Exo>;
+  logs: WorkoutLog[];
+  onChange: (days: DayTemplate[]) => void;
+};
+
+export default function SplitEditor({ days, exercises, exoById, logs, onChange }: Props) {
+  const [selectedId, setSelectedId] = useState(days[0]?.id ?? "");
+  const [newDay, setNewDay] = useState("");
+  const [dragIdx, setDragIdx] = useState<number | null>(null);
+  const selected = days.find((d) => d.id === selectedId) ?? days[0];
+  const labels = supersetLabels(selected?.entries ?? []);
+  const setNum = (idx: number, key: "defaultRestSec" | "targetSets" | "repMin" | "repMax", v: string) =>
+    selected && onChange(updateEntry(days, selected.id, idx, { [key]: Math.max(0, Number(v || 0)) }));
+
+  const deleteDay = (d: DayTemplate) => {
+    const n = logs.filter((l) => l.dayId === d.id).length;
+    const msg = n ? `Supprimer « ${d.name} » ? Les ${n} séance(s) enregistrées restent dans l’historique.` : `Supprimer « ${d.name} » ?`;
+    if (confirm(msg)) onChange(removeDay(days, d.id));
+  };
+
+  return (
+    <div className="grid cols2">
+      <div className="card">
+        <div className="h1">Mon split</div>
+        <div className="muted">Upper/lower, full-body, PPL… crée tes jours et leur ordre.</div>
+        <div className="sep" />
+        <div className="list">
+          {days.map((d, i) => (
+            <div key={d.id} className="row">
+              <button className={`btn ${selected?.id === d.id ? "primary" : ""}`} onClick={() => setSelectedId(d.id)}>{i + 1}</button>
+              <input className="input" value={d.name} onChange={(e) => onChange(renameDay(days, d.id, e.target.value))} style={{ flex: 1 }} />
+              <button className="btn" disabled={i === 0} onClick={() => onChange(moveItem(days, i, i - 1))}>↑</button>
+              <button className="btn" disabled={i === days.length - 1} onClick={() => onChange(moveItem(days, i, i + 1))}>↓</button>
+              <button className="btn danger" onClick={() => deleteDay(d)}>Suppr</button>
+            </div>
+          ))}
+          {days.length === 0 && <div className="muted">Aucun jour.</div>}
+        </div>
+        <div className="sep" />
+        <div className="row">
+          <input className="input" value={newDay} onChange={(e) => setNewDay(e.target.value)} placeholder="Ex: UPPER, Full body A…" style={{ flex: 1 }} />
+          <button
+            className="btn primary"
+            onClick={() => {
+              if (!newDay.trim()) return;
+              const next = addDay(days, newDay.trim());
+              onChange(next);
+              setSelectedId(next[next.length - 1].id);
+              setNewDay("");
+            }}
+          >
+            + Jour
+          </button>
+        </div>
+      </div>
+
+      <div className="card">
+        {!selected && <div className="muted">Sélectionne ou crée un jour.</div>}
+        {selected && (
+          <>
+            <div className="h1">{selected.name}</div>
+            <div className="muted">Séries cibles, fourchette de reps et repos. Glisse pour réordonner.</div>
+            <div className="sep" />
+            <div className="list">
+              {selected.entries.map((t, i) => (
+                <div
+                  key={t.exoId}
+                  className="card"
+                  draggable
+                  onDragStart={() => setDragIdx(i)}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={() => {
+                    if (dragIdx !== null) onChange(moveEntry(days, selected.id, dragIdx, i));
+                    setDragIdx(null);
+                  }}
+                  onDragEnd={() => setDragIdx(null)}
+                  style={{ padding: 12, cursor: "grab", opacity: dragIdx === i ? 0.5 : 1, borderLeft: t.supersetId ? "4px solid #2f5bff" : undefined }}
+                >
+                  <div className="row" style={{ justifyContent: "space-between" }}>
+                    <span style={{ fontWeight: 700 }}>
+                      <span className="muted">⠿ </span>
+                      {exoById.get(t.exoId)?.name ?? t.exoId}
+                      {t.supersetId && <span className="pill" style={{ marginLeft: 8 }}>Superset {labels.get(t.supersetId)}</span>}
+                    </span>
+                    <div className="row">
+                      <button className="btn" disabled={i === 0} onClick={() => onChange(moveEntry(days, selected.id, i, i - 1))}>↑</button>
+                      <button className="btn" disabled={i === selected.entries.length - 1} onClick={() => onChange(moveEntry(days, selected.id, i, i + 1))}>↓</button>
+                      <button className="btn danger" onClick={() => onChange(removeEntry(days, selected.id, i))}>✕</button>
+                    </div>
+                  </div>
+                  <div className="sep" />
+                  <div className="row">
+                    <input className="input" type="number" value={t.targetSets} onChange={(e) => setNum(i, "targetSets", e.target.value)} style={{ width: 64 }} />
+                    <span className="muted">×</span>
+                    <input className="input" type="number" value={t.repMin} onChange={(e) => setNum(i, "repMin", e.target.value)} style={{ width: 64 }} />
+                    <span className="muted">–</span>
+                    <input className="input" type="number" value={t.repMax} onChange={(e) => setNum(i, "repMax", e.target.value)} style={{ width: 64 }} />
+                    <span className="muted">reps • repos</span>
+                    <input className="input" type="number" value={t.defaultRestSec} onChange={(e) => setNum(i, "defaultRestSec", e.target.value)} style={{ width: 76 }} />
+                    <span className="muted">s</span>
+                  </div>
+                  <div className="row" style={{ marginTop: 8 }}>
+                    {i < selected.entries.length - 1 && (!t.supersetId || t.supersetId !== selected.entries[i + 1].supersetId) && (
+                      <button className="btn" onClick={() => onChange(linkWithNext(days, selected.id, i))}>⛓ Superset avec le suivant</button>
+                    )}
+                    {t.supersetId && <button className="btn" onClick={() => onChange(unlink(days, selected.id, i))}>Sortir du superset</button>}
+                  </div>
+                </div>
+              ))}
+              {selected.entries.length === 0 && <div className="muted">Aucun exercice pour ce jour.</div>}
+            </div>
+            <div className="sep" />
+            <select
+              className="select"
+              value=""
+              onChange={(e) => e.target.value && onChange(addEntry(days, selected.id, e.target.value))}
+              style={{ width: "100%" }}
+            >
+              <option value="">+ Ajouter un exercice…</option>
+              {exercises
+                .filter((x) => !selected.entries.some((t) => t.exoId === x.id))
+                .map((x) => (
+                  <option key={x.id} value={x.id}>{x.name}</option>
+                ))}
+            </select>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+import React, { useState } from "react";
+import { AppState, SUPP_SCHEDULES, SuppSchedule, Supplement } from "@/lib/state";
+import { SUPP_SCHEDULE_LABELS, deleteSupplement, describeDose, dosesLeft, isLowStock, logDose, newSupplement, suppHistory, undoDose } from "@/lib/supplements";
+
+const RECENT = 10;
+
+export default function SupplementsPanel({ state, onApply }: { state: AppState; onApply: (next: AppState) => void }) {
+  const [editing, setEditing] = useState<string | null>(null);
+  const update = (p: Supplement) => onApply({ ...state, supplements: state.supplements.map((x) => (x.id === p.id ? p : x)) });
+  const add = () => {
+    const p = newSupplement();
+    onApply({ ...state, supplements: [...state.supplements, p] });
+    setEditing(p.id);
+  };
+  const remove = (p: Supplement) => {
+    if (!confirm(`Supprimer « ${p.name} » ? Les prises déjà notées restent dans l’historique.`)) return;
+    onApply(deleteSupplement(state, p.id));
+  };
+  const recent = state.suppDoses.slice(-RECENT).reverse();
+
+  return (
+    <div className="card">
+      <div className="h1">Compléments</div>
+      <div className="muted">Dose, stock et suivi des prises. Ceux « après chaque séance » sont proposés dès que tu enregistres une séance.</div>
+      <div className="sep" />
+      <div className="list">
+        {state.supplements.map((p) => (
+          <SupplementRow key={p.id} supp={p} state={state} editing={editing === p.id} onEdit={() => setEditing(editing === p.id ? null : p.id)} onChange={update} onTake={() => onApply(logDose(state, p.id))} onRemove={() => remove(p)} />
+        ))}
+      </div>
+      <div className="row" style={{ marginTop: 8 }}>
+        <button className="btn" onClick={add}>+ Ajouter un complément</button>
+      </div>
+
+      {!!recent.length && (
+        <>
+          <div className="sep" />
+          <div className="muted">Dernières prises</div>
+          <div className="list" style={{ marginTop: 6 }}>
+            {recent.map((d) => (
+              <div key={d.id} className="row" style={{ justifyContent: "space-between" }}>
+                <span>
+                  {describeDose(d)} <span className="muted">— {new Date(d.t).toLocaleString("fr-FR", { dateStyle: "short", timeStyle: "short" })}</span>
+                </span>
+                <button className="btn" onClick={() => onApply(undoDose(state, d.id))} title="Annuler cette prise (remet la dose en stock)">✕</button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+type RowProps = { supp: Supplement; state: AppState; editing: boolean; onEdit: () => void; onChange: (p: Supplement) => void; onTake: () => void; onRemove: () => void };
+
+function SupplementRow({ supp: p, state, editing, onEdit, onChange, onTake, onRemove }: RowProps) {
+  const [refill, setRefill] = useState("");
+  const history = suppHistory(p, state.suppDoses, state.logs, state.water.dayStartHHMM);
+  const today = history[history.length - 1];
+  const missed = history.reduce((n, d) => n + d.missed, 0);
+  const left = dosesLeft(p);
+  return (
+    <div className="card" style={{ padding: 12 }}>
+      <div className="row" style={{ justifyContent: "space-between" }}>
+        <div>
+          <div style={{ fontWeight: 900 }}>{describeDose(p)}</div>
+          <div className="muted" style={{ fontSize: 12 }}>
+            {SUPP_SCHEDULE_LABELS[p.schedule]} • {left === null ? "stock non suivi" : `${p.stock} ${p.unit} (${left} dose${left > 1 ? "s" : ""})`}
+          </div>
+        </div>
+        <div className="row">
+          {isLowStock(p) && <span className="pill" style={{ borderColor: "#ff8a9a" }}>{left === 0 ? "⚠️ Stock épuisé" : "⚠️ Stock bas"}</span>}
+          <button className={`btn ${today.taken ? "" : "primary"}`} onClick={onTake}>{today.taken ? `Pris ✅ ×${today.taken}` : "Pris"}</button>
+        </div>
+      </div>
+
+      <div className="row" style={{ marginTop: 8, gap: 4 }}>
+        {history.map((d) => (
+          <span key={d.date} className="pill" title={`${d.date} : ${d.taken} prise(s) / ${d.expected} prévue(s)`} style={{ padding: "2px 6px", opacity: d.expected || d.taken ? 1 : 0.4 }}>
+            {d.taken >= d.expected && d.taken ? "✓" : d.missed ? "✗" : d.expected ? "…" : "·"}
+          </span>
+        ))}
+        <span className="muted" style={{ fontSize: 12 }}>{missed ? `${missed} oubli(s) sur 14 j` : "aucun oubli sur 14 j"}</span>
+      </div>
+
+      <div className="row" style={{ marginTop: 8 }}>
+        <button className="btn" onClick={onEdit}>{editing ? "Fermer" : "Modifier"}</button>
+      </div>
+
+      {editing && (
+        <>
+          <div className="sep" />
+          <div className="row">
+            <input className="input" value={p.name} onChange={(e) => onChange({ ...p, name: e.target.value })} placeholder="Nom" style={{ width: 150 }} />
+            <input className="input" type="number" min={0} step="any" value={p.dose} onChange={(e) => onChange({ ...p, dose: Math.max(0, Number(e.target.value || 0)) })} style={{ width: 80 }} />
+            <input className="input" value={p.unit} onChange={(e) => onChange({ ...p, unit: e.target.value })} placeholder="g" style={{ width: 70 }} />
+            <select className="select" value={p.schedule} onChange={(e) => onChange({ ...p, schedule: e.target.value as SuppSchedule })}>
+              {SUPP_SCHEDULES.map((k) => (
+                <option key={k} value={k}>{SUPP_SCHEDULE_LABELS[k]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="row" style={{ marginTop: 8 }}>
+            <span className="muted">Stock ({p.unit})</span>
+            <input
+              className="input"
+              type="number"
+              min={0}
+              step="any"
+              value={p.stock ?? ""}
+              onChange={(e) => onChange({ ...p, stock: e.target.value === "" ? null : Math.max(0, Number(e.target.value)) })}
+              placeholder="non suivi"
+              style={{ width: 100 }}
+            />
+            <span className="muted">alerte à</span>
+            <input className="input" type="number" min={0} value={p.lowStockDoses} onChange={(e) => onChange({ ...p, lowStockDoses: Math.max(0, Number(e.target.value || 0)) })} style={{ width: 70 }} />
+            <span className="muted">doses</span>
+          </div>
+          <div className="row" style={{ marginTop: 8 }}>
+            <input className="input" type="number" min={0} step="any" value={refill} onChange={(e) => setRefill(e.target.value)} placeholder={`ex: 500 (${p.unit})`} style={{ width: 120 }} />
+            <button
+              className="btn"
+              onClick={() => {
+                const n = Number(refill);
+                if (!Number.isFinite(n) || n <= 0) return;
+                onChange({ ...p, stock: (p.stock ?? 0) + n });
+                setRefill("");
+              }}
+            >
+              + Recharger
+            </button>
+            <button className="btn danger" onClick={onRemove}>Suppr</button>
+          </div>
+          <div className="muted" style={{ fontSize: 12, marginTop: 6 }}>Suivi depuis le {p.since}.</div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+import React, { useState } from "react";
+import { DRINK_TYPES, DrinkType, WaterDayGoal, WaterEntry, WaterGoalSettings, WaterSettings } from "@/lib/state";
+import { DRINK_LABELS, GoalPart, entriesOfDay, hydrationMl, waterDay } from "@/lib/water";
+
+type Props = {
+  log: WaterEntry[];
+  settings: WaterSettings;
+  goalMl: number; // today's
+  fixedGoalMl: number;
+  parts: GoalPart[]; // what the adaptive goal is made of
+  adjust: WaterDayGoal; // today's manual adjustments
+  streak: number;
+  now: number;
+  onAdd: (ml: number, drink: DrinkType) => void;
+  onRemove: (id: string) => void;
+  onSettings: (w: WaterSettings) => void;
+  onGoal: (ml: number) => void;
+  onAdjust: (adj: Pick<WaterDayGoal, "hot" | "extraMin">) => void;
+};
+
+export default function WaterPanel({ log, settings: w, goalMl, fixedGoalMl, parts, adjust, streak, now, onAdd, onRemove, onSettings, onGoal, onAdjust }: Props) {
+  const [drink, setDrink] = useState<DrinkType>("water");
+  const [open, setOpen] = useState(false);
+  const today = waterDay(now, w.dayStartHHMM);
+  const entries = entriesOfDay(log, w, today);
+  const total = entries.reduce((n, e) => n + hydrationMl(e, w), 0);
+  const pct = Math.min(100, Math.round((total / goalMl) * 100));
+  const g = w.goal;
+  const setGoal = (goal: WaterGoalSettings) => onSettings({ ...w, goal });
+
+  return (
+    <div className="card">
+      <div className="row" style={{ justifyContent: "space-between" }}>
+        <div>
+          <div className="muted">Eau (objectif {goalMl} ml)</div>
+          <div className="big">{pct}%</div>
+          <div className="muted">{total} ml aujourd’hui</div>
+        </div>
+        <div style={{ textAlign: "right" }}>
+          <div className="pill">{today}</div>
+          {streak > 0 && <div className="muted" style={{ marginTop: 6 }}>🔥 {streak} jour{streak > 1 ? "s" : ""} d’affilée</div>}
+        </div>
+      </div>
+      <div className="sep" />
+      <div className="row">
+        <select className="select" value={drink} onChange={(e) => setDrink(e.target.value as DrinkType)}>
+          {DRINK_TYPES.map((k) => (
+            <option key={k} value={k}>{DRINK_LABELS[k]}</option>
+          ))}
+        </select>
+        <button className="btn" onClick={() => onAdd(250, drink)}>+250ml</button>
+        <button className="btn" onClick={() => onAdd(500, drink)}>+500ml</button>
+        <button className="btn" onClick={() => onAdd(750, drink)}>+750ml</button>
+      </div>
+
+      {!!entries.length && (
+        <div className="list" style={{ marginTop: 8 }}>
+          {[...entries].reverse().map((e) => (
+            <div key={e.id} className="row" style={{ justifyContent: "space-between" }}>
+              <span>
+                {DRINK_LABELS[e.drink]} {e.ml} ml
+                {w.useFactors && w.factors[e.drink] !== 1 && <span className="muted"> (compte {hydrationMl(e, w)} ml)</span>}
+                <span className="muted"> — {new Date(e.t).toLocaleTimeString("fr-FR", { hour: "2-digit", minute: "2-digit" })}</span>
+              </span>
+              <button className="btn" onClick={() => onRemove(e.id)} title="Annuler cette boisson">✕</button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="sep" />
+      {g.adaptive ? (
+        <>
+          <div className="list">
+            {parts.map((p, i) => (
+              <div key={i} className="row" style={{ justifyContent: "space-between" }}>
+                <span className="muted">{p.label}</span>
+                <span>+{Math.round(p.ml)} ml</span>
+              </div>
+            ))}
+          </div>
+          <div className="row" style={{ marginTop: 8 }}>
+            <button className={`btn ${adjust.hot ? "primary" : ""}`} onClick={() => onAdjust({ hot: !adjust.hot, extraMin: adjust.extraMin })}>☀️ Journée chaude</button>
+            <label className="muted">Exercice en plus (min):</label>
+            <input className="input" type="number" min={0} value={adjust.extraMin || ""} onChange={(e) => onAdjust({ hot: adjust.hot, extraMin: Math.max(0, Number(e.target.value || 0)) })} placeholder="0" style={{ width: 80 }} />
+          </div>
+          <div className="row" style={{ marginTop: 8 }}>
+            <button className="btn" onClick={() => setOpen(!open)}>{open ? "Fermer" : "Réglages"}</button>
+          </div>
+        </>
+      ) : (
+        <div className="row">
+          <label className="muted">Objectif (ml):</label>
+          <input className="input" type="number" value={fixedGoalMl} onChange={(e) => onGoal(Math.max(500, Number(e.target.value || 0)))} />
+          <button className="btn" onClick={() => setOpen(!open)}>{open ? "Fermer" : "Réglages"}</button>
+        </div>
+      )}
+
+      {open && (
+        <>
+          <div className="row" style={{ marginTop: 8 }}>
+            <label className="muted">La journée commence à</label>
+            <input className="input" type="time" value={w.dayStartHHMM} onChange={(e) => e.target.value && onSettings({ ...w, dayStartHHMM: e.target.value })} style={{ width: 110 }} />
+          </div>
+          <div className="muted" style={{ fontSize: 12, marginTop: 4 }}>Un verre bu avant cette heure compte pour la veille. La checklist repas et le suivi des compléments suivent la même journée.</div>
+          <div className="row" style={{ marginTop: 8 }}>
+            <label className="row" style={{ gap: 6 }}>
+              <input type="checkbox" checked={g.adaptive} onChange={(e) => setGoal({ ...g, adaptive: e.target.checked })} />
+              <span>Objectif adaptatif (poids, séances, chaleur)</span>
+            </label>
+          </div>
+          {g.adaptive && (
+            <>
+              <div className="row" style={{ marginTop: 8 }}>
+                <input className="input" type="number" min={0} value={g.mlPerKg} onChange={(e) => setGoal({ ...g, mlPerKg: Math.max(0, Number(e.target.value || 0)) })} style={{ width: 70 }} />
+                <span className="muted">ml/kg</span>
+                <input className="input" type="number" min={0} value={g.mlPerTrainingMin} onChange={(e) => setGoal({ ...g, mlPerTrainingMin: Math.max(0, Number(e.target.value || 0)) })} style={{ width: 70 }} />
+                <span className="muted">ml/min d’exercice</span>
+                <input className="input" type="number" min={0} step={50} value={g.hotDayMl} onChange={(e) => setGoal({ ...g, hotDayMl: Math.max(0, Number(e.target.value || 0)) })} style={{ width: 80 }} />
+                <span className="muted">ml si chaud</span>
+              </div>
+              <div className="muted" style={{ fontSize: 12, marginTop: 4 }}>Sans poids enregistré, la base reste l’objectif fixe ({fixedGoalMl} ml). Chaque jour garde l’objectif qu’il avait.</div>
+            </>
+          )}
+          <div className="row" style={{ marginTop: 8 }}>
+            <label className="row" style={{ gap: 6 }}>
+              <input type="checkbox" checked={w.useFactors} onChange={(e) => onSettings({ ...w, useFactors: e.target.checked })} />
+              <span>Coefficients d’hydratation</span>
+            </label>
+          </div>
+          {w.useFactors && (
+            <div className="row" style={{ marginTop: 8 }}>
+              {DRINK_TYPES.map((k) => (
+                <label key={k} className="row" style={{ gap: 4 }}>
+                  <span className="muted">{DRINK_LABELS[k]}</span>
+                  <input
+                    className="input"
+                    type="number"
+                    min={0}
+                    max={1.5}
+                    step={0.05}
+                    value={w.factors[k]}
+                    onChange={(e) => onSettings({ ...w, factors: { ...w.factors, [k]: Math.min(1.5, Math.max(0, Number(e.target.value || 0))) } })}
+                    style={{ width: 70 }}
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
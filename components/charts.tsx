@@ -0,0 +1,161 @@
+"use client";
+import React, { useEffect, useRef } from "react";
+
+// ---------- Simple charts (no libs) ----------
+export function SimpleLineChart({ points, yLabel }: { points: { x: string; y: number }[]; yLabel: string }) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const c = canvasRef.current;
+    if (!c) return;
+    const ctx = c.getContext("2d");
+    if (!ctx) return;
+
+    // resize for crisp
+    const w = 900;
+    const h = 240;
+    c.width = w;
+    c.height = h;
+
+    ctx.clearRect(0, 0, w, h);
+    ctx.fillStyle = "#0e1526";
+    ctx.fillRect(0, 0, w, h);
+
+    if (points.length < 2) {
+      ctx.fillStyle = "#a8b2cc";
+      ctx.fillText("Pas assez de points", 20, 30);
+      return;
+    }
+
+    const ys = points.map((p) => p.y);
+    const minY = Math.min(...ys);
+    const maxY = Math.max(...ys);
+    const pad = 20;
+    const left = 50;
+    const right = 15;
+    const top = 20;
+    const bottom = 35;
+
+    const scaleX = (i: number) => left + (i * (w - left - right)) / (points.length - 1);
+    const scaleY = (y: number) => {
+      const denom = maxY - minY || 1;
+      return top + ((maxY - y) * (h - top - bottom)) / denom;
+    };
+
+    // grid
+    ctx.strokeStyle = "#22304f";
+    ctx.lineWidth = 1;
+    for (let i = 0; i <= 4; i++) {
+      const y = top + (i * (h - top - bottom)) / 4;
+      ctx.beginPath();
+      ctx.moveTo(left, y);
+      ctx.lineTo(w - right, y);
+      ctx.stroke();
+    }
+
+    // line
+    ctx.strokeStyle = "#2f5bff";
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    points.forEach((p, i) => {
+      const x = scaleX(i);
+      const y = scaleY(p.y);
+      if (i === 0) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+    });
+    ctx.stroke();
+
+    // dots
+    ctx.fillStyle = "#e6e9f2";
+    points.forEach((p, i) => {
+      const x = scaleX(i);
+      const y = scaleY(p.y);
+      ctx.beginPath();
+      ctx.arc(x, y, 4, 0, Math.PI * 2);
+      ctx.fill();
+    });
+
+    // labels
+    ctx.fillStyle = "#a8b2cc";
+    ctx.font = "14px system-ui";
+    ctx.fillText(`${maxY.toFixed(1)} ${yLabel}`, 10, top + 10);
+    ctx.fillText(`${minY.toFixed(1)} ${yLabel}`, 10, h - bottom);
+
+    // x labels (few)
+    ctx.fillStyle = "#a8b2cc";
+    const step = Math.max(1, Math.floor(points.length / 5));
+    for (let i = 0; i < points.length; i += step) {
+      const x = scaleX(i);
+      ctx.fillText(points[i].x, x - 14, h - 12);
+    }
+  }, [points, yLabel]);
+
+  return <canvas ref={canvasRef} style={{ width: "100%", height: 220, borderRadius: 12, border: "1px solid #22304f" }} />;
+}
+
+// A bar with its own goal gets a marker at that goal and turns green once it reaches it.
+export function SimpleBarChart({ bars, maxValue, unit }: { bars: { label: string; value: number; goal?: number }[]; maxValue: number; unit: string }) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const c = canvasRef.current;
+    if (!c) return;
+    const ctx = c.getContext("2d");
+    if (!ctx) return;
+
+    const w = 900;
+    const h = 240;
+    c.width = w;
+    c.height = h;
+
+    ctx.clearRect(0, 0, w, h);
+    ctx.fillStyle = "#0e1526";
+    ctx.fillRect(0, 0, w, h);
+
+    const left = 40;
+    const right = 15;
+    const top = 20;
+    const bottom = 35;
+
+    // grid line at goal
+    ctx.strokeStyle = "#22304f";
+    ctx.lineWidth = 1;
+    const goalY = top + ((maxValue - maxValue) * (h - top - bottom)) / (maxValue || 1);
+    ctx.beginPath();
+    ctx.moveTo(left, goalY);
+    ctx.lineTo(w - right, goalY);
+    ctx.stroke();
+
+    const barW = (w - left - right) / bars.length;
+    bars.forEach((b, i) => {
+      const x = left + i * barW + 10;
+      const usableH = h - top - bottom;
+      const v = Math.min(maxValue, b.value);
+      const bh = (v / (maxValue || 1)) * usableH;
+      const y = top + (usableH - bh);
+
+      ctx.fillStyle = b.goal !== undefined && b.value >= b.goal ? "#7ee2a8" : "#2f5bff";
+      ctx.fillRect(x, y, barW - 20, bh);
+
+      if (b.goal !== undefined) {
+        const gy = top + usableH - (Math.min(maxValue, b.goal) / (maxValue || 1)) * usableH;
+        ctx.strokeStyle = "#e0a341";
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(x - 4, gy);
+        ctx.lineTo(x + barW - 16, gy);
+        ctx.stroke();
+      }
+
+      ctx.fillStyle = "#a8b2cc";
+      ctx.font = "12px system-ui";
+      ctx.fillText(b.label, x, h - 12);
+    });
+
+    ctx.fillStyle = "#a8b2cc";
+    ctx.font = "14px system-ui";
+    ctx.fillText(`max ${maxValue} ${unit}`, 10, 18);
+  }, [bars, maxValue, unit]);
+
+  return <canvas ref={canvasRef} style={{ width: "100%", height: 220, borderRadius: 12, border: "1px solid #22304f" }} />;
+}
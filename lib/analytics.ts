@@ -0,0 +1,84 @@
+import { E1rmFormula, SetEntry, WorkoutLog } from "./state";
+import { isWorkSet } from "./sets";
+import { LoadFn, rawLoad } from "./tracking";
+
+export const RM_REPS = [1, 3, 5, 10] as const;
+export type RmReps = (typeof RM_REPS)[number];
+
+export function e1rm(weightKg: number, reps: number, formula: E1rmFormula) {
+  if (reps <= 0 || weightKg <= 0) return 0;
+  if (reps === 1) return weightKg;
+  if (formula === "brzycki") return reps >= 37 ? weightKg : (weightKg * 36) / (37 - reps);
+  return weightKg * (1 + reps / 30);
+}
+
+export const tonnage = (sets: SetEntry[]) => sets.reduce((t, s) => t + s.weightKg * s.reps, 0);
+
+export type SessionPoint = { dateISO: string; e1rm: number; tonnage: number; bestSet: SetEntry };
+
+export type ExerciseStats = {
+  sessions: SessionPoint[]; // oldest first, for charts
+  bestSet?: SetEntry & { e1rm: number; dateISO: string };
+  rm: Partial<Record<RmReps, { weightKg: number; reps: number; dateISO: string }>>; // heaviest load moved for at least N reps
+};
+
+function bestOf(sets: SetEntry[], formula: E1rmFormula) {
+  return sets.reduce((b, s) => (e1rm(s.weightKg, s.reps, formula) > e1rm(b.weightKg, b.reps, formula) ? s : b), sets[0]);
+}
+
+// `load` gives the effective load of a set (bodyweight included for bodyweight
+// exercises); every weight in the result is in those terms.
+export function exerciseStats(logs: WorkoutLog[], exoId: string, formula: E1rmFormula, load: LoadFn = rawLoad): ExerciseStats {
+  const stats: ExerciseStats = { sessions: [], rm: {} };
+  [...logs]
+    .sort((a, b) => a.dateISO.localeCompare(b.dateISO))
+    .forEach((l) => {
+      const sets = l.sets.filter((s) => s.exoId === exoId && s.reps > 0 && isWorkSet(s)).map((s) => ({ ...s, weightKg: load(s, l.dateISO) }));
+      if (sets.length === 0) return;
+      const best = bestOf(sets, formula);
+      const point = { dateISO: l.dateISO, e1rm: e1rm(best.weightKg, best.reps, formula), tonnage: tonnage(sets), bestSet: best };
+      stats.sessions.push(point);
+      if (!stats.bestSet || point.e1rm > stats.bestSet.e1rm) stats.bestSet = { ...best, e1rm: point.e1rm, dateISO: l.dateISO };
+      sets.forEach((s) =>
+        RM_REPS.forEach((n) => {
+          const cur = stats.rm[n];
+          if (s.reps >= n && (!cur || s.weightKg > cur.weightKg)) stats.rm[n] = { weightKg: s.weightKg, reps: s.reps, dateISO: l.dateISO };
+        })
+      );
+    });
+  return stats;
+}
+
+export type PR = { exoId: string; kind: "e1rm" | `${RmReps}RM`; value: number; previous?: number };
+
+// Records the new log beats compared with everything saved before it.
+// An exercise done for the first time is not a PR.
+export function detectPRs(previousLogs: WorkoutLog[], log: WorkoutLog, formula: E1rmFormula, loadOf: (exoId: string) => LoadFn = () => rawLoad): PR[] {
+  const prs: PR[] = [];
+  new Set(log.sets.map((s) => s.exoId)).forEach((exoId) => {
+    const before = exerciseStats(previousLogs, exoId, formula, loadOf(exoId));
+    if (!before.bestSet) return;
+    const now = exerciseStats([log], exoId, formula, loadOf(exoId));
+    if (now.bestSet && now.bestSet.e1rm > before.bestSet.e1rm + 1e-9)
+      prs.push({ exoId, kind: "e1rm", value: now.bestSet.e1rm, previous: before.bestSet.e1rm });
+    RM_REPS.forEach((n) => {
+      const a = now.rm[n];
+      const b = before.rm[n];
+      if (a && (!b || a.weightKg > b.weightKg)) prs.push({ exoId, kind: `${n}RM`, value: a.weightKg, previous: b?.weightKg });
+    });
+  });
+  return prs;
+}
+
+export type EndurancePoint = { dateISO: string; durationSec: number; distanceM: number };
+
+// Timed / distance exercises: longest hold and longest distance per session, oldest first.
+export function enduranceSessions(logs: WorkoutLog[], exoId: string): EndurancePoint[] {
+  return logs
+    .map((l) => {
+      const sets = l.sets.filter((s) => s.exoId === exoId && isWorkSet(s));
+      return sets.length ? { dateISO: l.dateISO, durationSec: Math.max(...sets.map((s) => s.durationSec ?? 0)), distanceM: Math.max(...sets.map((s) => s.distanceM ?? 0)) } : null;
+    })
+    .filter((p): p is EndurancePoint => p !== null)
+    .sort((a, b) => a.dateISO.localeCompare(b.dateISO));
+}
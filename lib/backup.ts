@@ -0,0 +1,90 @@
+import { AppState } from "./state";
+import { Persisted, SchemaError, migrate, toPersisted, validate } from "./schema";
+
+export const BACKUP_FORMAT = "myallinone-backup";
+
+// photos: exercise photos by photoId, as data URLs (lib/photos.ts)
+export type Backup = { format: typeof BACKUP_FORMAT; exportedAt: string; data: Persisted; photos?: Record<string, string> };
+
+export function exportBackup(s: AppState, photos: Record<string, string> = {}): string {
+  const b: Backup = { format: BACKUP_FORMAT, exportedAt: new Date().toISOString(), data: toPersisted(s), photos };
+  return JSON.stringify(b, null, 2);
+}
+
+const isPhotoUrl = (x: unknown): x is string => typeof x === "string" && x.startsWith("data:image/");
+
+// Backups go through the same migration + validation pipeline as stored data,
+// so a file exported by an older version of the app still imports.
+export function parseBackup(text: string): { state: AppState; issues: string[]; exportedAt: string; photos: Record<string, string> } {
+  let b: Partial<Backup>;
+  try {
+    b = JSON.parse(text);
+  } catch {
+    throw new SchemaError("not a JSON file");
+  }
+  if (b?.format !== BACKUP_FORMAT || !b.data) throw new SchemaError("not a MyAllInOneTracker backup");
+  const photos = typeof b.photos === "object" && b.photos !== null ? Object.fromEntries(Object.entries(b.photos).filter(([, v]) => isPhotoUrl(v))) : {};
+  return { ...validate(migrate(b.data)), exportedAt: String(b.exportedAt ?? ""), photos };
+}
+
+export type SliceDiff<T> = { added: T[]; overwritten: T[]; unchanged: number };
+
+export type MergePreview = {
+  logs: SliceDiff<AppState["logs"][number]>;
+  bodyweight: SliceDiff<AppState["bodyweight"][number]>;
+  waterLog: SliceDiff<AppState["waterLog"][number]>;
+  waterGoals: SliceDiff<AppState["waterGoals"][number]>;
+  exercises: SliceDiff<AppState["exercises"][number]>;
+  reminders: SliceDiff<AppState["reminders"][number]>;
+  reminderEvents: SliceDiff<AppState["reminderEvents"][number]>;
+  supplements: SliceDiff<AppState["supplements"][number]>;
+  suppDoses: SliceDiff<AppState["suppDoses"][number]>;
+};
+
+function diffSlice<T>(current: T[], incoming: T[], key: (x: T) => string): SliceDiff<T> {
+  const byKey = new Map(current.map((x) => [key(x), JSON.stringify(x)]));
+  const d: SliceDiff<T> = { added: [], overwritten: [], unchanged: 0 };
+  incoming.forEach((x) => {
+    const prev = byKey.get(key(x));
+    if (prev === undefined) d.added.push(x);
+    else if (prev !== JSON.stringify(x)) d.overwritten.push(x);
+    else d.unchanged++;
+  });
+  return d;
+}
+
+export function previewMerge(current: AppState, incoming: AppState): MergePreview {
+  return {
+    logs: diffSlice(current.logs, incoming.logs, (l) => l.id),
+    bodyweight: diffSlice(current.bodyweight, incoming.bodyweight, (w) => w.dateISO),
+    waterLog: diffSlice(current.waterLog, incoming.waterLog, (e) => e.id),
+    waterGoals: diffSlice(current.waterGoals, incoming.waterGoals, (g) => g.date),
+    exercises: diffSlice(current.exercises, incoming.exercises, (e) => e.id),
+    reminders: diffSlice(current.reminders, incoming.reminders, (r) => r.id),
+    reminderEvents: diffSlice(current.reminderEvents, incoming.reminderEvents, (e) => e.id),
+    supplements: diffSlice(current.supplements, incoming.supplements, (p) => p.id),
+    suppDoses: diffSlice(current.suppDoses, incoming.suppDoses, (d) => d.id),
+  };
+}
+
+function mergeBy<T>(current: T[], incoming: T[], key: (x: T) => string): T[] {
+  const m = new Map(current.map((x) => [key(x), x]));
+  incoming.forEach((x) => m.set(key(x), x));
+  return [...m.values()];
+}
+
+// Incoming records win on key collisions; settings (goal, templates, nutrition) stay local.
+export function mergeStates(current: AppState, incoming: AppState): AppState {
+  return {
+    ...current,
+    logs: mergeBy(current.logs, incoming.logs, (l) => l.id).sort((a, b) => b.dateISO.localeCompare(a.dateISO)),
+    bodyweight: mergeBy(current.bodyweight, incoming.bodyweight, (w) => w.dateISO).sort((a, b) => a.dateISO.localeCompare(b.dateISO)),
+    waterLog: mergeBy(current.waterLog, incoming.waterLog, (e) => e.id).sort((a, b) => a.t - b.t),
+    waterGoals: mergeBy(current.waterGoals, incoming.waterGoals, (g) => g.date).sort((a, b) => a.date.localeCompare(b.date)),
+    exercises: mergeBy(current.exercises, incoming.exercises, (e) => e.id),
+    reminders: mergeBy(current.reminders, incoming.reminders, (r) => r.id),
+    reminderEvents: mergeBy(current.reminderEvents, incoming.reminderEvents, (e) => e.id).sort((a, b) => a.t - b.t),
+    supplements: mergeBy(current.supplements, incoming.supplements, (p) => p.id),
+    suppDoses: mergeBy(current.suppDoses, incoming.suppDoses, (d) => d.id).sort((a, b) => a.t - b.t),
+  };
+}
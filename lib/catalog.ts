@@ -0,0 +1,277 @@
+import { Equipment, Exo, MovementPattern, TrackingMode } from "./state";
+
+// Bundled, offline exercise catalogue. Entries share their id with the library
+// exercise they become, so the instructions stay reachable from a logged exercise.
+
+export type CatalogEntry = Exo & { equipment: Equipment; instructions: string[]; cues: string[] };
+
+const x = (id: string, name: string, muscles: string, equipment: Equipment, pattern: MovementPattern | undefined, instructions: string[], cues: string[], mode?: TrackingMode): CatalogEntry => ({
+  id,
+  name,
+  muscles: muscles.split(",").map((m) => m.trim()),
+  equipment,
+  ...(pattern ? { pattern } : {}),
+  ...(mode ? { mode } : {}),
+  instructions,
+  cues,
+});
+
+// Library copy of a catalogue entry; instructions stay in the catalogue.
+export const toExo = ({ id, name, muscles, equipment, pattern, mode }: CatalogEntry): Exo => ({ id, name, muscles, equipment, pattern, mode });
+
+export const addFromCatalog = (exos: Exo[], c: CatalogEntry) => (exos.some((e) => e.id === c.id) ? exos : [...exos, toExo(c)]);
+
+export const CATALOG: CatalogEntry[] = [
+  // ---------- chest ----------
+  x("bench_press", "Barbell Bench Press", "chest, triceps, front delts", "barbell", "push", ["Allongé, yeux sous la barre, pieds à plat au sol.", "Descends la barre contrôlée jusqu’au bas des pecs.", "Pousse jusqu’aux bras tendus sans décoller les fesses."], ["Omoplates serrées et basses", "Coudes à ~45° du buste"]),
+  x("incline_bench_press", "Incline Barbell Bench Press", "chest, front delts, triceps", "barbell", "push", ["Banc incliné à 30–45°.", "Descends la barre sous les clavicules.", "Pousse à la verticale au-dessus des épaules."], ["Ne cambre pas pour « aplatir » l’inclinaison", "Poignets empilés sur les coudes"]),
+  x("decline_bench_press", "Decline Barbell Bench Press", "chest, triceps", "barbell", "push", ["Banc décliné, jambes calées.", "Descends la barre vers le bas des pecs.", "Pousse en gardant les omoplates serrées."], ["Trajectoire courte et contrôlée", "Fais-toi passer la barre"]),
+  x("paused_bench_press", "Paused Bench Press", "chest, triceps, front delts", "barbell", "push", ["Comme le développé couché classique.", "Marque 1 à 2 s d’arrêt, barre posée sur la poitrine sans rebond.", "Pousse explosif depuis l’arrêt."], ["Reste gainé pendant la pause", "Pas de relâchement en bas"]),
+  x("floor_press", "Barbell Floor Press", "chest, triceps", "barbell", "push", ["Allongé au sol, barre dans les crochets bas.", "Descends jusqu’à ce que les triceps touchent le sol.", "Marque l’arrêt puis pousse."], ["Coudes posés sans rebond", "Jambes tendues ou genoux fléchis, au choix"]),
+  x("db_bench_press", "Dumbbell Bench Press", "chest, triceps, front delts", "dumbbell", "push", ["Haltères au-dessus de la poitrine, paumes vers les pieds.", "Descends en ouvrant légèrement les coudes jusqu’à l’étirement.", "Pousse en rapprochant les haltères en haut."], ["Contrôle la descente", "Ne cogne pas les haltères"]),
+  x("incline_db_press", "Incline Dumbbell Bench Press", "chest, front delts, triceps", "dumbbell", "push", ["Banc à 30°, haltères à hauteur des épaules.", "Pousse vers le haut et légèrement vers l’intérieur.", "Redescends jusqu’à sentir l’étirement des pecs."], ["Omoplates serrées contre le banc", "Poignets neutres"]),
+  x("decline_db_press", "Decline Dumbbell Press", "chest, triceps", "dumbbell", "push", ["Banc décliné, haltères au bas des pecs.", "Pousse bras tendus.", "Redescends contrôlé."], ["Coudes sous les poignets", "Amplitude complète"]),
+  x("db_fly", "Dumbbell Fly", "chest", "dumbbell", "isolation", ["Allongé, haltères au-dessus de la poitrine, coudes légèrement fléchis.", "Ouvre les bras en arc jusqu’à l’étirement.", "Referme en « enlaçant un arbre »."], ["Angle des coudes fixe", "Pas trop bas si l’épaule tire"]),
+  x("incline_db_fly", "Incline Dumbbell Fly", "chest, front delts", "dumbbell", "isolation", ["Banc incliné à 30°.", "Ouvre les bras en arc, coudes souples.", "Remonte en serrant les pecs."], ["Étirement contrôlé", "Épaules basses"]),
+  x("cable_crossover", "Cable Crossover", "chest", "cable", "isolation", ["Poulies hautes, un pas en avant, buste légèrement penché.", "Ramène les poignées devant le bassin en arc.", "Reviens lentement jusqu’à l’étirement."], ["Coudes légèrement fléchis et fixes", "Serre 1 s en fin de mouvement"]),
+  x("low_to_high_cable_fly", "Low-to-High Cable Fly", "chest, front delts", "cable", "isolation", ["Poulies basses, paumes vers l’avant.", "Monte les mains en arc jusqu’à hauteur du menton.", "Redescends contrôlé."], ["Vise le haut des pecs", "Ne lève pas les épaules"]),
+  x("high_to_low_cable_fly", "High-to-Low Cable Fly", "chest", "cable", "isolation", ["Poulies hautes.", "Ramène les mains vers le bas et l’intérieur, devant les hanches.", "Remonte lentement."], ["Buste stable", "Serre en bas"]),
+  x("pec_deck", "Chest Butterfly / Pec Deck", "chest", "machine", "isolation", ["Règle le siège pour avoir les poignées à hauteur de poitrine.", "Ferme les bras devant toi.", "Reviens jusqu’à l’étirement sans lâcher la charge."], ["Dos collé au dossier", "Pas d’élan"]),
+  x("machine_chest_press", "Machine Chest Press", "chest, triceps, front delts", "machine", "push", ["Poignées à hauteur du milieu de la poitrine.", "Pousse sans verrouiller brutalement les coudes.", "Reviens jusqu’à l’étirement."], ["Omoplates collées au dossier", "Tempo contrôlé au retour"]),
+  x("incline_machine_press", "Incline Machine Press", "chest, front delts, triceps", "machine", "push", ["Siège réglé pour pousser vers le haut des pecs.", "Pousse en expirant.", "Retour lent."], ["Poitrine sortie", "Épaules basses"]),
+  x("smith_bench_press", "Smith Machine Bench Press", "chest, triceps", "machine", "push", ["Banc placé pour que la barre arrive au bas des pecs.", "Déverrouille, descends contrôlé.", "Pousse puis verrouille les crochets."], ["Même placement à chaque série", "Coudes à 45°"]),
+  x("smith_incline_press", "Smith Machine Incline Press", "chest, front delts", "machine", "push", ["Banc à 30° sous la barre guidée.", "Descends vers le haut des pecs.", "Pousse."], ["Omoplates serrées", "Pas de rebond"]),
+  x("push_up", "Push-Up", "chest, triceps, front delts", "bodyweight", "push", ["Mains un peu plus larges que les épaules, corps gainé.", "Descends la poitrine près du sol.", "Pousse jusqu’aux bras tendus."], ["Corps en planche", "Coudes à 45°"], "bodyweight"),
+  x("incline_push_up", "Incline Push-Up", "chest, triceps", "bodyweight", "push", ["Mains sur un banc ou une barre.", "Descends la poitrine vers l’appui.", "Pousse."], ["Plus l’appui est haut, plus c’est facile", "Gainage du début à la fin"], "bodyweight"),
+  x("decline_push_up", "Decline Push-Up", "chest, front delts, triceps", "bodyweight", "push", ["Pieds surélevés sur un banc.", "Descends la tête vers le sol devant les mains.", "Pousse."], ["Hanches alignées", "Nuque neutre"], "bodyweight"),
+  x("deficit_push_up", "Deficit Push-Up", "chest, triceps", "bodyweight", "push", ["Mains sur des disques ou poignées.", "Descends sous le niveau des mains pour l’étirement.", "Pousse."], ["Amplitude maximale", "Contrôle en bas"], "bodyweight"),
+  x("chest_dip", "Chest Dip", "chest, triceps, front delts", "bodyweight", "push", ["Aux barres parallèles, buste penché vers l’avant.", "Descends jusqu’à l’étirement des pecs.", "Remonte sans verrouiller brutalement."], ["Penche-toi pour cibler les pecs", "Épaules loin des oreilles"], "bodyweight"),
+  x("assisted_dip", "Assisted Dip", "chest, triceps", "machine", "push", ["Genoux sur le support, contrepoids choisi.", "Descends jusqu’à 90° aux coudes ou plus.", "Remonte."], ["Moins d’aide = plus dur", "Buste légèrement penché"], "assisted"),
+  x("svend_press", "Svend Press", "chest", "other", "isolation", ["Debout, un disque serré entre les paumes devant la poitrine.", "Tends les bras devant toi en serrant fort.", "Ramène."], ["Serre le disque tout du long", "Mouvement lent"]),
+  x("db_pullover", "Dumbbell Pullover", "chest, lats", "dumbbell", "isolation", ["Haut du dos en travers d’un banc, haltère tenu à deux mains.", "Descends derrière la tête bras presque tendus.", "Ramène au-dessus de la poitrine."], ["Côtes basses", "Étirement sans douleur d’épaule"]),
+
+  // ---------- back ----------
+  x("deadlift", "Barbell Deadlift", "back, hamstrings, glutes, lower back", "barbell", "hinge", ["Pieds largeur de hanches, barre au-dessus du milieu du pied.", "Attrape la barre, tibias au contact, dos plat.", "Pousse le sol et tends hanches et genoux ensemble.", "Redescends en reculant les hanches."], ["Barre collée aux jambes", "Gainage avant de tirer"]),
+  x("sumo_deadlift", "Sumo Deadlift", "glutes, quads, adductors, back", "barbell", "hinge", ["Pieds larges, pointes ouvertes, mains entre les jambes.", "Genoux poussés vers l’extérieur, buste droit.", "Pousse le sol en écartant."], ["Hanches proches de la barre", "Poitrine haute"]),
+  x("trap_bar_deadlift", "Trap Bar Deadlift", "quads, glutes, hamstrings, back", "barbell", "hinge", ["Debout au centre de la barre hexagonale.", "Descends en fléchissant hanches et genoux.", "Pousse le sol jusqu’à l’extension."], ["Dos neutre", "Épaules au-dessus des poignées"]),
+  x("rack_pull", "Rack Pull", "back, traps, lower back, glutes", "barbell", "hinge", ["Barre posée sur les sécurités au niveau des genoux.", "Tire en poussant les hanches vers l’avant.", "Redescends contrôlé."], ["Omoplates serrées en haut", "Pas d’hyperextension"]),
+  x("deficit_deadlift", "Deficit Deadlift", "back, hamstrings, glutes", "barbell", "hinge", ["Debout sur un disque de 2–5 cm.", "Même technique que le soulevé de terre.", "Garde le dos plat malgré l’amplitude."], ["Hanches basses au départ", "Barre collée"]),
+  x("barbell_row", "Barbell Row", "back, lats, rear delts, biceps", "barbell", "pull", ["Buste penché à ~45°, dos plat, barre bras tendus.", "Tire la barre vers le nombril.", "Redescends bras tendus."], ["Coudes vers les hanches", "Pas d’élan du buste"]),
+  x("pendlay_row", "Pendlay Row", "back, lats, rear delts", "barbell", "pull", ["Buste parallèle au sol, barre au sol.", "Tire explosif jusqu’au bas des pecs.", "Repose la barre au sol à chaque rep."], ["Dos immobile", "Repars d’un arrêt complet"]),
+  x("underhand_row", "Underhand Barbell Row", "lats, back, biceps", "barbell", "pull", ["Prise supination, buste penché.", "Tire vers le bas du ventre.", "Redescends contrôlé."], ["Coudes serrés", "Dos plat"]),
+  x("t_bar_row", "T-Bar Row", "back, lats, rear delts", "barbell", "pull", ["Au-dessus de la barre en landmine, poignée en V.", "Tire vers la poitrine.", "Redescends jusqu’à l’étirement."], ["Poitrine ouverte", "Serre les omoplates en haut"]),
+  x("seal_row", "Seal Row", "back, lats, rear delts", "barbell", "pull", ["Allongé sur un banc haut, barre sous toi.", "Tire jusqu’au contact du banc.", "Redescends bras tendus."], ["Zéro triche possible : vise la charge juste", "Coudes vers l’arrière"]),
+  x("chest_supported_db_row", "Chest-Supported Dumbbell Row", "back, lats, rear delts", "dumbbell", "pull", ["Poitrine contre un banc incliné, haltères pendants.", "Tire les coudes vers l’arrière.", "Redescends à l’étirement."], ["Poitrine collée au banc", "Épaules basses"]),
+  x("1arm_row", "One-Arm Dumbbell Row", "lats, back", "dumbbell", "pull", ["Main et genou sur un banc, dos plat.", "Tire l’haltère vers la hanche.", "Redescends jusqu’à l’étirement."], ["Coude le long du corps", "Pas de rotation du buste"]),
+  x("kroc_row", "Kroc Row", "lats, back, traps", "dumbbell", "pull", ["Appui main sur un banc, haltère lourd.", "Tire fort avec un léger élan du buste.", "Séries longues de 15 à 30 reps."], ["Amplitude complète malgré l’élan", "Sangles autorisées"]),
+  x("meadows_row", "Meadows Row", "lats, back, rear delts", "barbell", "pull", ["De côté à une barre en landmine, prise par l’extrémité.", "Tire le coude haut vers l’arrière.", "Redescends jusqu’à l’étirement."], ["Hanches fixes", "Pense « coude au plafond »"]),
+  x("cable_row", "Seated Cable Row", "back, lats", "cable", "pull", ["Assis, pieds calés, buste droit.", "Tire la poignée vers le ventre.", "Relâche vers l’avant jusqu’à l’étirement."], ["Poitrine haute", "Pas de balancier du buste"]),
+  x("single_arm_cable_row", "Single-Arm Cable Row", "lats, back", "cable", "pull", ["Poignée unique à hauteur de poitrine.", "Tire le coude le long du corps.", "Laisse l’épaule avancer au retour."], ["Rotation légère permise", "Contrôle l’étirement"]),
+  x("machine_row", "Machine Row", "back, lats, rear delts", "machine", "pull", ["Poitrine contre l’appui.", "Tire les poignées vers toi.", "Reviens bras tendus."], ["Serre les omoplates", "Pas de haussement d’épaules"]),
+  x("high_row_machine", "Machine High Row", "lats, back, rear delts", "machine", "pull", ["Poignées hautes, prise neutre.", "Tire vers le bas et l’arrière.", "Remonte contrôlé."], ["Coudes vers les poches arrière", "Poitrine sortie"]),
+  x("lat_pulldown", "Lat Pulldown", "lats, back", "cable", "pull", ["Cuisses calées, prise un peu plus large que les épaules.", "Tire la barre sous le menton.", "Remonte bras tendus."], ["Poitrine vers la barre", "Coudes vers le bas"]),
+  x("close_grip_pulldown", "Close-Grip Pulldown", "lats, back, biceps", "cable", "pull", ["Poignée en V.", "Tire vers le haut des pecs.", "Remonte jusqu’à l’étirement."], ["Buste légèrement en arrière", "Coudes serrés"]),
+  x("neutral_grip_pulldown", "Neutral-Grip Pulldown", "lats, back", "cable", "pull", ["Barre à prise neutre, largeur d’épaules.", "Tire vers la poitrine.", "Remonte contrôlé."], ["Épaules basses au départ", "Pas d’élan"]),
+  x("single_arm_pulldown", "Single-Arm Pulldown", "lats", "cable", "pull", ["Poignée unique en poulie haute, à genoux ou assis.", "Tire le coude vers la hanche.", "Remonte jusqu’à l’étirement complet."], ["Pense « coude dans la poche »", "Buste stable"]),
+  x("straight_arm_pulldown", "Straight-Arm Pulldown", "lats", "cable", "isolation", ["Debout face à la poulie haute, bras tendus.", "Ramène la barre vers les cuisses en arc.", "Remonte lentement."], ["Coudes quasi tendus", "Côtes basses"]),
+  x("pullover", "Cable Pullover", "lats", "cable", "isolation", ["Corde ou barre en poulie haute, buste penché.", "Ramène vers les hanches bras tendus.", "Remonte à l’étirement."], ["Pas de flexion des coudes", "Serre les dorsaux en bas"]),
+  x("pull_up", "Pull-Up", "lats, back, biceps", "bodyweight", "pull", ["Prise pronation, un peu plus large que les épaules.", "Tire le menton au-dessus de la barre.", "Redescends bras tendus."], ["Épaules basses avant de tirer", "Pas de kipping"], "bodyweight"),
+  x("chin_up", "Chin-Up", "lats, biceps, back", "bodyweight", "pull", ["Prise supination, largeur d’épaules.", "Tire la poitrine vers la barre.", "Redescends complètement."], ["Coudes vers les côtes", "Jambes immobiles"], "bodyweight"),
+  x("neutral_grip_pull_up", "Neutral-Grip Pull-Up", "lats, back, biceps", "bodyweight", "pull", ["Poignées parallèles.", "Tire jusqu’au menton au-dessus.", "Redescends bras tendus."], ["Gainage", "Tempo contrôlé en descente"], "bodyweight"),
+  x("assisted_pull_up", "Assisted Pull-Up", "lats, back, biceps", "machine", "pull", ["Genoux sur la plateforme, contrepoids choisi.", "Tire jusqu’au menton au-dessus de la barre.", "Redescends bras tendus."], ["Diminue l’aide au fil des semaines", "Épaules basses"], "assisted"),
+  x("band_pull_up", "Band-Assisted Pull-Up", "lats, back, biceps", "band", "pull", ["Élastique accroché à la barre sous les pieds ou genoux.", "Tire comme une traction classique.", "Redescends contrôlé."], ["Élastique plus fin = progression", "Pas de rebond"], "bodyweight"),
+  x("inverted_row", "Inverted Row", "back, lats, rear delts", "bodyweight", "pull", ["Sous une barre basse, corps gainé, talons au sol.", "Tire la poitrine vers la barre.", "Redescends bras tendus."], ["Corps rigide", "Pieds surélevés pour durcir"], "bodyweight"),
+  x("barbell_shrug", "Barbell Shrug", "traps", "barbell", "isolation", ["Debout, barre bras tendus devant les cuisses.", "Monte les épaules vers les oreilles.", "Tiens 1 s puis redescends."], ["Pas de rotation des épaules", "Bras passifs"]),
+  x("db_shrug", "Dumbbell Shrug", "traps", "dumbbell", "isolation", ["Haltères le long du corps.", "Hausse les épaules au maximum.", "Redescends lentement."], ["Tête neutre", "Tiens en haut"]),
+  x("back_extension", "Back Extension", "lower back, glutes, hamstrings", "bodyweight", "hinge", ["Au banc à 45°, hanches sur l’appui.", "Descends le buste en gardant le dos neutre.", "Remonte jusqu’à l’alignement."], ["Pas d’hyperextension en haut", "Ajoute un disque contre la poitrine pour progresser"], "bodyweight"),
+  x("reverse_hyper", "Reverse Hyperextension", "glutes, lower back, hamstrings", "machine", "hinge", ["Buste allongé sur la machine, jambes pendantes.", "Monte les jambes jusqu’à l’alignement.", "Redescends contrôlé."], ["Serre les fessiers en haut", "Pas d’élan"]),
+
+  // ---------- shoulders ----------
+  x("overhead_press", "Overhead Press", "front delts, side delts, triceps", "barbell", "push", ["Debout, barre sur le haut des pecs, prise juste hors des épaules.", "Pousse au-dessus de la tête en reculant la tête.", "Finis la barre au-dessus du milieu du pied."], ["Fessiers et abdos serrés", "Passe la tête sous la barre en haut"]),
+  x("seated_db_press", "Seated Dumbbell Shoulder Press", "front delts, side delts, triceps", "dumbbell", "push", ["Banc vertical, haltères à hauteur d’oreilles.", "Pousse au-dessus de la tête.", "Redescends à hauteur de menton."], ["Dos collé au dossier", "Avant-bras verticaux"]),
+  x("standing_db_press", "Standing Dumbbell Press", "front delts, side delts, triceps", "dumbbell", "push", ["Debout, haltères aux épaules.", "Pousse au-dessus de la tête.", "Redescends contrôlé."], ["Ne cambre pas", "Gainage complet"]),
+  x("arnold_press", "Arnold Press", "front delts, side delts, triceps", "dumbbell", "push", ["Haltères devant le visage, paumes vers toi.", "Pousse en tournant les paumes vers l’avant.", "Inverse en redescendant."], ["Rotation fluide", "Charge modérée"]),
+  x("push_press", "Push Press", "front delts, triceps, quads", "barbell", "push", ["Barre en rack avant.", "Petite flexion de genoux puis impulsion.", "Finis la poussée avec les bras."], ["Flexion courte et verticale", "Talons au sol pendant l’impulsion"]),
+  x("machine_shoulder_press", "Machine Shoulder Press", "front delts, side delts, triceps", "machine", "push", ["Poignées à hauteur d’épaules.", "Pousse sans verrouiller brutalement.", "Retour lent."], ["Dos au dossier", "Pas de haussement d’épaules"]),
+  x("smith_shoulder_press", "Smith Machine Shoulder Press", "front delts, triceps", "machine", "push", ["Banc vertical sous la barre guidée.", "Descends devant le visage jusqu’au menton.", "Pousse."], ["Même position de banc à chaque fois", "Coudes légèrement en avant"]),
+  x("landmine_press", "Landmine Press", "front delts, chest, triceps", "barbell", "push", ["Extrémité de la barre à l’épaule, debout ou à genoux.", "Pousse vers le haut et l’avant.", "Redescends contrôlé."], ["Gainage anti-rotation", "Épaule basse"]),
+  x("z_press", "Z Press", "front delts, triceps, abs", "barbell", "push", ["Assis au sol jambes tendues, barre en rack avant.", "Pousse au-dessus de la tête sans appui du dos.", "Redescends."], ["Buste droit", "Charge plus légère qu’au développé militaire"]),
+  x("lateral_raise", "Lateral Raise", "side delts", "dumbbell", "isolation", ["Debout, haltères le long du corps.", "Monte les bras sur les côtés jusqu’à l’horizontale.", "Redescends lentement."], ["Coudes légèrement fléchis, devant les mains", "Pas d’élan"]),
+  x("cable_lateral_raise", "Cable Lateral Raise", "side delts", "cable", "isolation", ["Poulie basse, poignée dans la main opposée.", "Monte le bras sur le côté jusqu’à l’horizontale.", "Redescends sous tension."], ["Tension constante en bas", "Épaule basse"]),
+  x("machine_lateral_raise", "Machine Lateral Raise", "side delts", "machine", "isolation", ["Coudes contre les coussins.", "Monte jusqu’à l’horizontale.", "Redescends contrôlé."], ["Ne hausse pas les épaules", "Pause en haut"]),
+  x("lean_away_lateral_raise", "Lean-Away Lateral Raise", "side delts", "dumbbell", "isolation", ["Tiens un montant d’une main, penche-toi à l’opposé.", "Monte l’haltère sur le côté.", "Redescends lentement."], ["Amplitude plus grande en bas", "Charge légère"]),
+  x("db_front_raise", "Dumbbell Front Raise", "front delts", "dumbbell", "isolation", ["Haltères devant les cuisses.", "Monte bras tendus jusqu’à hauteur des yeux.", "Redescends contrôlé."], ["Pas de balancier", "Alterne ou à deux bras"]),
+  x("cable_front_raise", "Cable Front Raise", "front delts", "cable", "isolation", ["Dos à la poulie basse, poignée entre les jambes.", "Monte devant toi jusqu’à l’horizontale.", "Redescends."], ["Buste fixe", "Coudes souples"]),
+  x("plate_front_raise", "Plate Front Raise", "front delts", "other", "isolation", ["Disque tenu à deux mains.", "Monte devant toi à hauteur des yeux.", "Redescends lentement."], ["Pas de cambrure", "Tempo lent"]),
+  x("rear_delt_fly", "Dumbbell Rear Delt Fly", "rear delts", "dumbbell", "isolation", ["Buste penché presque à l’horizontale.", "Ouvre les bras sur les côtés.", "Redescends contrôlé."], ["Pense « écarter » plutôt que « serrer les omoplates »", "Petite charge"]),
+  x("reverse_pec_deck", "Reverse Pec Deck", "rear delts", "machine", "isolation", ["Face au dossier, poignées à hauteur d’épaules.", "Ouvre les bras vers l’arrière.", "Reviens lentement."], ["Bras quasi tendus", "Épaules basses"]),
+  x("cable_rear_delt_fly", "Cable Rear Delt Fly", "rear delts", "cable", "isolation", ["Poulies croisées à hauteur d’épaules.", "Ouvre les bras vers l’arrière.", "Reviens sous tension."], ["Mouvement en arc", "Pas de rotation du buste"]),
+  x("face_pull", "Face Pull", "rear delts, traps", "cable", "pull", ["Corde en poulie haute, prise pouces vers l’arrière.", "Tire vers le visage en écartant les mains.", "Reviens bras tendus."], ["Coudes hauts", "Finis en position « double biceps »"]),
+  x("upright_row", "Upright Row", "side delts, traps", "barbell", "pull", ["Barre devant les cuisses, prise largeur d’épaules ou plus.", "Monte les coudes jusqu’à hauteur d’épaules.", "Redescends."], ["Prise large, moins d’inconfort", "Coudes plus hauts que les mains"]),
+  x("cable_upright_row", "Cable Upright Row", "side delts, traps", "cable", "pull", ["Barre en poulie basse.", "Monte les coudes sur les côtés.", "Redescends lentement."], ["Pas au-delà des épaules", "Tension constante"]),
+  x("y_raise", "Incline Y-Raise", "rear delts, traps", "dumbbell", "isolation", ["Poitrine sur banc incliné, haltères légers.", "Monte les bras en Y au-dessus de la tête.", "Redescends."], ["Pouces vers le plafond", "Charge très légère"]),
+  x("band_pull_apart", "Band Pull-Apart", "rear delts, traps", "band", "pull", ["Élastique tenu devant toi bras tendus.", "Écarte jusqu’à toucher la poitrine.", "Reviens lentement."], ["Épaules basses", "Idéal en échauffement"]),
+  x("pike_push_up", "Pike Push-Up", "front delts, triceps", "bodyweight", "push", ["Hanches hautes en V inversé.", "Descends la tête vers le sol devant les mains.", "Pousse."], ["Pieds surélevés pour durcir", "Coudes vers l’arrière"], "bodyweight"),
+  x("handstand_push_up", "Handstand Push-Up", "front delts, triceps", "bodyweight", "push", ["En équilibre contre un mur.", "Descends la tête vers le sol.", "Pousse jusqu’aux bras tendus."], ["Gainage total", "Coussin sous la tête"], "bodyweight"),
+  x("cuban_press", "Cuban Press", "rear delts, side delts", "dumbbell", "pull", ["Rowing menton jusqu’aux coudes à 90°.", "Rotation externe des avant-bras vers le haut.", "Pousse au-dessus de la tête puis inverse."], ["Charge très légère", "Mouvement lent"]),
+
+  // ---------- biceps ----------
+  x("barbell_curl", "Barbell Curl", "biceps", "barbell", "isolation", ["Debout, prise supination largeur d’épaules.", "Monte la barre en gardant les coudes fixes.", "Redescends bras tendus."], ["Coudes collés au corps", "Pas d’élan du dos"]),
+  x("ez_curl", "EZ Bar Curl", "biceps", "barbell", "isolation", ["Prise sur les angles de la barre EZ.", "Fléchis les coudes jusqu’en haut.", "Redescends contrôlé."], ["Poignets neutres", "Contrôle la descente"]),
+  x("db_curl", "Dumbbell Curl", "biceps", "dumbbell", "isolation", ["Haltères le long du corps, paumes vers l’avant.", "Monte en supination.", "Redescends lentement."], ["Coudes fixes", "Alterne ou simultané"]),
+  x("hammer_curl", "Hammer Curl", "biceps, forearms", "dumbbell", "isolation", ["Prise neutre, pouces vers le haut.", "Monte l’haltère vers l’épaule.", "Redescends."], ["Coudes le long du corps", "Pas de rotation"]),
+  x("incline_curl", "Incline Dumbbell Curl", "biceps", "dumbbell", "isolation", ["Banc incliné à 45–60°, bras pendants.", "Monte sans avancer les coudes.", "Redescends jusqu’à l’étirement complet."], ["Étirement en bas", "Charge modérée"]),
+  x("preacher_curl", "EZ Bar Preacher Curl", "biceps", "barbell", "isolation", ["Bras posés sur le pupitre.", "Monte la barre.", "Redescends presque bras tendus."], ["Pas de rebond en bas", "Aisselles au bord du pupitre"]),
+  x("machine_preacher_curl", "Machine Preacher Curl", "biceps", "machine", "isolation", ["Bras sur l’appui, coudes alignés avec l’axe.", "Fléchis.", "Retour lent."], ["Tension en bas", "Serre en haut"]),
+  x("spider_curl", "Spider Curl", "biceps", "dumbbell", "isolation", ["Poitrine sur banc incliné, bras pendants à la verticale.", "Monte les haltères.", "Redescends."], ["Contraction maximale en haut", "Pas d’élan possible"]),
+  x("concentration_curl", "Concentration Curl", "biceps", "dumbbell", "isolation", ["Assis, coude contre l’intérieur de la cuisse.", "Monte l’haltère vers l’épaule.", "Redescends lentement."], ["Supine fort en haut", "Buste immobile"]),
+  x("cable_curl", "Cable Curl", "biceps", "cable", "isolation", ["Barre en poulie basse.", "Monte en gardant les coudes fixes.", "Redescends sous tension."], ["Tension constante", "Coudes devant les hanches"]),
+  x("bayesian_curl", "Bayesian Cable Curl", "biceps", "cable", "isolation", ["Dos à la poulie basse, bras tiré en arrière.", "Fléchis le coude vers l’avant.", "Reviens jusqu’à l’étirement."], ["Étirement du biceps en bas", "Coude fixe"]),
+  x("rope_hammer_curl", "Rope Hammer Curl", "biceps, forearms", "cable", "isolation", ["Corde en poulie basse, prise neutre.", "Monte vers les épaules.", "Redescends."], ["Écarte légèrement la corde en haut", "Coudes fixes"]),
+  x("drag_curl", "Drag Curl", "biceps", "barbell", "isolation", ["Barre contre les cuisses.", "Remonte-la le long du corps en tirant les coudes en arrière.", "Redescends."], ["Barre collée au corps", "Coudes vers l’arrière"]),
+  x("reverse_curl", "Reverse Curl", "forearms, biceps", "barbell", "isolation", ["Prise pronation.", "Monte la barre en fléchissant les coudes.", "Redescends contrôlé."], ["Poignets droits", "Charge légère"]),
+  x("zottman_curl", "Zottman Curl", "biceps, forearms", "dumbbell", "isolation", ["Monte en supination.", "Tourne les paumes vers le bas en haut.", "Redescends lentement en pronation."], ["Descente lente", "Coudes fixes"]),
+
+  // ---------- triceps ----------
+  x("close_grip_bench", "Close-Grip Bench Press", "triceps, chest", "barbell", "push", ["Prise largeur d’épaules.", "Descends vers le bas des pecs, coudes près du corps.", "Pousse."], ["Coudes serrés", "Poignets au-dessus des coudes"]),
+  x("skull_crusher", "EZ Bar Skull Crusher", "triceps", "barbell", "isolation", ["Allongé, barre au-dessus du front bras tendus.", "Fléchis les coudes vers l’arrière de la tête.", "Tends."], ["Coudes pointés au plafond", "Bras légèrement inclinés vers l’arrière"]),
+  x("db_skull_crusher", "Dumbbell Skull Crusher", "triceps", "dumbbell", "isolation", ["Allongé, haltères prise neutre.", "Descends à côté des tempes.", "Tends les bras."], ["Coudes fixes", "Charge modérée"]),
+  x("overhead_db_extension", "Overhead Dumbbell Extension", "triceps", "dumbbell", "isolation", ["Assis, un haltère tenu à deux mains au-dessus de la tête.", "Descends derrière la nuque.", "Tends."], ["Coudes vers l’avant", "Étirement en bas"]),
+  x("overhead_cable_extension", "Overhead Cable Extension", "triceps", "cable", "isolation", ["Dos à la poulie, corde au-dessus de la tête.", "Tends les bras vers l’avant.", "Reviens à l’étirement."], ["Coudes près de la tête", "Buste stable"]),
+  x("rope_pushdown", "Rope Triceps Pushdown", "triceps", "cable", "isolation", ["Corde en poulie haute, coudes au corps.", "Pousse vers le bas en écartant la corde.", "Remonte à 90°."], ["Coudes immobiles", "Écarte en bas"]),
+  x("bar_pushdown", "Bar Triceps Pushdown", "triceps", "cable", "isolation", ["Barre droite ou en V, poulie haute.", "Tends les bras vers le bas.", "Remonte contrôlé."], ["Coudes le long du corps", "Pas d’élan du buste"]),
+  x("single_arm_pushdown", "Single-Arm Cable Pushdown", "triceps", "cable", "isolation", ["Poignée unique, poulie haute.", "Tends le bras vers le bas.", "Remonte."], ["Coude fixe", "Serre en bas"]),
+  x("triceps_kickback", "Triceps Kickback", "triceps", "dumbbell", "isolation", ["Buste penché, coude plaqué au corps.", "Tends l’avant-bras vers l’arrière.", "Reviens à 90°."], ["Bras parallèle au sol", "Charge légère"]),
+  x("bench_dip", "Bench Dip", "triceps", "bodyweight", "push", ["Mains sur un banc derrière toi.", "Descends en fléchissant les coudes.", "Remonte."], ["Dos près du banc", "Pieds surélevés pour durcir"], "bodyweight"),
+  x("triceps_dip", "Triceps Dip", "triceps, chest", "bodyweight", "push", ["Aux barres, buste vertical.", "Descends jusqu’à 90°.", "Remonte bras tendus."], ["Buste droit pour cibler les triceps", "Épaules basses"], "bodyweight"),
+  x("jm_press", "JM Press", "triceps", "barbell", "push", ["Allongé, prise serrée.", "Descends la barre vers le menton en avançant les coudes.", "Pousse."], ["Hybride développé / barre au front", "Charge modérée"]),
+  x("triceps_ext", "Machine Tricep Extension", "triceps", "machine", "isolation", ["Coudes sur l’appui, alignés avec l’axe.", "Tends les bras.", "Retour lent."], ["Pas de haussement d’épaules", "Contrôle le retour"]),
+  x("diamond_push_up", "Diamond Push-Up", "triceps, chest", "bodyweight", "push", ["Mains jointes en losange sous la poitrine.", "Descends.", "Pousse."], ["Coudes serrés", "Corps gainé"], "bodyweight"),
+
+  // ---------- forearms & grip ----------
+  x("wrist_curl", "Wrist Curl", "forearms", "dumbbell", "isolation", ["Avant-bras sur les cuisses, paumes vers le haut.", "Fléchis les poignets.", "Redescends."], ["Amplitude complète", "Séries longues"]),
+  x("reverse_wrist_curl", "Reverse Wrist Curl", "forearms", "dumbbell", "isolation", ["Paumes vers le bas, avant-bras calés.", "Monte le dos de la main.", "Redescends lentement."], ["Charge légère", "Mouvement lent"]),
+  x("dead_hang", "Dead Hang", "forearms, lats", "bodyweight", "pull", ["Suspends-toi à la barre bras tendus.", "Tiens le plus longtemps possible."], ["Épaules actives", "Respire calmement"], "duration"),
+  x("plate_pinch", "Plate Pinch", "forearms", "other", "carry", ["Pince deux disques lisses entre les doigts.", "Tiens debout, bras tendu."], ["Disques face lisse vers l’extérieur", "Pouce fort"], "duration"),
+
+  // ---------- squat ----------
+  x("back_squat", "Barbell Back Squat", "quads, glutes, adductors", "barbell", "squat", ["Barre sur les trapèzes, pieds largeur d’épaules.", "Descends en poussant les genoux dans l’axe des pieds.", "Remonte en poussant le sol."], ["Gainage avant de descendre", "Poids sur tout le pied"]),
+  x("front_squat", "Front Squat", "quads, glutes, abs", "barbell", "squat", ["Barre sur les deltoïdes avant, coudes hauts.", "Descends buste droit.", "Remonte."], ["Coudes hauts", "Buste vertical"]),
+  x("low_bar_squat", "Low-Bar Squat", "glutes, quads, hamstrings, lower back", "barbell", "squat", ["Barre sous l’épine de l’omoplate.", "Hanches vers l’arrière, buste plus incliné.", "Remonte hanches et poitrine ensemble."], ["Poignets droits", "Genoux dehors"]),
+  x("pause_squat", "Pause Squat", "quads, glutes", "barbell", "squat", ["Squat classique.", "Marque 2 s d’arrêt en bas.", "Remonte sans rebond."], ["Reste gainé", "Charge réduite"]),
+  x("box_squat", "Box Squat", "glutes, hamstrings, quads", "barbell", "squat", ["Box derrière toi à hauteur de parallèle.", "Assieds-toi brièvement sans relâcher.", "Remonte."], ["Tibias verticaux", "Ne t’affale pas sur la box"]),
+  x("goblet_squat", "Goblet Squat", "quads, glutes", "dumbbell", "squat", ["Haltère ou kettlebell contre la poitrine.", "Descends entre les genoux.", "Remonte."], ["Coudes entre les genoux", "Buste droit"]),
+  x("safety_bar_squat", "Safety Bar Squat", "quads, glutes, back", "barbell", "squat", ["Barre à poignées sur les épaules.", "Descends en gardant la poitrine haute.", "Remonte."], ["Résiste à la bascule avant", "Pieds bien ancrés"]),
+  x("hack_squat", "Hack Squat", "quads, glutes", "machine", "squat", ["Dos contre le dossier, épaules sous les appuis.", "Descends profond.", "Pousse sur toute la plante."], ["Genoux au-delà des orteils autorisés", "Pas de verrouillage brutal"]),
+  x("smith_squat", "Smith Machine Squat", "quads, glutes", "machine", "squat", ["Pieds légèrement devant la barre.", "Descends.", "Pousse."], ["Placement identique chaque séance", "Dos neutre"]),
+  x("leg_press", "Leg Press", "quads, glutes", "machine", "squat", ["Pieds largeur de hanches au milieu de la plateforme.", "Descends jusqu’à ~90° ou plus sans décoller le bassin.", "Pousse sans verrouiller les genoux."], ["Bas du dos collé", "Genoux dans l’axe"]),
+  x("single_leg_press", "Single-Leg Press", "quads, glutes", "machine", "squat", ["Un pied au centre de la plateforme.", "Descends contrôlé.", "Pousse."], ["Bassin stable", "Charge réduite de moitié et plus"]),
+  x("belt_squat", "Belt Squat", "quads, glutes", "machine", "squat", ["Ceinture aux hanches, debout sur la plateforme.", "Descends profond.", "Remonte."], ["Dos déchargé", "Buste droit"]),
+  x("pendulum_squat", "Pendulum Squat", "quads", "machine", "squat", ["Épaules sous les appuis.", "Descends en arc profond.", "Pousse."], ["Amplitude complète", "Tempo contrôlé"]),
+  x("pistol_squat", "Pistol Squat", "quads, glutes", "bodyweight", "squat", ["Sur une jambe, l’autre tendue devant.", "Descends jusqu’en bas.", "Remonte."], ["Bras devant pour l’équilibre", "Talon au sol"], "bodyweight"),
+  x("sissy_squat", "Sissy Squat", "quads", "bodyweight", "squat", ["Sur la pointe des pieds, une main en appui.", "Avance les genoux en inclinant le buste en arrière.", "Remonte."], ["Hanches tendues", "Progressif"], "bodyweight"),
+  x("wall_sit", "Wall Sit", "quads", "bodyweight", "squat", ["Dos au mur, cuisses parallèles au sol.", "Tiens la position."], ["Genoux à 90°", "Respire"], "duration"),
+  x("leg_ext", "Leg Extension", "quads", "machine", "isolation", ["Axe de la machine aligné avec le genou.", "Tends les jambes.", "Redescends lentement."], ["Serre 1 s en haut", "Pas d’élan"]),
+  x("single_leg_ext", "Single-Leg Extension", "quads", "machine", "isolation", ["Une jambe à la fois.", "Tends puis redescends contrôlé."], ["Corrige les déséquilibres", "Bassin collé"]),
+
+  // ---------- lunge ----------
+  x("bulgarian_split_squat", "Bulgarian Split Squat", "quads, glutes", "dumbbell", "lunge", ["Pied arrière posé sur un banc.", "Descends le genou arrière vers le sol.", "Remonte en poussant sur le pied avant."], ["Buste penché = plus de fessiers", "Genou avant stable"]),
+  x("split_squat", "Split Squat", "quads, glutes", "dumbbell", "lunge", ["Position fendue, pieds fixes.", "Descends verticalement.", "Remonte."], ["Poids sur le pied avant", "Buste droit"]),
+  x("walking_lunge", "Walking Lunge", "quads, glutes", "dumbbell", "lunge", ["Grand pas en avant.", "Descends le genou arrière près du sol.", "Enchaîne avec l’autre jambe."], ["Pas assez long", "Genou avant dans l’axe"]),
+  x("reverse_lunge", "Reverse Lunge", "glutes, quads", "dumbbell", "lunge", ["Pas en arrière.", "Descends le genou arrière.", "Reviens à la position de départ."], ["Plus doux pour les genoux", "Buste gainé"]),
+  x("barbell_lunge", "Barbell Lunge", "quads, glutes", "barbell", "lunge", ["Barre sur le dos.", "Fente avant ou arrière.", "Reviens."], ["Équilibre d’abord", "Charge modérée"]),
+  x("lateral_lunge", "Lateral Lunge", "adductors, glutes, quads", "dumbbell", "lunge", ["Grand pas sur le côté.", "Fléchis la jambe d’appui, l’autre tendue.", "Reviens."], ["Hanches vers l’arrière", "Pied à plat"]),
+  x("step_up", "Step-Up", "quads, glutes", "dumbbell", "lunge", ["Pied sur une box.", "Monte en poussant sur la jambe haute.", "Redescends contrôlé."], ["Pas d’impulsion du pied bas", "Box à hauteur de genou"]),
+  x("smith_split_squat", "Smith Machine Split Squat", "quads, glutes", "machine", "lunge", ["Position fendue sous la barre guidée.", "Descends verticalement.", "Remonte."], ["Stable pour charger lourd", "Genou arrière proche du sol"]),
+
+  // ---------- hinge / hamstrings ----------
+  x("romanian_deadlift", "Romanian Deadlift", "hamstrings, glutes, lower back", "barbell", "hinge", ["Debout, barre aux cuisses, genoux souples.", "Recule les hanches en glissant la barre le long des jambes.", "Remonte en poussant les hanches vers l’avant."], ["Dos plat", "Stop quand les hanches ne reculent plus"]),
+  x("db_romanian_deadlift", "Dumbbell Romanian Deadlift", "hamstrings, glutes", "dumbbell", "hinge", ["Haltères devant les cuisses.", "Charnière de hanches jusqu’à l’étirement.", "Remonte."], ["Haltères près des jambes", "Nuque neutre"]),
+  x("single_leg_rdl", "Single-Leg Romanian Deadlift", "hamstrings, glutes", "dumbbell", "hinge", ["Sur une jambe, haltère dans la main opposée.", "Bascule le buste, jambe libre tendue vers l’arrière.", "Remonte."], ["Hanches parallèles au sol", "Genou d’appui souple"]),
+  x("stiff_leg_deadlift", "Stiff-Leg Deadlift", "hamstrings, lower back, glutes", "barbell", "hinge", ["Barre au sol ou aux tibias, jambes presque tendues.", "Remonte en tendant les hanches.", "Redescends dos plat."], ["Charge modérée", "Étirement contrôlé"]),
+  x("good_morning", "Good Morning", "hamstrings, lower back, glutes", "barbell", "hinge", ["Barre sur le dos, genoux souples.", "Penche le buste en reculant les hanches.", "Remonte."], ["Dos neutre", "Charge légère au début"]),
+  x("leg_curl", "Leg Curl", "hamstrings", "machine", "isolation", ["Allongé, coussin au-dessus des talons.", "Fléchis les genoux.", "Redescends lentement."], ["Hanches collées au banc", "Contrôle la descente"]),
+  x("seated_leg_curl", "Seated Leg Curl", "hamstrings", "machine", "isolation", ["Assis, cuisses bloquées.", "Fléchis les genoux au maximum.", "Remonte lentement."], ["Buste penché pour plus d’étirement", "Pas d’élan"]),
+  x("standing_leg_curl", "Standing Leg Curl", "hamstrings", "machine", "isolation", ["Une jambe à la fois.", "Fléchis le genou.", "Redescends contrôlé."], ["Bassin fixe", "Serre en haut"]),
+  x("nordic_curl", "Nordic Hamstring Curl", "hamstrings", "bodyweight", "isolation", ["À genoux, chevilles bloquées.", "Descends le buste vers l’avant le plus lentement possible.", "Rattrape-toi avec les mains puis remonte."], ["Hanches tendues", "Excentrique lent"], "bodyweight"),
+  x("glute_ham_raise", "Glute-Ham Raise", "hamstrings, glutes", "machine", "isolation", ["Genoux derrière le coussin, pieds calés.", "Descends le buste à l’horizontale.", "Remonte en fléchissant les genoux."], ["Corps aligné", "Serre les fessiers"], "bodyweight"),
+  x("kettlebell_swing", "Kettlebell Swing", "glutes, hamstrings, lower back", "kettlebell", "hinge", ["Kettlebell entre les jambes, charnière de hanches.", "Projette les hanches vers l’avant pour lancer la kettlebell.", "Laisse-la redescendre entre les jambes."], ["C’est une charnière, pas un squat", "Bras passifs"]),
+  x("cable_pull_through", "Cable Pull-Through", "glutes, hamstrings", "cable", "hinge", ["Dos à la poulie basse, corde entre les jambes.", "Recule les hanches.", "Tends les hanches en serrant les fessiers."], ["Dos plat", "Bras passifs"]),
+
+  // ---------- glutes ----------
+  x("hip_thrust", "Barbell Hip Thrust", "glutes, hamstrings", "barbell", "hinge", ["Haut du dos contre un banc, barre sur les hanches.", "Monte les hanches jusqu’à l’alignement.", "Redescends."], ["Menton rentré", "Tibias verticaux en haut"]),
+  x("machine_hip_thrust", "Machine Hip Thrust", "glutes", "machine", "hinge", ["Dos contre l’appui, sangle ou coussin sur les hanches.", "Pousse les hanches vers le haut.", "Redescends."], ["Pause en haut", "Côtes basses"]),
+  x("single_leg_hip_thrust", "Single-Leg Hip Thrust", "glutes, hamstrings", "bodyweight", "hinge", ["Épaules sur un banc, une jambe levée.", "Monte les hanches.", "Redescends."], ["Bassin horizontal", "Talon au sol"], "bodyweight"),
+  x("glute_bridge", "Glute Bridge", "glutes, hamstrings", "barbell", "hinge", ["Allongé au sol, barre ou disque sur les hanches.", "Monte les hanches.", "Redescends."], ["Serre en haut", "Pieds près des fesses"]),
+  x("cable_kickback", "Cable Glute Kickback", "glutes", "cable", "isolation", ["Sangle à la cheville, poulie basse.", "Tends la jambe vers l’arrière.", "Reviens contrôlé."], ["Pas de cambrure", "Buste penché"]),
+  x("glute_kickback_machine", "Machine Glute Kickback", "glutes", "machine", "isolation", ["Pied sur la plateforme.", "Pousse vers l’arrière.", "Reviens."], ["Hanches fixes", "Serre en fin de mouvement"]),
+  x("hip_abduction", "Hip Abduction Machine", "glutes, abductors", "machine", "isolation", ["Assis, coussins à l’extérieur des genoux.", "Écarte les jambes.", "Reviens lentement."], ["Buste penché = fessiers", "Tempo contrôlé"]),
+  x("hip_adduction", "Hip Adduction Machine", "adductors", "machine", "isolation", ["Assis, coussins à l’intérieur des genoux.", "Resserre les jambes.", "Reviens à l’étirement."], ["Amplitude confortable", "Pas d’élan"]),
+  x("frog_pump", "Frog Pump", "glutes", "bodyweight", "hinge", ["Allongé, plantes de pied jointes, genoux ouverts.", "Monte les hanches.", "Redescends."], ["Séries longues", "Serre fort en haut"], "bodyweight"),
+  x("lateral_band_walk", "Lateral Band Walk", "glutes, abductors", "band", "isolation", ["Élastique aux genoux ou chevilles, demi-squat.", "Pas latéraux sans relâcher la tension."], ["Pieds parallèles", "Buste stable"]),
+  x("copenhagen_plank", "Copenhagen Plank", "adductors, obliques", "bodyweight", "core", ["Gainage latéral, jambe du dessus sur un banc.", "Soulève les hanches et tiens."], ["Corps aligné", "Commence genou sur le banc"], "duration"),
+
+  // ---------- calves ----------
+  x("calves", "Standing Calf Raise", "calves", "machine", "isolation", ["Épaules sous les appuis, avant du pied sur la marche.", "Monte sur la pointe des pieds.", "Descends jusqu’à l’étirement complet."], ["Pause 1 s en bas", "Genoux tendus"]),
+  x("seated_calf_raise", "Seated Calf Raise", "calves", "machine", "isolation", ["Assis, genoux sous le coussin.", "Monte sur la pointe.", "Redescends à l’étirement."], ["Vise le soléaire", "Amplitude complète"]),
+  x("leg_press_calf_raise", "Leg Press Calf Raise", "calves", "machine", "isolation", ["Avant du pied sur le bas de la plateforme, jambes tendues.", "Pousse avec les chevilles.", "Reviens à l’étirement."], ["Genoux tendus mais non verrouillés", "Sécurités en place"]),
+  x("single_leg_calf_raise", "Single-Leg Calf Raise", "calves", "dumbbell", "isolation", ["Sur une marche, haltère dans la main du même côté.", "Monte sur la pointe.", "Redescends lentement."], ["Appui léger pour l’équilibre", "Étirement en bas"]),
+  x("smith_calf_raise", "Smith Machine Calf Raise", "calves", "machine", "isolation", ["Barre guidée sur le dos, pieds sur une marche.", "Monte sur la pointe.", "Redescends."], ["Pause en bas", "Pas de rebond"]),
+  x("donkey_calf_raise", "Donkey Calf Raise", "calves", "machine", "isolation", ["Buste penché, hanches sous l’appui.", "Monte sur la pointe.", "Redescends."], ["Étirement maximal", "Genoux tendus"]),
+  x("tibialis_raise", "Tibialis Raise", "calves", "bodyweight", "isolation", ["Dos au mur, talons en avant.", "Relève les pointes de pied.", "Redescends."], ["Séries longues", "Protège genoux et chevilles"], "bodyweight"),
+
+  // ---------- core ----------
+  x("plank", "Plank", "abs", "bodyweight", "core", ["Sur les avant-bras, corps aligné.", "Tiens la position."], ["Serre fessiers et abdos", "Bassin en rétroversion"], "duration"),
+  x("side_plank", "Side Plank", "obliques, abs", "bodyweight", "core", ["Sur un avant-bras, corps de profil aligné.", "Tiens, puis change de côté."], ["Hanches hautes", "Épaule au-dessus du coude"], "duration"),
+  x("hanging_leg_raise", "Hanging Leg Raise", "abs", "bodyweight", "core", ["Suspendu à la barre.", "Monte les jambes tendues jusqu’à l’horizontale ou plus.", "Redescends sans balancer."], ["Enroule le bassin", "Pas d’élan"], "bodyweight"),
+  x("hanging_knee_raise", "Hanging Knee Raise", "abs", "bodyweight", "core", ["Suspendu à la barre.", "Monte les genoux vers la poitrine.", "Redescends contrôlé."], ["Bassin enroulé en haut", "Pas de balancier"], "bodyweight"),
+  x("captains_chair", "Captain’s Chair Knee Raise", "abs", "machine", "core", ["Avant-bras sur les appuis, dos au dossier.", "Monte les genoux.", "Redescends."], ["Enroule le bassin", "Tempo lent"], "bodyweight"),
+  x("toes_to_bar", "Toes to Bar", "abs, lats", "bodyweight", "core", ["Suspendu.", "Monte les pieds jusqu’à toucher la barre.", "Redescends contrôlé."], ["Bras tendus", "Gainage"], "bodyweight"),
+  x("cable_crunch", "Cable Crunch", "abs", "cable", "core", ["À genoux face à la poulie haute, corde derrière la tête.", "Enroule le buste vers le sol.", "Remonte."], ["Hanches fixes", "Pense « côtes vers bassin »"]),
+  x("crunch", "Crunch", "abs", "bodyweight", "core", ["Allongé, genoux fléchis.", "Enroule le haut du dos.", "Redescends."], ["Bas du dos au sol", "Nuque relâchée"], "bodyweight"),
+  x("decline_sit_up", "Decline Sit-Up", "abs", "bodyweight", "core", ["Sur banc décliné, pieds calés.", "Monte le buste.", "Redescends contrôlé."], ["Disque contre la poitrine pour progresser", "Pas d’à-coups"], "bodyweight"),
+  x("reverse_crunch", "Reverse Crunch", "abs", "bodyweight", "core", ["Allongé, genoux à 90°.", "Enroule le bassin pour décoller les fesses.", "Redescends."], ["Mouvement court", "Contrôle"], "bodyweight"),
+  x("ab_wheel", "Ab Wheel Rollout", "abs", "other", "core", ["À genoux, roue sous les épaules.", "Roule vers l’avant en gardant le dos neutre.", "Reviens."], ["Ne creuse pas le dos", "Amplitude progressive"]),
+  x("dead_bug", "Dead Bug", "abs", "bodyweight", "core", ["Sur le dos, bras et genoux vers le plafond.", "Tends bras et jambe opposés.", "Reviens et alterne."], ["Bas du dos collé au sol", "Expire en tendant"], "bodyweight"),
+  x("bird_dog", "Bird Dog", "lower back, abs, glutes", "bodyweight", "core", ["À quatre pattes.", "Tends bras et jambe opposés.", "Reviens et alterne."], ["Bassin immobile", "Mouvement lent"], "bodyweight"),
+  x("pallof_press", "Pallof Press", "obliques, abs", "cable", "core", ["De profil à la poulie, poignée à la poitrine.", "Tends les bras devant toi sans tourner.", "Reviens."], ["Anti-rotation", "Hanches de face"]),
+  x("russian_twist", "Russian Twist", "obliques, abs", "other", "core", ["Assis, buste incliné, pieds décollés ou non.", "Tourne le buste d’un côté à l’autre avec un poids."], ["Rotation du buste, pas des bras", "Dos droit"]),
+  x("cable_woodchop", "Cable Woodchop", "obliques, abs", "cable", "core", ["Poulie haute, de profil.", "Tire en diagonale vers la hanche opposée.", "Reviens contrôlé."], ["Pivote sur les pieds", "Bras quasi tendus"]),
+  x("landmine_rotation", "Landmine Rotation", "obliques, abs, front delts", "barbell", "core", ["Extrémité de la barre tenue à deux mains devant toi.", "Fais un arc d’une hanche à l’autre.", "Contrôle le retour."], ["Bras tendus", "Hanches pivotent légèrement"]),
+  x("hollow_hold", "Hollow Hold", "abs", "bodyweight", "core", ["Sur le dos, jambes et épaules décollées.", "Tiens la position en banane."], ["Bas du dos au sol", "Genoux fléchis pour simplifier"], "duration"),
+  x("l_sit", "L-Sit", "abs, triceps", "bodyweight", "core", ["Aux barres ou au sol, bras tendus.", "Jambes tendues à l’horizontale, tiens."], ["Épaules basses", "Genoux fléchis pour commencer"], "duration"),
+  x("dragon_flag", "Dragon Flag", "abs", "bodyweight", "core", ["Allongé sur un banc, mains derrière la tête sur le banc.", "Monte le corps aligné sur les épaules.", "Redescends lentement."], ["Excentrique lent", "Corps droit"], "bodyweight"),
+  x("v_up", "V-Up", "abs", "bodyweight", "core", ["Allongé bras tendus derrière la tête.", "Monte bras et jambes pour se toucher.", "Redescends."], ["Jambes tendues", "Contrôle"], "bodyweight"),
+  x("mountain_climber", "Mountain Climber", "abs, front delts", "bodyweight", "core", ["En position de pompe.", "Ramène les genoux vers la poitrine en alternance, vite."], ["Hanches basses", "Épaules au-dessus des mains"], "duration"),
+
+  // ---------- carries & full body ----------
+  x("farmer_walk", "Farmer’s Walk", "forearms, traps, abs", "dumbbell", "carry", ["Un haltère lourd dans chaque main.", "Marche à petits pas sur la distance prévue."], ["Épaules basses et en arrière", "Buste droit"], "distance"),
+  x("suitcase_carry", "Suitcase Carry", "obliques, forearms, abs", "dumbbell", "carry", ["Un seul haltère d’un côté.", "Marche sans pencher."], ["Résiste à l’inclinaison", "Change de main"], "distance"),
+  x("overhead_carry", "Overhead Carry", "front delts, abs, traps", "kettlebell", "carry", ["Charge tenue bras tendu au-dessus de la tête.", "Marche lentement."], ["Biceps près de l’oreille", "Côtes basses"], "distance"),
+  x("trap_bar_carry", "Trap Bar Carry", "forearms, traps, quads", "barbell", "carry", ["Soulève la barre hexagonale comme un soulevé de terre.", "Marche sur la distance."], ["Pas courts", "Gainage"], "distance"),
+  x("sled_push", "Sled Push", "quads, glutes, calves", "other", "carry", ["Mains sur les montants, corps incliné.", "Pousse en petits pas puissants."], ["Dos plat", "Pousse avec les jambes"], "distance"),
+  x("sled_pull", "Sled Pull", "hamstrings, back, glutes", "other", "carry", ["Sangle ou corde attachée au traîneau.", "Tire en marchant à reculons ou main sur main."], ["Gainage", "Rythme régulier"], "distance"),
+  x("turkish_get_up", "Turkish Get-Up", "front delts, abs, glutes", "kettlebell", "core", ["Allongé, kettlebell bras tendu.", "Relève-toi étape par étape jusqu’à debout.", "Redescends dans l’ordre inverse."], ["Regard sur la kettlebell", "Bras vertical tout du long"]),
+  x("goblet_kb_squat", "Kettlebell Goblet Squat", "quads, glutes", "kettlebell", "squat", ["Kettlebell tenue par les cornes contre la poitrine.", "Descends profond.", "Remonte."], ["Coudes entre les genoux", "Talons au sol"]),
+  x("kb_clean_press", "Kettlebell Clean and Press", "front delts, glutes, triceps", "kettlebell", "push", ["Épaulé de la kettlebell en rack.", "Pousse au-dessus de la tête.", "Redescends et recommence."], ["Kettlebell qui roule autour du poignet", "Gainage"]),
+  x("power_clean", "Power Clean", "glutes, hamstrings, traps, quads", "barbell", "hinge", ["Départ comme un soulevé de terre.", "Extension explosive des hanches.", "Réception en rack avant, demi-squat."], ["Barre proche du corps", "Coudes rapides"]),
+  x("hang_clean", "Hang Clean", "glutes, traps, quads", "barbell", "hinge", ["Barre aux cuisses, légère charnière.", "Extension explosive.", "Réception en rack avant."], ["Hanches, puis bras", "Coudes hauts à la réception"]),
+  x("thruster", "Barbell Thruster", "quads, glutes, front delts", "barbell", "squat", ["Barre en rack avant.", "Front squat puis poussée au-dessus de la tête en un mouvement."], ["Utilise l’élan des jambes", "Coudes hauts en bas"]),
+  x("burpee", "Burpee", "quads, chest, abs", "bodyweight", "squat", ["Accroupi, mains au sol, saute en planche.", "Pompe optionnelle, ramène les pieds.", "Saute bras en l’air."], ["Rythme régulier", "Atterris souplement"], "bodyweight"),
+  x("box_jump", "Box Jump", "quads, glutes, calves", "bodyweight", "squat", ["Face à la box, pieds largeur de hanches.", "Saute et atterris en squat sur la box.", "Redescends en marchant."], ["Atterrissage silencieux", "Qualité plutôt que hauteur"], "bodyweight"),
+  x("battle_ropes", "Battle Ropes", "front delts, abs, forearms", "other", "core", ["Demi-squat, une corde dans chaque main.", "Fais des vagues rapides en alternance."], ["Gainage", "Respire"], "duration"),
+
+  // ---------- cardio ----------
+  x("treadmill_run", "Treadmill Run", "legs", "machine", undefined, ["Commence par 5 min de marche rapide.", "Cours à allure de conversation ou selon ton plan."], ["Foulée courte et rapide", "Pas besoin de s’accrocher aux montants"], "distance"),
+  x("outdoor_run", "Outdoor Run", "legs", "other", undefined, ["Échauffe-toi en marchant ou trottinant.", "Cours la distance prévue."], ["Allure régulière", "Augmente le volume de 10 % max par semaine"], "distance"),
+  x("rowing_erg", "Rowing Machine", "back, legs, biceps", "machine", undefined, ["Pieds sanglés, prise de la poignée.", "Pousse les jambes, bascule le buste, tire les bras.", "Reviens dans l’ordre inverse."], ["Jambes, buste, bras", "La poussée vient des jambes"], "distance"),
+  x("stationary_bike", "Stationary Bike", "quads, legs", "machine", undefined, ["Selle à hauteur de hanche debout.", "Pédale à la résistance et à la durée prévues."], ["Genou légèrement fléchi en bas", "Cadence régulière"], "duration"),
+  x("assault_bike", "Air Bike", "legs, front delts", "machine", undefined, ["Pédale et pousse/tire les bras ensemble.", "Alterne sprints et récupération selon ton plan."], ["Plus tu pousses, plus ça résiste", "Buste stable"], "duration"),
+  x("elliptical", "Elliptical Trainer", "legs", "machine", undefined, ["Pieds à plat sur les pédales.", "Mouvement fluide bras et jambes."], ["Ne t’appuie pas sur les bras", "Résistance modérée"], "duration"),
+  x("stair_climber", "Stair Climber", "glutes, quads, calves", "machine", undefined, ["Monte à vitesse régulière.", "Tiens la durée prévue."], ["Buste droit", "Mains juste posées"], "duration"),
+  x("incline_walk", "Incline Treadmill Walk", "glutes, calves, legs", "machine", undefined, ["Tapis incliné à 8–15 %.", "Marche à vitesse soutenue."], ["Lâche les barres", "Pas complets"], "duration"),
+  x("jump_rope", "Jump Rope", "calves, legs", "other", undefined, ["Corde à bonne longueur, coudes près du corps.", "Petits sauts sur l’avant du pied."], ["Rotation par les poignets", "Sauts bas"], "duration"),
+  x("swimming", "Swimming", "back, lats, legs", "other", undefined, ["Échauffe-toi avec quelques longueurs lentes.", "Nage la distance prévue."], ["Respiration régulière", "Allonge la coulée"], "distance"),
+];
+
+export const CATALOG_BY_ID = new Map(CATALOG.map((c) => [c.id, c]));
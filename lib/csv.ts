@@ -0,0 +1,60 @@
+import { AppState, Exo, Unit, dayLabel, dayOfISO } from "./state";
+import { showWeight } from "./units";
+import { dailyTotals, goalOf } from "./water";
+
+export type CsvOptions = {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  decimal: "." | ",";
+  unit: Unit; // weight columns are named and converted accordingly
+};
+
+// French Excel reads "," as the decimal mark, so it expects ";" between fields.
+const separatorFor = (o: CsvOptions) => (o.decimal === "," ? ";" : ",");
+
+// Dates and times are both local, so a row's date and time are the same day.
+const inRange = (dateISO: string, o: CsvOptions) => {
+  const d = dayOfISO(dateISO);
+  return (!o.from || d >= o.from) && (!o.to || d <= o.to);
+};
+
+function cell(v: string | number | undefined, o: CsvOptions) {
+  if (v === undefined) return "";
+  const s = typeof v === "number" ? String(v).replace(".", o.decimal) : v;
+  return s.includes(separatorFor(o)) || /["\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function toCsv(header: string[], rows: (string | number | undefined)[][], o: CsvOptions) {
+  const sep = separatorFor(o);
+  // BOM so Excel opens the file as UTF-8 (accents in notes and exercise names)
+  return "\uFEFF" + [header, ...rows].map((r) => r.map((v) => cell(v, o)).join(sep)).join("\r\n") + "\r\n";
+}
+
+export function setsCsv(state: AppState, exoById: Map<string, Exo>, o: CsvOptions) {
+  const rows = state.logs
+    .filter((l) => inRange(l.dateISO, o))
+    .sort((a, b) => a.dateISO.localeCompare(b.dateISO))
+    .flatMap((l) =>
+      l.sets.map((s, i) => {
+        const exo = exoById.get(s.exoId);
+        return [dayOfISO(l.dateISO), new Date(l.dateISO).toTimeString().slice(0, 5), dayLabel(l, state.workoutTemplates), l.notes, i + 1, exo?.name ?? s.exoId, exo?.muscles.join(" / "), s.kind ?? "working", showWeight(s.weightKg, o.unit), s.reps, s.durationSec, s.distanceM, s.rpe, s.rir, s.tempo];
+      })
+    );
+  return toCsv(["date", "time", "day", "session_notes", "set_no", "exercise", "muscles", "set_type", `weight_${o.unit}`, "reps", "duration_s", "distance_m", "rpe", "rir", "tempo"], rows, o);
+}
+
+export function bodyweightCsv(state: AppState, o: CsvOptions) {
+  const rows = state.bodyweight
+    .filter((w) => inRange(w.dateISO, o))
+    .sort((a, b) => a.dateISO.localeCompare(b.dateISO))
+    .map((w) => [w.dateISO, showWeight(w.weightKg, o.unit)]);
+  return toCsv(["date", `weight_${o.unit}`], rows, o);
+}
+
+export function waterCsv(state: AppState, o: CsvOptions) {
+  const rows = [...dailyTotals(state.waterLog, state.water)]
+    .filter(([d]) => inRange(d, o))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([d, ml]) => [d, ml, goalOf(state, d)]);
+  return toCsv(["date", "water_ml", "goal_ml"], rows, o);
+}
@@ -0,0 +1,95 @@
+// Thin promise wrapper around IndexedDB. Each slice of AppState that grows over time
+// gets its own object store so a save only touches the records that changed.
+
+export type StoreName = "logs" | "drafts" | "bodyweight" | "water" | "reminders" | "meta" | "quarantine" | "photos" | "inbox" | "events" | "doses" | "drinks" | "watergoals";
+export type DatedStore = "logs" | "bodyweight" | "water";
+
+export type WriteOp = { store: StoreName; clear?: true; put?: unknown; del?: IDBValidKey };
+
+export interface DataStore {
+  get<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined>;
+  getAll<T>(store: StoreName): Promise<T[]>;
+  // inclusive range on the store's date (YYYY-MM-DD prefixes match whole days)
+  query<T>(store: DatedStore, fromISO: string, toISO: string): Promise<T[]>;
+  put(store: StoreName, value: unknown): Promise<void>;
+  // all ops run in a single transaction
+  write(ops: WriteOp[]): Promise<void>;
+}
+
+const DB_NAME = "myallinone";
+const DB_VERSION = 7;
+
+function req<T>(r: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    r.onsuccess = () => resolve(r.result);
+    r.onerror = () => reject(r.error);
+  });
+}
+
+function done(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function open(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const r = indexedDB.open(DB_NAME, DB_VERSION);
+    r.onupgradeneeded = (e) => {
+      const db = r.result;
+      if (e.oldVersion < 1) {
+        db.createObjectStore("logs", { keyPath: "id" }).createIndex("date", "dateISO");
+        db.createObjectStore("bodyweight", { keyPath: "dateISO" });
+        db.createObjectStore("water", { keyPath: "date" });
+        db.createObjectStore("reminders", { keyPath: "id" });
+        db.createObjectStore("meta", { keyPath: "key" });
+        db.createObjectStore("quarantine", { autoIncrement: true });
+      }
+      // in-progress workout sessions
+      if (e.oldVersion < 2) db.createObjectStore("drafts", { keyPath: "id" });
+      // exercise photos, as blobs outside AppState
+      if (e.oldVersion < 3) db.createObjectStore("photos", { keyPath: "id" });
+      // notification actions taken while the app was closed (written by public/sw.js)
+      if (e.oldVersion < 4) db.createObjectStore("inbox", { autoIncrement: true });
+      // reminder fires / answers and supplement doses
+      if (e.oldVersion < 5) {
+        db.createObjectStore("events", { keyPath: "id" });
+        db.createObjectStore("doses", { keyPath: "id" });
+      }
+      // timestamped water entries; "water" only holds per-day totals from before schema 16
+      if (e.oldVersion < 6) db.createObjectStore("drinks", { keyPath: "id" });
+      // each day's water goal
+      if (e.oldVersion < 7) db.createObjectStore("watergoals", { keyPath: "date" });
+    };
+    r.onsuccess = () => resolve(r.result);
+    r.onerror = () => reject(r.error);
+  });
+}
+
+export async function openDataStore(): Promise<DataStore> {
+  const db = await open();
+  const write = async (ops: WriteOp[]) => {
+    if (ops.length === 0) return;
+    const tx = db.transaction([...new Set(ops.map((o) => o.store))], "readwrite");
+    ops.forEach((o) => {
+      const s = tx.objectStore(o.store);
+      if (o.clear) s.clear();
+      if (o.del !== undefined) s.delete(o.del);
+      if (o.put !== undefined) s.put(o.put);
+    });
+    return done(tx);
+  };
+  return {
+    get: (store, key) => req(db.transaction(store).objectStore(store).get(key)),
+    getAll: (store) => req(db.transaction(store).objectStore(store).getAll()),
+    query: (store, fromISO, toISO) => {
+      const s = db.transaction(store).objectStore(store);
+      const range = IDBKeyRange.bound(fromISO, toISO + "\uffff");
+      return req(store === "logs" ? s.index("date").getAll(range) : s.getAll(range));
+    },
+    put: (store, value) => write([{ store, put: value }]),
+    write,
+  };
+}
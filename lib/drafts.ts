@@ -0,0 +1,21 @@
+import { DayTemplate, WorkoutLog, uid } from "./state";
+
+// In-progress sessions live in AppState.drafts so they are persisted like
+// everything else and survive a reload or a killed tab.
+
+export const newDraft = (dayId: string): WorkoutLog => ({ id: uid(), dateISO: new Date().toISOString(), dayId, dayName: "", sets: [] });
+
+// A draft is created lazily on its first edit; untouched blanks are never stored.
+export function upsertDraft(drafts: WorkoutLog[], d: WorkoutLog) {
+  return drafts.some((x) => x.id === d.id) ? drafts.map((x) => (x.id === d.id ? d : x)) : [...drafts, d];
+}
+
+// When the session actually started: first logged set, else when the draft was opened.
+export const draftStart = (d: WorkoutLog) => d.sets.find((s) => s.at)?.at ?? d.dateISO;
+
+// Turns a draft into a log to save. `keepDate` dates it when it was performed
+// (for a session resumed the next day) instead of now.
+export function finalizeDraft(d: WorkoutLog, days: DayTemplate[], keepDate: boolean): WorkoutLog {
+  const day = days.find((x) => x.id === d.dayId) ?? days[0];
+  return { ...d, id: uid(), dateISO: keepDate ? draftStart(d) : new Date().toISOString(), dayId: day?.id ?? d.dayId, dayName: day?.name ?? d.dayName };
+}
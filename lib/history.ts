@@ -0,0 +1,40 @@
+import { DayTemplate, Exo, WorkoutLog, dayLabel, dayOfISO } from "./state";
+
+export type HistoryFilter = {
+  query: string; // matches day name, notes and exercise names
+  dayId: string; // "" = any
+  exoId: string; // "" = any
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+};
+
+export const EMPTY_FILTER: HistoryFilter = { query: "", dayId: "", exoId: "", from: "", to: "" };
+
+const fold = (s: string) => s.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+
+export function filterLogs(logs: WorkoutLog[], f: HistoryFilter, days: DayTemplate[], exoById: Map<string, Exo>) {
+  const q = fold(f.query.trim());
+  return logs
+    .filter((l) => {
+      const d = dayOfISO(l.dateISO);
+      if ((f.from && d < f.from) || (f.to && d > f.to)) return false;
+      if (f.dayId && l.dayId !== f.dayId) return false;
+      if (f.exoId && !l.sets.some((s) => s.exoId === f.exoId)) return false;
+      if (!q) return true;
+      const text = [dayLabel(l, days), l.notes ?? "", ...l.sets.map((s) => exoById.get(s.exoId)?.name ?? s.exoId)].join(" ");
+      return fold(text).includes(q);
+    })
+    .sort((a, b) => b.dateISO.localeCompare(a.dateISO));
+}
+
+// Replaces a log in place, keeping the newest-first order the rest of the app expects.
+export const replaceLog = (logs: WorkoutLog[], next: WorkoutLog) =>
+  logs.map((l) => (l.id === next.id ? next : l)).sort((a, b) => b.dateISO.localeCompare(a.dateISO));
+
+export const removeLog = (logs: WorkoutLog[], id: string) => logs.filter((l) => l.id !== id);
+
+// <input type="datetime-local"> works in local time without a zone.
+export function toLocalInput(iso: string) {
+  const d = new Date(iso);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
@@ -0,0 +1,331 @@
+import { AppState, DayTemplate, Exo, SetEntry, SetKind, WorkoutLog, uid } from "./state";
+import { newEntry } from "./templates";
+import { LB } from "./units";
+
+// Importers for the CSV exports of Strong and Hevy. Parsing produces an ImportPlan
+// the user can review (exercise matches, day mapping, skipped rows) before
+// applyImport turns it into WorkoutLog records.
+
+export type ImportSource = "strong" | "hevy";
+
+export type ImportedSet = { exerciseName: string; weightKg: number; reps: number; durationSec?: number; distanceM?: number; rpe?: number; kind?: SetKind };
+
+// Strong's "Set Order" column and Hevy's set_type, mapped to our set kinds.
+const STRONG_KINDS: Record<string, SetKind> = { W: "warmup", D: "drop", F: "failure" };
+const HEVY_KINDS: Record<string, SetKind> = { warmup: "warmup", dropset: "drop", failure: "failure" };
+export type ImportedSession = { key: string; dateISO: string; name: string; notes?: string; sets: ImportedSet[] };
+
+export type ExerciseChoice = { kind: "existing"; exoId: string } | { kind: "new" } | { kind: "skip" };
+export type ExerciseMatch = {
+  name: string;
+  sets: number;
+  candidates: { exoId: string; score: number }[]; // best first
+  ambiguous: boolean;
+  choice: ExerciseChoice;
+};
+
+export type ImportPlan = {
+  source: ImportSource;
+  sessions: ImportedSession[];
+  exercises: ExerciseMatch[];
+  days: Record<string, string>; // workout name -> day id, or NEW_DAY to create one named after the workout
+  skipped: { line: number; reason: string }[];
+};
+
+export const NEW_DAY = "";
+
+const MILE_KM = 1.609344;
+
+export function parseCsv(text: string, sep: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cur = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else if (c === '"') quoted = false;
+      else cur += c;
+    } else if (c === '"') quoted = true;
+    else if (c === sep) {
+      row.push(cur);
+      cur = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i++;
+      row.push(cur);
+      rows.push(row);
+      row = [];
+      cur = "";
+    } else cur += c;
+  }
+  if (cur || row.length) rows.push([...row, cur]);
+  return rows.filter((r) => r.some((v) => v.trim() !== ""));
+}
+
+const num = (s: string | undefined) => {
+  if (s === undefined || s.trim() === "") return undefined;
+  const n = Number(s.trim().replace(",", "."));
+  return Number.isFinite(n) ? n : undefined;
+};
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function parseDate(s: string): string | undefined {
+  // Strong: "2021-03-01 18:23:45"
+  let m = s.match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{1,2}):(\d{2})(?::(\d{2}))?/);
+  if (m) return new Date(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +(m[6] || 0)).toISOString();
+  // Hevy: "26 Jan 2024, 18:02"
+  m = s.match(/^(\d{1,2}) (\w{3})\w* (\d{4}),? (\d{1,2}):(\d{2})/);
+  if (m && MONTHS.includes(m[2].toLowerCase())) return new Date(+m[3], MONTHS.indexOf(m[2].toLowerCase()), +m[1], +m[4], +m[5]).toISOString();
+  const t = Date.parse(s);
+  return Number.isNaN(t) ? undefined : new Date(t).toISOString();
+}
+
+export function detectSource(header: string[]): ImportSource | null {
+  const h = header.map((x) => x.trim().toLowerCase());
+  if (h.includes("exercise_title") && h.includes("start_time")) return "hevy";
+  if (h.includes("exercise name") && h.includes("set order")) return "strong";
+  return null;
+}
+
+type Row = (col: string) => string | undefined;
+
+function readRows(text: string) {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const sep = firstLine.split(";").length > firstLine.split(",").length ? ";" : ",";
+  const [header = [], ...body] = parseCsv(text, sep);
+  const idx = new Map(header.map((h, i) => [h.trim().toLowerCase(), i]));
+  const rows = body.map((r): Row => (col) => {
+    const i = idx.get(col);
+    return i === undefined ? undefined : r[i]?.trim();
+  });
+  return { header, rows };
+}
+
+export function parseWorkoutCsv(text: string, state: AppState, opts: { strongInLb?: boolean } = {}): ImportPlan {
+  const { header, rows } = readRows(text);
+  const source = detectSource(header);
+  if (!source) throw new Error("format non reconnu (export Strong ou Hevy attendu)");
+
+  const sessions = new Map<string, ImportedSession>();
+  const skipped: ImportPlan["skipped"] = [];
+
+  rows.forEach((get, i) => {
+    const line = i + 2;
+    const skip = (reason: string) => skipped.push({ line, reason });
+    let dateRaw: string | undefined, name: string | undefined, notes: string | undefined, exerciseName: string | undefined;
+    let weight: number | undefined, reps: number | undefined, rpe: number | undefined, setKind: SetKind | undefined;
+    let seconds: number | undefined, km: number | undefined;
+
+    if (source === "strong") {
+      dateRaw = get("date");
+      name = get("workout name");
+      notes = get("workout notes");
+      exerciseName = get("exercise name");
+      const order = get("set order");
+      if (order === "Rest Timer") return; // timer rows carry no set data
+      setKind = STRONG_KINDS[order ?? ""];
+      const unit = get("weight unit");
+      const lb = unit ? /lb/i.test(unit) : !!opts.strongInLb;
+      weight = num(get("weight"));
+      if (weight !== undefined && lb) weight *= LB;
+      reps = num(get("reps"));
+      rpe = num(get("rpe"));
+      seconds = num(get("seconds"));
+      km = num(get("distance"));
+      if (km !== undefined && /mi/i.test(get("distance unit") ?? "")) km *= MILE_KM;
+    } else {
+      dateRaw = get("start_time");
+      name = get("title");
+      notes = get("description");
+      exerciseName = get("exercise_title");
+      const lbs = num(get("weight_lbs"));
+      weight = num(get("weight_kg")) ?? (lbs !== undefined ? lbs * LB : undefined);
+      reps = num(get("reps"));
+      rpe = num(get("rpe"));
+      setKind = HEVY_KINDS[get("set_type") ?? ""];
+      seconds = num(get("duration_seconds"));
+      km = num(get("distance_km"));
+    }
+
+    const dateISO = dateRaw ? parseDate(dateRaw) : undefined;
+    if (!dateISO) return skip(`date illisible « ${dateRaw ?? ""} »`);
+    if (!exerciseName) return skip("exercice manquant");
+    if (!reps && !seconds && !km) return skip(`série vide (${exerciseName})`);
+
+    const key = `${dateRaw}|${name ?? ""}`;
+    let s = sessions.get(key);
+    if (!s) sessions.set(key, (s = { key, dateISO, name: name || "Séance", notes: notes || undefined, sets: [] }));
+    s.sets.push({
+      exerciseName,
+      weightKg: Math.round((weight ?? 0) * 100) / 100,
+      reps: reps ?? 0,
+      durationSec: seconds || undefined,
+      distanceM: km ? Math.round(km * 1000) : undefined,
+      rpe,
+      kind: setKind,
+    });
+  });
+
+  const counts = new Map<string, number>();
+  sessions.forEach((s) => s.sets.forEach((x) => counts.set(x.exerciseName, (counts.get(x.exerciseName) || 0) + 1)));
+  const exercises = [...counts].map(([name, sets]) => matchExercise(name, sets, state.exercises));
+
+  const list = [...sessions.values()].sort((a, b) => a.dateISO.localeCompare(b.dateISO));
+  const days: Record<string, string> = {};
+  list.forEach((s) => (days[s.name] ??= guessDay(s.name, list.filter((x) => x.name === s.name), exercises, state)));
+
+  return { source, sessions: list, exercises, days, skipped };
+}
+
+// ---------- fuzzy exercise matching ----------
+
+const STOP = new Set(["the", "a", "de", "du", "la", "le", "with", "on", "machine"]);
+const ALIASES: Record<string, string> = { db: "dumbbell", dumbbells: "dumbbell", bb: "barbell", bicep: "biceps", tricep: "triceps", raises: "raise", curls: "curl", rows: "row", presses: "press", extensions: "extension", pulldowns: "pulldown" };
+
+function tokens(name: string) {
+  return new Set(
+    name
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((t) => t && !STOP.has(t))
+      .map((t) => ALIASES[t] ?? t)
+  );
+}
+
+// Dice coefficient over word sets: word order ("Bench Press (Barbell)" vs "Barbell Bench Press") doesn't matter.
+export function similarity(a: string, b: string) {
+  const ta = tokens(a);
+  const tb = tokens(b);
+  if (!ta.size || !tb.size) return 0;
+  const common = [...ta].filter((t) => tb.has(t)).length;
+  return (2 * common) / (ta.size + tb.size);
+}
+
+const AUTO_MATCH = 0.8;
+const MIN_CANDIDATE = 0.4;
+
+function matchExercise(name: string, sets: number, library: Exo[]): ExerciseMatch {
+  const candidates = library
+    .map((e) => ({ exoId: e.id, score: similarity(name, e.name) }))
+    .filter((c) => c.score >= MIN_CANDIDATE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 5);
+  const [best, second] = candidates;
+  const ambiguous = !!best && (best.score < AUTO_MATCH || (!!second && second.score === best.score));
+  const choice: ExerciseChoice = best && best.score >= AUTO_MATCH ? { kind: "existing", exoId: best.exoId } : { kind: "new" };
+  return { name, sets, candidates, ambiguous, choice };
+}
+
+function guessDay(name: string, sessions: ImportedSession[], exercises: ExerciseMatch[], state: AppState): string {
+  const byName = state.workoutTemplates.find((d) => similarity(name, d.name) >= 0.5);
+  if (byName) return byName.id;
+  // otherwise: the day that shares the most matched exercises
+  const matched = new Map(exercises.flatMap((e) => (e.choice.kind === "existing" ? [[e.name, e.choice.exoId] as const] : [])));
+  const score = (d: DayTemplate) =>
+    sessions.reduce((acc, s) => acc + s.sets.filter((x) => d.entries.some((t) => t.exoId === matched.get(x.exerciseName))).length, 0);
+  const best = state.workoutTemplates.reduce<DayTemplate | null>((b, d) => (score(d) > (b ? score(b) : 0) ? d : b), null);
+  return best?.id ?? NEW_DAY;
+}
+
+// ---------- apply ----------
+
+export const exoSlug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, "_").slice(0, 40);
+
+// Case, accents and spacing don't make a different exercise.
+const normName = (name: string) => name.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/\s+/g, " ").trim();
+
+function hash(key: string) {
+  let h = 0;
+  for (let i = 0; i < key.length; i++) h = (Math.imul(31, h) + key.charCodeAt(i)) | 0;
+  return (h >>> 0).toString(36);
+}
+
+// Stable ids so importing the same file twice doesn't duplicate logs or exercises.
+const sessionId = (source: ImportSource, key: string) => `import_${source}_${hash(key)}`;
+const importedExoId = (name: string) => `${exoSlug(normName(name))}_${hash(normName(name))}`;
+
+// New exercises logged without reps are timed or distance work.
+function guessMode(sets: ImportedSet[]): Exo["mode"] {
+  if (sets.some((x) => x.reps > 0)) return undefined;
+  if (sets.some((x) => x.distanceM)) return "distance";
+  return sets.some((x) => x.durationSec) ? "duration" : undefined;
+}
+
+// Exports only flag drop sets; hang each one off the set of the same exercise before it.
+function linkDrops(sets: SetEntry[]): SetEntry[] {
+  const out = sets.map((x) => ({ ...x }));
+  out.forEach((x, i) => {
+    if (x.kind !== "drop") return;
+    const parent = out.slice(0, i).reverse().find((p) => p.exoId === x.exoId && p.kind !== "drop" && p.kind !== "warmup");
+    if (!parent) return;
+    parent.id ??= uid();
+    x.parentId = parent.id;
+  });
+  return out;
+}
+
+export function applyImport(state: AppState, plan: ImportPlan): { state: AppState; logs: number; sets: number } {
+  const newExos: Exo[] = [];
+  const exoFor = new Map<string, string>();
+  // "new" reuses an exercise of the same name, or the one an earlier import of it created
+  const ids = new Set(state.exercises.map((e) => e.id));
+  const byName = new Map(state.exercises.map((e) => [normName(e.name), e.id]));
+  plan.exercises.forEach((m) => {
+    if (m.choice.kind === "existing") exoFor.set(m.name, m.choice.exoId);
+    else if (m.choice.kind === "new") {
+      const id = importedExoId(m.name);
+      const known = byName.get(normName(m.name)) ?? (ids.has(id) ? id : undefined);
+      if (known) return exoFor.set(m.name, known);
+      newExos.push({ id, name: m.name, muscles: [], mode: guessMode(plan.sessions.flatMap((s) => s.sets.filter((x) => x.exerciseName === m.name))) });
+      byName.set(normName(m.name), id);
+      exoFor.set(m.name, id);
+    }
+  });
+
+  const newDays = new Map<string, DayTemplate>();
+  const dayFor = (s: ImportedSession): DayTemplate | undefined => {
+    const id = plan.days[s.name];
+    if (id !== NEW_DAY) return state.workoutTemplates.find((d) => d.id === id);
+    let day = newDays.get(s.name);
+    if (!day) newDays.set(s.name, (day = { id: uid(), name: s.name, entries: [] }));
+    s.sets.forEach((x) => {
+      const exoId = exoFor.get(x.exerciseName);
+      if (exoId && !day.entries.some((e) => e.exoId === exoId)) day.entries.push(newEntry(exoId));
+    });
+    return day;
+  };
+
+  const logs: WorkoutLog[] = plan.sessions
+    .map((s) => {
+      const day = dayFor(s);
+      return {
+        id: sessionId(plan.source, s.key),
+        dateISO: s.dateISO,
+        dayId: day?.id ?? "",
+        dayName: day?.name ?? s.name,
+        notes: [s.name, s.notes].filter(Boolean).join(" — "),
+        sets: linkDrops(
+          s.sets.flatMap((x): SetEntry[] => {
+            const exoId = exoFor.get(x.exerciseName);
+            return exoId ? [{ exoId, weightKg: x.weightKg, reps: x.reps, durationSec: x.durationSec, distanceM: x.distanceM, rpe: x.rpe, kind: x.kind }] : [];
+          })
+        ),
+      };
+    })
+    .filter((l) => l.sets.length > 0);
+
+  const logIds = new Set(logs.map((l) => l.id));
+  const merged = [...logs, ...state.logs.filter((l) => !logIds.has(l.id))].sort((a, b) => b.dateISO.localeCompare(a.dateISO));
+  return {
+    state: { ...state, exercises: [...state.exercises, ...newExos], workoutTemplates: [...state.workoutTemplates, ...newDays.values()], logs: merged },
+    logs: logs.length,
+    sets: logs.reduce((n, l) => n + l.sets.length, 0),
+  };
+}
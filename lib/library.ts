@@ -0,0 +1,103 @@
+import { AppState, DayTemplate, Equipment, Exo, MovementPattern, WorkoutLog } from "./state";
+import { exoSlug, similarity } from "./importers";
+
+export const PATTERN_LABELS: Record<MovementPattern, string> = {
+  push: "Poussée",
+  pull: "Tirage",
+  squat: "Squat",
+  hinge: "Charnière (hip hinge)",
+  lunge: "Fente",
+  carry: "Porté",
+  core: "Gainage / abdos",
+  isolation: "Isolation",
+};
+
+export type LibraryFilter = {
+  query: string; // matches name and muscles
+  muscle: string; // "" = any
+  equipment: Equipment | ""; // "" = any
+  pattern: MovementPattern | ""; // "" = any
+};
+
+export const EMPTY_LIBRARY_FILTER: LibraryFilter = { query: "", muscle: "", equipment: "", pattern: "" };
+
+const fold = (s: string) => s.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+
+export function filterExercises<T extends Exo>(exos: T[], f: LibraryFilter) {
+  const q = fold(f.query.trim());
+  return exos
+    .filter((e) => {
+      if (f.muscle && !e.muscles.includes(f.muscle)) return false;
+      if (f.equipment && (e.equipment ?? "other") !== f.equipment) return false;
+      if (f.pattern && e.pattern !== f.pattern) return false;
+      return !q || fold([e.name, ...e.muscles].join(" ")).includes(q);
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export const allMuscles = (exos: Exo[]) => [...new Set(exos.flatMap((e) => e.muscles))].sort();
+
+export const parseMuscles = (csv: string) => csv.split(",").map((x) => x.trim()).filter(Boolean);
+
+export const newExoId = (name: string) => exoSlug(name) + "_" + Math.random().toString(36).slice(2, 6);
+
+export type ExoRefs = { days: string[]; logs: number; drafts: number };
+
+// Where an exercise is used; days are listed by name for the confirmation message.
+export function exerciseRefs(state: AppState, id: string): ExoRefs {
+  const uses = (l: WorkoutLog) => l.sets.some((s) => s.exoId === id);
+  return {
+    days: state.workoutTemplates.filter((d) => d.entries.some((e) => e.exoId === id)).map((d) => d.name),
+    logs: state.logs.filter(uses).length,
+    drafts: state.drafts.filter(uses).length,
+  };
+}
+
+export const isReferenced = (r: ExoRefs) => r.days.length > 0 || r.logs > 0 || r.drafts > 0;
+
+// Logged sets are kept (the history shows their id); the exercise only leaves the split.
+export function deleteExercise(state: AppState, id: string): AppState {
+  return {
+    ...state,
+    exercises: state.exercises.filter((e) => e.id !== id),
+    workoutTemplates: state.workoutTemplates.map((d) => ({ ...d, entries: d.entries.filter((e) => e.exoId !== id) })),
+    restTimer: state.restTimer?.exoId === id ? { ...state.restTimer, exoId: undefined } : state.restTimer,
+  };
+}
+
+const rewriteLogs = (logs: WorkoutLog[], from: string, into: string) =>
+  logs.map((l) => (l.sets.some((s) => s.exoId === from) ? { ...l, sets: l.sets.map((s) => (s.exoId === from ? { ...s, exoId: into } : s)) } : l));
+
+// A day that already has `into` keeps that entry and drops the duplicate.
+const rewriteDays = (days: DayTemplate[], from: string, into: string) =>
+  days.map((d) => {
+    if (!d.entries.some((e) => e.exoId === from)) return d;
+    const has = d.entries.some((e) => e.exoId === into);
+    return { ...d, entries: d.entries.flatMap((e) => (e.exoId !== from ? [e] : has ? [] : [{ ...e, exoId: into }])) };
+  });
+
+// Folds `from` into `into`: every reference is rewritten, then `from` is removed.
+// `into` inherits the photo of `from` when it has none.
+export function mergeExercises(state: AppState, from: string, into: string): AppState {
+  if (from === into) return state;
+  const photoId = state.exercises.find((e) => e.id === from)?.photoId;
+  return {
+    ...state,
+    exercises: state.exercises.filter((e) => e.id !== from).map((e) => (e.id === into && !e.photoId && photoId ? { ...e, photoId } : e)),
+    workoutTemplates: rewriteDays(state.workoutTemplates, from, into),
+    logs: rewriteLogs(state.logs, from, into),
+    drafts: rewriteLogs(state.drafts, from, into),
+    restTimer: state.restTimer?.exoId === from ? { ...state.restTimer, exoId: into } : state.restTimer,
+  };
+}
+
+const DUPLICATE = 0.8;
+
+// Other exercises whose name looks like the same movement, best first.
+export const likelyDuplicates = (exos: Exo[], exo: Exo) =>
+  exos
+    .filter((e) => e.id !== exo.id)
+    .map((e) => ({ exo: e, score: similarity(exo.name, e.name) }))
+    .filter((c) => c.score >= DUPLICATE)
+    .sort((a, b) => b.score - a.score)
+    .map((c) => c.exo);
@@ -0,0 +1,69 @@
+import { DataStore, openDataStore } from "./db";
+import { AppState, uid } from "./state";
+
+// Exercise photos live as blobs in their own store, outside AppState, so they
+// work offline and never go through the JSON save. The backup file carries
+// them separately, as data URLs.
+type PhotoRecord = { id: string; blob: Blob };
+
+let store: Promise<DataStore> | null = null;
+const db = () => (store ??= openDataStore());
+
+export async function savePhoto(blob: Blob): Promise<string> {
+  const id = uid();
+  await (await db()).put("photos", { id, blob } satisfies PhotoRecord);
+  return id;
+}
+
+export const getPhoto = async (id: string) => (await (await db()).get<PhotoRecord>("photos", id))?.blob;
+
+export const deletePhoto = async (id: string) => (await db()).write([{ store: "photos", del: id }]);
+
+const toDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const r = new FileReader();
+    r.onload = () => resolve(String(r.result));
+    r.onerror = () => reject(r.error);
+    r.readAsDataURL(blob);
+  });
+
+// The photos of these exercises, for the backup file.
+export async function exportPhotos(exos: AppState["exercises"]): Promise<Record<string, string>> {
+  const out: Record<string, string> = {};
+  for (const e of exos) {
+    const blob = e.photoId ? await getPhoto(e.photoId) : undefined;
+    if (e.photoId && blob) out[e.photoId] = await toDataUrl(blob);
+  }
+  return out;
+}
+
+// Stores the photos a backup brought and returns which of photoIds point at nothing
+// (a backup made before photos were included, or a photo that failed to restore).
+export async function restorePhotos(photos: Record<string, string>, photoIds: string[]): Promise<Set<string>> {
+  const d = await db();
+  for (const [id, url] of Object.entries(photos)) {
+    const blob = await (await fetch(url)).blob();
+    await d.put("photos", { id, blob } satisfies PhotoRecord);
+  }
+  const missing = new Set<string>();
+  for (const id of photoIds) if (!(await getPhoto(id))) missing.add(id);
+  return missing;
+}
+
+// Clears the photoIds restorePhotos found missing.
+export function dropPhotos(s: AppState, missing: Set<string>): AppState {
+  if (!missing.size) return s;
+  return { ...s, exercises: s.exercises.map((e) => (e.photoId && missing.has(e.photoId) ? { ...e, photoId: undefined } : e)) };
+}
+
+// Phone pictures weigh several MB; a JPEG of this size is plenty for an exercise card.
+export async function shrinkImage(file: Blob, max = 800): Promise<Blob> {
+  const bmp = await createImageBitmap(file);
+  const k = Math.min(1, max / Math.max(bmp.width, bmp.height));
+  const c = document.createElement("canvas");
+  c.width = Math.round(bmp.width * k);
+  c.height = Math.round(bmp.height * k);
+  c.getContext("2d")?.drawImage(bmp, 0, 0, c.width, c.height);
+  bmp.close();
+  return new Promise((resolve) => c.toBlob((b) => resolve(b ?? file), "image/jpeg", 0.85));
+}
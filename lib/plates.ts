@@ -0,0 +1,82 @@
+import { Equipment, Exo, PlateSettings } from "./state";
+import { fromUnit, roundToUnit, toUnit } from "./units";
+
+export const EQUIPMENT_LABELS: Record<Equipment, string> = {
+  barbell: "Barre",
+  dumbbell: "Haltères",
+  machine: "Machine",
+  cable: "Poulie",
+  kettlebell: "Kettlebell",
+  bodyweight: "Poids du corps",
+  band: "Élastique",
+  other: "Autre",
+};
+
+const cents = (x: number) => Math.round(x * 100);
+
+export type Loading = {
+  totalKg: number; // closest load the equipment can make
+  exact: boolean;
+  // barbell only, in the settings' unit
+  bar?: number;
+  perSide?: number[];
+};
+
+// Every per-side load the inventory can make (in hundredths), with the fewest plates for each.
+function reachable(plates: PlateSettings["plates"]) {
+  const out = new Map<number, number[]>([[0, []]]);
+  plates.forEach(({ size, pairs }) => {
+    [...out].forEach(([sum, combo]) => {
+      for (let k = 1; k <= pairs; k++) {
+        const key = sum + cents(size) * k;
+        const next = [...combo, ...Array<number>(k).fill(size)];
+        const cur = out.get(key);
+        if (!cur || cur.length > next.length) out.set(key, next);
+      }
+    });
+  });
+  return out;
+}
+
+function closestBarbell(targetKg: number, cfg: PlateSettings, exo: Exo | undefined): Loading {
+  const bar = exo?.barKg !== undefined ? toUnit(exo.barKg, cfg.unit) : cfg.bar;
+  const side = (toUnit(targetKg, cfg.unit) - bar) / 2;
+  let best: [number, number[]] = [0, []];
+  reachable(cfg.plates).forEach((combo, sum) => {
+    const d = Math.abs(sum - cents(side));
+    const bd = Math.abs(best[0] - cents(side));
+    if (d < bd || (d === bd && sum < best[0])) best = [sum, combo];
+  });
+  const perSide = [...best[1]].sort((a, b) => b - a);
+  const totalKg = Math.round(fromUnit(bar + (2 * best[0]) / 100, cfg.unit) * 100) / 100;
+  return { totalKg, exact: Math.abs(totalKg - targetKg) < 0.01, bar, perSide };
+}
+
+// null when the exercise has no known equipment to round to.
+export function closestLoad(targetKg: number, cfg: PlateSettings, exo: Exo | undefined): Loading | null {
+  const eq = exo?.equipment;
+  if (eq === "barbell") return closestBarbell(targetKg, cfg, exo);
+  if (eq !== "dumbbell" && eq !== "machine" && eq !== "cable") return null;
+  // a pulley's stack steps like a machine's
+  const step = exo?.loadStep ?? (eq === "dumbbell" ? cfg.dumbbellStepKg : cfg.machineStepKg);
+  if (step <= 0) return null;
+  const totalKg = Math.round(Math.max(0, Math.round(targetKg / step) * step) * 100) / 100;
+  return { totalKg, exact: Math.abs(totalKg - targetKg) < 0.01 };
+}
+
+export const describePlates = (l: Loading, unit: PlateSettings["unit"]) =>
+  l.perSide && l.perSide.length ? `${l.perSide.join(" + ")} ${unit} / côté` : "barre seule";
+
+// Warm-up sets climbing to the working weight; pct 0 means the empty bar.
+// Steps that round to the same load (or reach the working weight) are dropped.
+export function warmupRamp(workKg: number, cfg: PlateSettings, exo: Exo | undefined): { weightKg: number; reps: number }[] {
+  const out: { weightKg: number; reps: number }[] = [];
+  cfg.warmup.forEach(({ pct, reps }) => {
+    if (pct === 0 && exo?.equipment !== "barbell") return;
+    const raw = pct === 0 ? (exo?.barKg ?? fromUnit(cfg.bar, cfg.unit)) : (workKg * pct) / 100;
+    const weightKg = closestLoad(raw, cfg, exo)?.totalKg ?? roundToUnit(raw, cfg.unit);
+    if (weightKg >= workKg || (out.length && weightKg <= out[out.length - 1].weightKg)) return;
+    out.push({ weightKg, reps });
+  });
+  return out;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_STATE, SetEntry, WorkoutLog } from "./state";
+import { suggestNext } from "./progression";
+import { LB } from "./units";
+
+const cfg = DEFAULT_STATE.progression;
+const target = { exoId: "x", repMin: 8, repMax: 12 };
+const session = (dateISO: string, weightKg: number, reps: number[]): WorkoutLog => ({
+  id: dateISO,
+  dateISO,
+  dayId: "d",
+  dayName: "D",
+  sets: reps.map((r): SetEntry => ({ exoId: "x", weightKg, reps: r })),
+});
+
+describe("suggestNext", () => {
+  it("adds one step once the top of the range is reached", () => {
+    expect(suggestNext([session("2026-01-01", 100, [12, 12, 12])], target, cfg)?.weightKg).toBe(102.5);
+  });
+
+  it("steps on the lb grid for lb users", () => {
+    const sg = suggestNext([session("2026-01-01", 225 * LB, [12, 12])], target, cfg, "lb");
+    expect(sg!.weightKg / LB).toBeCloseTo(230);
+  });
+
+  it("holds the load inside the range", () => {
+    const sg = suggestNext([session("2026-01-01", 100, [10, 9])], target, cfg);
+    expect(sg).toMatchObject({ weightKg: 100, reps: 10, rule: "hold" });
+  });
+
+  describe("assisted", () => {
+    it("takes assistance off to progress", () => {
+      const sg = suggestNext([session("2026-01-01", -20, [12, 12])], target, cfg, "kg", "assisted");
+      expect(sg).toMatchObject({ weightKg: -17.5, rule: "double" });
+    });
+
+    it("stops at no assistance instead of adding load", () => {
+      const sg = suggestNext([session("2026-01-01", -1, [12, 12])], target, cfg, "kg", "assisted");
+      expect(sg!.weightKg).toBe(0);
+    });
+
+    it("gives assistance back on a deload", () => {
+      const logs = [session("2026-01-02", -20, [6, 6]), session("2026-01-01", -20, [5, 5])];
+      const sg = suggestNext(logs, target, cfg, "kg", "assisted");
+      expect(sg).toMatchObject({ weightKg: -22.5, rule: "deload" });
+    });
+
+    it("deloads by at least one step from no assistance", () => {
+      const logs = [session("2026-01-02", 0, [6, 6]), session("2026-01-01", 0, [5, 5])];
+      expect(suggestNext(logs, target, cfg, "kg", "assisted")!.weightKg).toBe(-2.5);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { ProgressionSettings, SetEntry, TemplateEntry, TrackingMode, Unit, WorkoutLog } from "./state";
+import { isStraightSet } from "./sets";
+import { fmtLoad } from "./tracking";
+import { fmtWeight, fromUnit, roundAssist, roundToUnit } from "./units";
+
+export type Suggestion = {
+  weightKg: number;
+  reps: number;
+  rule: "double" | "rpe" | "hold" | "deload";
+  reason: string;
+};
+
+// Most recent sessions first, each reduced to the straight sets done on exoId
+// (no warm-ups, no drop sets).
+export function exerciseHistory(logs: WorkoutLog[], exoId: string): { dateISO: string; sets: SetEntry[] }[] {
+  return logs
+    .map((l) => ({ dateISO: l.dateISO, sets: l.sets.filter((s) => s.exoId === exoId && isStraightSet(s)) }))
+    .filter((x) => x.sets.length > 0)
+    .sort((a, b) => b.dateISO.localeCompare(a.dateISO));
+}
+
+const topSets = (sets: SetEntry[]) => {
+  const top = Math.max(...sets.map((s) => s.weightKg));
+  return { top, sets: sets.filter((s) => s.weightKg === top) };
+};
+
+// A session "fails" when a set at its top weight falls short of the bottom of the rep range.
+const failed = (sets: SetEntry[], repMin: number) => topSets(sets).sets.some((s) => s.reps < repMin);
+
+export function suggestNext(
+  logs: WorkoutLog[],
+  target: Pick<TemplateEntry, "exoId" | "repMin" | "repMax">,
+  cfg: ProgressionSettings,
+  unit: Unit = "kg",
+  mode: TrackingMode = "weight_reps"
+): Suggestion | null {
+  const fmt = (kg: number) => fmtLoad(kg, unit, mode);
+  const history = exerciseHistory(logs, target.exoId);
+  if (history.length === 0) return null;
+  const { repMin, repMax } = target;
+  const { top, sets } = topSets(history[0].sets);
+  const minReps = Math.min(...sets.map((s) => s.reps));
+  // loads move and round on the unit's own grid (5 lb, not 2.5 kg ≈ 5.51 lb), then go back to kg
+  const step = cfg.increment[unit];
+  // assisted loads are negative: progressing takes assistance off, down to none
+  const assisted = mode === "assisted";
+  const round = (kg: number) => (assisted ? roundAssist(kg, unit, step) : roundToUnit(kg, unit, step));
+  const stepFmt = (n: number) => (assisted ? `-${n * step} ${unit} d’aide` : `+${n * step} ${unit}`);
+  const plus = (n: number) => round(top + fromUnit(n * step, unit));
+
+  // deload after N consecutive failed sessions at (at least) this load
+  let failures = 0;
+  for (const h of history) {
+    if (topSets(h.sets).top < top || !failed(h.sets, repMin)) break;
+    failures++;
+  }
+  if (cfg.failuresBeforeDeload > 0 && failures >= cfg.failuresBeforeDeload) {
+    // assisted: the deload gives assistance back, deloadPct more of it and at least one step
+    const w = assisted ? round(top - Math.max(fromUnit(step, unit), (-top * cfg.deloadPct) / 100)) : round(top * (1 - cfg.deloadPct / 100));
+    const change = assisted ? `+${fmtWeight(top - w, unit)} d’aide` : `-${cfg.deloadPct}%`;
+    return { weightKg: w, reps: repMin, rule: "deload", reason: `${failures} séances sous ${repMin} reps à ${fmt(top)} → décharge ${change}` };
+  }
+
+  const rpes = sets.map((s) => s.rpe).filter((r): r is number => r !== undefined);
+  const avgRpe = rpes.length ? rpes.reduce((a, b) => a + b, 0) / rpes.length : undefined;
+
+  if (minReps >= repMax) {
+    // RPE well under target on a completed range: the last jump was too small
+    const easy = cfg.useRpe && avgRpe !== undefined && avgRpe <= cfg.targetRpe - 2;
+    const w = plus(easy ? 2 : 1);
+    return {
+      weightKg: w,
+      reps: repMin,
+      rule: easy ? "rpe" : "double",
+      reason: easy
+        ? `${repMax} reps partout à RPE ${avgRpe!.toFixed(1)} → ${stepFmt(2)}`
+        : `${repMax} reps atteintes sur toutes les séries → ${stepFmt(1)}`,
+    };
+  }
+
+  if (cfg.useRpe && avgRpe !== undefined && minReps >= repMin && avgRpe <= cfg.targetRpe - 2) {
+    return { weightKg: plus(1), reps: repMin, rule: "rpe", reason: `RPE ${avgRpe.toFixed(1)} bien sous la cible (${cfg.targetRpe}) → ${stepFmt(1)}` };
+  }
+
+  if (cfg.useRpe && avgRpe !== undefined && avgRpe > cfg.targetRpe + 1) {
+    return { weightKg: top, reps: Math.max(minReps, repMin), rule: "hold", reason: `RPE ${avgRpe.toFixed(1)} au-dessus de la cible → même charge, mêmes reps` };
+  }
+
+  const reps = Math.min(repMax, Math.max(repMin, minReps + 1));
+  if (failures > 0) return { weightKg: top, reps: repMin, rule: "hold", reason: `${minReps} reps la dernière fois (cible ${repMin}–${repMax}) → retente ${fmt(top)}` };
+  return { weightKg: top, reps, rule: "hold", reason: `Garde ${fmt(top)}, vise ${reps} reps (objectif ${repMax} sur chaque série)` };
+}
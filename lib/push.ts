@@ -0,0 +1,109 @@
+import { openDataStore } from "./db";
+import { RingAction, Upcoming, ringTag } from "./reminders";
+import { RestAlert } from "./rest";
+
+// Delivery while the app is closed. public/sw.js shows the rings itself with
+// Notification Triggers where the browser has them; otherwise the push endpoint
+// (app/api/push) sends each one when it's due.
+export type Delivery = "triggers" | "push" | "none";
+
+export const DELIVERY_LABELS: Record<Delivery, string> = {
+  triggers: "rappels programmés sur l’appareil",
+  push: "rappels envoyés par le serveur (Web Push)",
+  none: "pas de rappel (notifs non autorisées ou non supportées)",
+};
+
+// same list as public/sw.js
+const RING_ACTIONS = [
+  { action: "done", title: "Fait ✅" },
+  { action: "snooze", title: "+10 min" },
+];
+
+type RingOptions = NotificationOptions & { actions?: { action: string; title: string }[] };
+
+const sw = () => (typeof navigator !== "undefined" && "serviceWorker" in navigator ? navigator.serviceWorker : null);
+const granted = () => typeof Notification !== "undefined" && Notification.permission === "granted";
+const hasTriggers = () => typeof Notification !== "undefined" && "showTrigger" in Notification.prototype;
+
+export async function registerServiceWorker() {
+  await sw()?.register("/sw.js");
+}
+
+// Hands the next rings to the worker or to the push server and says how they'll be delivered.
+export async function syncSchedule(items: Upcoming[]): Promise<Delivery> {
+  const c = sw();
+  if (!c || !granted()) return "none";
+  const reg = await c.ready;
+  if (hasTriggers()) {
+    reg.active?.postMessage({ type: "schedule", items });
+    return "triggers";
+  }
+  if (!("pushManager" in reg)) return "none";
+  try {
+    const sub = (await reg.pushManager.getSubscription()) ?? (await subscribe(reg));
+    if (!sub) return "none";
+    const res = await fetch("/api/push", { method: "PUT", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ subscription: sub.toJSON(), items }) });
+    return res.ok ? "push" : "none";
+  } catch {
+    return "none";
+  }
+}
+
+async function subscribe(reg: ServiceWorkerRegistration) {
+  const res = await fetch("/api/push");
+  if (!res.ok) return null; // server without VAPID keys
+  const { publicKey } = (await res.json()) as { publicKey: string };
+  return reg.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: base64UrlBytes(publicKey) });
+}
+
+function base64UrlBytes(s: string) {
+  const b = atob((s + "=".repeat((4 - (s.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(b, (ch) => ch.charCodeAt(0));
+}
+
+// The end of a rest, by the same paths as reminders so it still rings in a background
+// tab or on a locked phone, where page timers are throttled. null cancels it.
+export async function syncRestAlert(rest: RestAlert | null): Promise<Delivery> {
+  const reg = granted() ? await sw()?.getRegistration() : undefined;
+  if (!reg) return "none";
+  if (hasTriggers()) {
+    reg.active?.postMessage({ type: "rest", rest });
+    return reg.active ? "triggers" : "none";
+  }
+  try {
+    const sub = await reg.pushManager?.getSubscription();
+    if (!sub) return "none";
+    const res = await fetch("/api/push", { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ endpoint: sub.endpoint, rest }) });
+    return res.ok ? "push" : "none";
+  } catch {
+    return "none";
+  }
+}
+
+// In-app ring, through the worker when it's there so it gets the same tag and actions as closed-app rings.
+export async function showRing(u: Upcoming) {
+  if (!granted()) return;
+  const reg = await sw()?.getRegistration();
+  const opts: NotificationOptions = { body: u.title, tag: ringTag(u), data: u };
+  if (reg) return reg.showNotification("Rappel", { ...opts, actions: RING_ACTIONS } as RingOptions);
+  new Notification("Rappel", opts);
+}
+
+// Actions relayed by the worker to an open window.
+export function onRingAction(f: (a: RingAction) => void) {
+  const c = sw();
+  if (!c) return () => {};
+  const h = (e: MessageEvent) => {
+    if (e.data?.type === "ring-action") f(e.data.ring as RingAction);
+  };
+  c.addEventListener("message", h);
+  return () => c.removeEventListener("message", h);
+}
+
+// Actions the worker queued while no window was open; each one is returned once.
+export async function takeInbox(): Promise<RingAction[]> {
+  const db = await openDataStore();
+  const items = await db.getAll<RingAction>("inbox");
+  if (items.length) await db.write([{ store: "inbox", clear: true }]);
+  return items;
+}
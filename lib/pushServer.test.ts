@@ -0,0 +1,37 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { memorySender, removeDevice, sendDue, setPushSender, setRest, setSchedule } from "./pushServer";
+
+const sub = { endpoint: "https://fcm.googleapis.com/fcm/send/abc", keys: { p256dh: "k", auth: "a" } };
+
+describe("setRest", () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => {
+    removeDevice(sub.endpoint);
+    vi.useRealTimers();
+  });
+
+  it("keeps one timer per device and pushes the rest once", async () => {
+    const sender = memorySender();
+    setPushSender(sender);
+    setSchedule(sub, []);
+    const timers = vi.getTimerCount();
+    const at = Date.now() + 90_000;
+    setRest(sub.endpoint, { at: at - 30_000, body: "Repos" });
+    setRest(sub.endpoint, { at, body: "Repos" });
+    expect(vi.getTimerCount()).toBe(timers + 1);
+    await vi.advanceTimersByTimeAsync(90_000);
+    expect(sender.sent).toEqual([{ endpoint: sub.endpoint, payload: { type: "rest", at, body: "Repos" } }]);
+    expect(await sendDue(at + 1000)).toBe(0);
+  });
+
+  it("drops the timer with the rest or the device", () => {
+    setSchedule(sub, []);
+    const timers = vi.getTimerCount();
+    setRest(sub.endpoint, { at: Date.now() + 60_000, body: "Repos" });
+    setRest(sub.endpoint, null);
+    expect(vi.getTimerCount()).toBe(timers);
+    setRest(sub.endpoint, { at: Date.now() + 60_000, body: "Repos" });
+    removeDevice(sub.endpoint);
+    expect(vi.getTimerCount()).toBe(timers);
+  });
+});
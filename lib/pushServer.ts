@@ -0,0 +1,206 @@
+import webpush, { PushSubscription } from "web-push";
+import { REMINDER_KINDS } from "./state";
+import { CATCH_UP_MS, Upcoming } from "./reminders";
+import { RestAlert } from "./rest";
+
+// Server side of the push fallback, for browsers without Notification Triggers.
+// Each device registers its subscription with the rings the app computed, and a
+// timer in this process sends them as they come due. Kept in memory: the app
+// sends its schedule again every time it opens, so a restart only loses rings
+// until then. Keys come from the environment, generated once with
+// `npx web-push generate-vapid-keys`.
+
+export type { PushSubscription };
+
+// Anything that can deliver a payload to a subscription; tests swap in memorySender() with setPushSender.
+export interface PushSender {
+  publicKey: string;
+  send(sub: PushSubscription, payload: string): Promise<void>;
+}
+
+// The browser dropped the subscription; the device is forgotten.
+export class GoneSubscription extends Error {}
+
+export function vapidSender(publicKey: string, privateKey: string, subject: string): PushSender {
+  return {
+    publicKey,
+    send: async (sub, payload) => {
+      try {
+        await webpush.sendNotification(sub, payload, { vapidDetails: { subject, publicKey, privateKey }, TTL: 60 * 60 });
+      } catch (e) {
+        const code = (e as { statusCode?: number }).statusCode;
+        if (code === 404 || code === 410) throw new GoneSubscription(sub.endpoint);
+        throw e;
+      }
+    },
+  };
+}
+
+// What goes out in a push: a reminder ring, or the end of a rest.
+export type PushPayload = Upcoming | ({ type: "rest" } & RestAlert);
+
+// Local stand-in: records what would have been pushed.
+export function memorySender(): PushSender & { sent: { endpoint: string; payload: PushPayload }[] } {
+  const sent: { endpoint: string; payload: PushPayload }[] = [];
+  return { publicKey: "local", sent, send: async (sub, payload) => void sent.push({ endpoint: sub.endpoint, payload: JSON.parse(payload) }) };
+}
+
+let sender: PushSender | null | undefined;
+
+export function setPushSender(s: PushSender | null) {
+  sender = s;
+}
+
+// null when the server has no VAPID keys: the app then stays on in-app reminders.
+export function pushSender() {
+  if (sender === undefined) {
+    const { VAPID_PUBLIC_KEY: pub, VAPID_PRIVATE_KEY: priv, VAPID_SUBJECT: subject = "mailto:admin@localhost" } = process.env;
+    sender = pub && priv ? vapidSender(pub, priv, subject) : null;
+  }
+  return sender;
+}
+
+type Device = { subscription: PushSubscription; items: Upcoming[]; rest?: RestAlert };
+const devices = new Map<string, Device>();
+const restTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const byTime = (a: Upcoming, b: Upcoming) => a.at - b.at;
+
+// Nothing here is authenticated, so both are bounded: anything over is refused, not trimmed.
+export const MAX_DEVICES = 1000;
+export const MAX_ITEMS = 200; // per device
+
+// false when the server already holds MAX_DEVICES other devices
+export function setSchedule(subscription: PushSubscription, items: Upcoming[]) {
+  if (items.length > MAX_ITEMS) return false;
+  if (!devices.has(subscription.endpoint) && devices.size >= MAX_DEVICES) return false;
+  devices.set(subscription.endpoint, { subscription, items: [...items].sort(byTime) });
+  startTimer();
+  return true;
+}
+
+// A snooze from the notification itself, before the app has had a chance to resend its schedule.
+export function addRing(endpoint: string, item: Upcoming): "ok" | "unknown" | "full" {
+  const d = devices.get(endpoint);
+  if (!d) return "unknown";
+  if (d.items.length >= MAX_ITEMS) return "full";
+  d.items = [...d.items, item].sort(byTime);
+  return "ok";
+}
+
+// The device's running rest timer; a new one replaces it, null cancels it.
+export function setRest(endpoint: string, rest: RestAlert | null) {
+  const d = devices.get(endpoint);
+  if (!d) return false;
+  d.rest = rest ?? undefined;
+  clearRestTimer(endpoint);
+  // on time rather than on the next tick: a rest is counted in seconds
+  if (rest) {
+    const t = setTimeout(() => {
+      restTimers.delete(endpoint);
+      void sendDue();
+    }, Math.max(0, rest.at - Date.now()));
+    t.unref?.();
+    restTimers.set(endpoint, t);
+  }
+  return true;
+}
+
+function clearRestTimer(endpoint: string) {
+  clearTimeout(restTimers.get(endpoint));
+  restTimers.delete(endpoint);
+}
+
+export function removeDevice(endpoint: string) {
+  clearRestTimer(endpoint);
+  return devices.delete(endpoint);
+}
+
+// a rest alert this late is no use any more, like in the app
+const REST_STALE_MS = 60_000;
+
+// Sends what's due; rings late by more than CATCH_UP_MS (server was down) are dropped, like in the app.
+export async function sendDue(now = Date.now()) {
+  const s = pushSender();
+  if (!s) return 0;
+  let sent = 0;
+  for (const d of [...devices.values()]) {
+    const rest = d.rest && d.rest.at <= now ? d.rest : undefined;
+    if (rest) {
+      d.rest = undefined;
+      if (now - rest.at <= REST_STALE_MS) {
+        try {
+          await s.send(d.subscription, JSON.stringify({ type: "rest", ...rest } satisfies PushPayload));
+          sent++;
+        } catch (e) {
+          if (e instanceof GoneSubscription) {
+            removeDevice(d.subscription.endpoint);
+            continue;
+          }
+          console.error("push failed", d.subscription.endpoint, e);
+        }
+      }
+    }
+    const due = d.items.filter((u) => u.at <= now);
+    d.items = d.items.filter((u) => u.at > now);
+    for (const u of due) {
+      if (now - u.at > CATCH_UP_MS) continue;
+      try {
+        await s.send(d.subscription, JSON.stringify(u));
+        sent++;
+      } catch (e) {
+        if (e instanceof GoneSubscription) {
+          removeDevice(d.subscription.endpoint);
+          break;
+        }
+        console.error("push failed", d.subscription.endpoint, e);
+      }
+    }
+  }
+  return sent;
+}
+
+const TICK_MS = 30_000;
+let timer: ReturnType<typeof setInterval> | null = null;
+
+function startTimer() {
+  if (timer) return;
+  timer = setInterval(() => void sendDue(), TICK_MS);
+  timer.unref?.();
+}
+
+// ===== request bodies =====
+
+const isObj = (x: unknown): x is Record<string, unknown> => typeof x === "object" && x !== null && !Array.isArray(x);
+const isStr = (x: unknown): x is string => typeof x === "string" && x.length > 0;
+
+// The browsers' push services. The server POSTs to whatever endpoint it is given,
+// so any other host is refused rather than letting a request aim it elsewhere.
+const PUSH_HOSTS = ["fcm.googleapis.com", "android.googleapis.com", "updates.push.services.mozilla.com", "web.push.apple.com", ".notify.windows.com"];
+
+export function isPushEndpoint(endpoint: string) {
+  let u: URL;
+  try {
+    u = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  if (u.protocol !== "https:" || u.port || u.username || u.password) return false;
+  return PUSH_HOSTS.some((h) => (h.startsWith(".") ? u.hostname.endsWith(h) : u.hostname === h));
+}
+
+export function parseSubscription(x: unknown): PushSubscription | null {
+  if (!isObj(x) || !isStr(x.endpoint) || !isObj(x.keys) || !isStr(x.keys.p256dh) || !isStr(x.keys.auth)) return null;
+  if (!isPushEndpoint(x.endpoint)) return null;
+  return { endpoint: x.endpoint, keys: { p256dh: x.keys.p256dh, auth: x.keys.auth } };
+}
+
+export function parseRest(x: unknown): RestAlert | null {
+  if (!isObj(x) || typeof x.at !== "number" || !Number.isFinite(x.at) || typeof x.body !== "string") return null;
+  return { at: x.at, body: x.body.slice(0, 200) };
+}
+
+export function parseUpcoming(x: unknown): Upcoming | null {
+  if (!isObj(x) || !isStr(x.id) || typeof x.title !== "string" || typeof x.at !== "number" || !Number.isFinite(x.at)) return null;
+  const kind = REMINDER_KINDS.find((k) => k === x.kind);
+  return kind ? { id: x.id, title: x.title, kind, at: x.at } : null;
+}
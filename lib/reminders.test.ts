@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { ReminderEvent } from "./state";
+import { EVENT_RETENTION_DAYS, appendEvents, weeklyAdherence } from "./reminders";
+
+const DAY = 24 * 60 * 60_000;
+const now = new Date(2026, 9, 19, 12).getTime(); // a Monday
+const ev = (id: string, daysAgo: number, type: ReminderEvent["type"] = "ack"): ReminderEvent => ({ id, reminderId: "r", type, at: now - daysAgo * DAY, t: now - daysAgo * DAY });
+
+describe("appendEvents", () => {
+  it("keeps history older than the adherence window", () => {
+    const events = [ev("a", 60), ev("b", 200)];
+    expect(appendEvents(events, [ev("c", 0)], now).map((e) => e.id)).toEqual(["a", "b", "c"]);
+  });
+
+  it("drops only what is past the retention cap", () => {
+    const events = [ev("old", EVENT_RETENTION_DAYS + 1), ev("kept", EVENT_RETENTION_DAYS - 1)];
+    expect(appendEvents(events, [], now).map((e) => e.id)).toEqual(["kept"]);
+  });
+
+  it("returns the same array when nothing changes", () => {
+    const events = [ev("a", 10)];
+    expect(appendEvents(events, [], now)).toBe(events);
+  });
+});
+
+describe("weeklyAdherence", () => {
+  it("counts each answer in the week it was due, oldest week first", () => {
+    const events = [ev("a", 0), ev("b", 1, "miss"), ev("c", 8, "snooze"), ev("d", 20), ev("e", 40), ev("f", 0, "fire")];
+    const weeks = weeklyAdherence(events, "r", "2026-10-19");
+    expect(weeks.map((w) => w.weekStart)).toEqual(["2026-09-28", "2026-10-05", "2026-10-12", "2026-10-19"]);
+    expect(weeks.map((w) => [w.ack, w.miss, w.snooze])).toEqual([[1, 0, 0], [0, 0, 1], [0, 1, 0], [1, 0, 0]]);
+  });
+});
@@ -0,0 +1,229 @@
+import { AppState, Reminder, ReminderEvent, ReminderEventType, ReminderKind, ReminderSchedule, Supplement, uid } from "./state";
+import { describeDose, logDose } from "./supplements";
+import { shiftWeek, weekStart } from "./volume";
+import { addDrink, waterDay } from "./water";
+
+export const REMINDER_KIND_LABELS: Record<ReminderKind, string> = { water: "Eau", meal: "Repas", supp: "Complément" };
+
+export const WEEKDAY_LABELS = ["D", "L", "M", "M", "J", "V", "S"]; // index = Date.getDay()
+export const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0]; // displayed Monday first
+
+// A tab frozen or closed for longer than this doesn't get a stale reminder on return.
+export const CATCH_UP_MS = 2 * 60 * 60 * 1000;
+
+export const SNOOZE_MIN = [10, 30];
+
+// A ring left unanswered this long counts as missed.
+export const MISS_AFTER_MS = CATCH_UP_MS;
+
+const MIN = 60_000;
+
+function at(day: Date, hhmm: string) {
+  const [h, m] = hhmm.split(":").map(Number);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), h, m).getTime();
+}
+
+const onDay = (weekdays: number[], d: Date) => weekdays.length === 0 || weekdays.includes(d.getDay());
+
+// First occurrence strictly after `after` (epoch ms), null when there is none left.
+export function nextOccurrence(s: ReminderSchedule, after: number): number | null {
+  if (s.kind === "once") {
+    const t = new Date(s.atLocal).getTime();
+    return t > after ? t : null;
+  }
+  const start = new Date(after);
+  for (let i = 0; i <= 7; i++) {
+    const day = new Date(start.getFullYear(), start.getMonth(), start.getDate() + i);
+    if (!onDay(s.weekdays, day)) continue;
+    if (s.kind === "daily") {
+      const t = at(day, s.timeHHMM);
+      if (t > after) return t;
+      continue;
+    }
+    const from = at(day, s.fromHHMM);
+    const to = at(day, s.toHHMM);
+    const step = Math.max(1, s.everyMin) * MIN;
+    const t = from + Math.max(0, Math.floor((after - from) / step) + 1) * step;
+    if (t <= to) return t;
+  }
+  return null;
+}
+
+// Occurrences in (from, to], at most `max`.
+function occurrencesBetween(s: ReminderSchedule, from: number, to: number, max = 200) {
+  const out: number[] = [];
+  for (let t = nextOccurrence(s, from); t !== null && t <= to && out.length < max; t = nextOccurrence(s, t)) out.push(t);
+  return out;
+}
+
+// Next time the reminder will ring, snooze included.
+export function nextRing(r: Reminder, now: number): number | null {
+  const next = nextOccurrence(r.schedule, Math.max(now, r.handledUntil ?? now));
+  if (r.snoozedUntil === undefined) return next;
+  return next === null ? r.snoozedUntil : Math.min(next, r.snoozedUntil);
+}
+
+export type Due = { reminder: Reminder; at: number; snoozed: boolean };
+
+// Reminders that should ring now: a pending snooze, or an occurrence since the
+// last check. Several missed occurrences (e.g. an interval while the tab was
+// frozen) collapse into a single ring.
+export function dueReminders(reminders: Reminder[], now: number): Due[] {
+  return reminders.flatMap((r): Due[] => {
+    if (!r.enabled || r.handledUntil === undefined) return [];
+    if (r.snoozedUntil !== undefined && r.snoozedUntil <= now) return [{ reminder: r, at: r.snoozedUntil, snoozed: true }];
+    const t = nextOccurrence(r.schedule, Math.max(r.handledUntil, now - CATCH_UP_MS));
+    return t !== null && t <= now ? [{ reminder: r, at: t, snoozed: false }] : [];
+  });
+}
+
+// Everything up to `now` is handled; reminders never checked start from now rather than replaying the past.
+export const markHandled = (r: Reminder, now: number): Reminder => ({ ...r, handledUntil: now, snoozedUntil: r.snoozedUntil !== undefined && r.snoozedUntil <= now ? undefined : r.snoozedUntil });
+
+const logEvent = (reminderId: string, type: ReminderEventType, at: number, t: number): ReminderEvent => ({ id: uid(), reminderId, type, at, t });
+
+// One pass of the reminder loop: what rings now, and the fires and misses to log.
+// Occurrences that went by without ringing (app closed past CATCH_UP_MS) are
+// misses, and so is a ring still unanswered when the next one comes or after MISS_AFTER_MS.
+export function checkReminders(reminders: Reminder[], now: number): { due: Due[]; reminders: Reminder[]; events: ReminderEvent[]; changed: boolean } {
+  const due = dueReminders(reminders, now);
+  const dueById = new Map(due.map((d) => [d.reminder.id, d]));
+  const events: ReminderEvent[] = [];
+  let changed = false;
+  const next = reminders.map((r) => {
+    if (r.handledUntil === undefined) {
+      changed = true;
+      return markHandled(r, now);
+    }
+    if (!r.enabled) return r;
+    const d = dueById.get(r.id);
+    const skipped = occurrencesBetween(r.schedule, r.handledUntil, now).filter((t) => t !== d?.at);
+    const stale = r.pendingAt !== undefined && (d !== undefined || now - r.pendingAt > MISS_AFTER_MS) ? r.pendingAt : undefined;
+    if (!d && !skipped.length && stale === undefined) return r;
+    changed = true;
+    if (stale !== undefined) events.push(logEvent(r.id, "miss", stale, now));
+    skipped.forEach((t) => events.push(logEvent(r.id, "miss", t, now)));
+    if (d) events.push(logEvent(r.id, "fire", d.at, now));
+    return { ...markHandled(r, now), pendingAt: d ? d.at : stale !== undefined ? undefined : r.pendingAt };
+  });
+  return { due, reminders: next, events, changed };
+}
+
+// The ring at `at` (by default the one waiting) got an answer; a miss logged for it
+// meanwhile (app closed, notification tapped later) is replaced.
+function answer(s: AppState, id: string, type: ReminderEventType, ringAt: number | undefined, t: number, f: (r: Reminder) => Reminder): AppState {
+  const at = ringAt ?? s.reminders.find((r) => r.id === id)?.pendingAt ?? t;
+  return {
+    ...s,
+    reminders: s.reminders.map((r) => (r.id === id ? f({ ...markHandled(r, Math.max(r.handledUntil ?? at, at)), pendingAt: r.pendingAt !== undefined && r.pendingAt > at ? r.pendingAt : undefined }) : r)),
+    reminderEvents: appendEvents(s.reminderEvents.filter((e) => !(e.reminderId === id && e.at === at && e.type === "miss")), [logEvent(id, type, at, t)], t),
+  };
+}
+
+// Does what the reminder is for: water, the meal's checklist entry, or a supplement dose.
+// Water is timestamped at the answer; the checklist is only ticked if it's still that day's.
+export function acknowledge(s: AppState, id: string, at?: number, t = Date.now()): AppState {
+  const r = s.reminders.find((x) => x.id === id);
+  if (!r) return s;
+  const next = answer(s, id, "ack", at, t, (x) => x);
+  const today = waterDay(t, s.water.dayStartHHMM) === s.checklistDate;
+  const p = r.payload;
+  if (r.kind === "water") return addDrink(next, p.waterMl, "water", t);
+  if (r.kind === "meal" && today && p.checklistKey in next.nutrition.todaysChecklist)
+    return { ...next, nutrition: { ...next.nutrition, todaysChecklist: { ...next.nutrition.todaysChecklist, [p.checklistKey]: true } } };
+  if (r.kind === "supp") return logDose(next, p.supplementId, t, id);
+  return next;
+}
+
+export const snoozeReminder = (s: AppState, id: string, at: number | undefined, until: number, t = Date.now()) => answer(s, id, "snooze", at, t, (r) => ({ ...r, snoozedUntil: until }));
+
+// Dismissed without doing it.
+export const skipReminder = (s: AppState, id: string, at?: number, t = Date.now()) => answer(s, id, "miss", at, t, (r) => r);
+
+// A schedule edit only applies to future occurrences.
+export const withSchedule = (r: Reminder, schedule: ReminderSchedule, now = Date.now()): Reminder => ({ ...r, schedule, handledUntil: now });
+
+export const snoozeUntil = (minutes: number, now = Date.now()) => now + minutes * MIN;
+
+export function describeSchedule(s: ReminderSchedule) {
+  if (s.kind === "once") return new Date(s.atLocal).toLocaleString("fr-FR", { dateStyle: "short", timeStyle: "short" });
+  const days = s.weekdays.length === 0 || s.weekdays.length === 7 ? "tous les jours" : WEEK_ORDER.filter((d) => s.weekdays.includes(d)).map((d) => WEEKDAY_LABELS[d]).join(" ");
+  if (s.kind === "daily") return `${s.timeHHMM}, ${days}`;
+  return `toutes les ${s.everyMin} min de ${s.fromHHMM} à ${s.toHHMM}, ${days}`;
+}
+
+export function fmtNext(t: number | null, now: number) {
+  if (t === null) return "terminé";
+  const min = Math.round((t - now) / MIN);
+  if (min < 60) return `dans ${Math.max(0, min)} min`;
+  const d = new Date(t);
+  const sameDay = new Date(now).toDateString() === d.toDateString();
+  return sameDay ? `à ${d.toTimeString().slice(0, 5)}` : d.toLocaleString("fr-FR", { weekday: "short", hour: "2-digit", minute: "2-digit" });
+}
+
+// One ring handed to the service worker or the push server for delivery while the app is closed.
+export type Upcoming = { id: string; title: string; kind: ReminderKind; at: number };
+
+export const UPCOMING_HORIZON_MS = 7 * 24 * 60 * MIN;
+const UPCOMING_MAX = 100;
+
+// Rings from now on, snoozes included, soonest first. Reopening the app refreshes the window.
+export function upcomingRings(reminders: Reminder[], now: number, horizon = UPCOMING_HORIZON_MS): Upcoming[] {
+  const out: Upcoming[] = [];
+  reminders.forEach((r) => {
+    if (!r.enabled) return;
+    const ring = (at: number) => out.push({ id: r.id, title: r.title, kind: r.kind, at });
+    if (r.snoozedUntil !== undefined && r.snoozedUntil > now) ring(r.snoozedUntil);
+    occurrencesBetween(r.schedule, Math.max(now, r.handledUntil ?? now), now + horizon, UPCOMING_MAX).forEach(ring);
+  });
+  return out.sort((a, b) => a.at - b.at).slice(0, UPCOMING_MAX);
+}
+
+// Tag shared by every path that shows a given ring, so the in-app, triggered and pushed copies replace each other.
+export const ringTag = (u: { id: string; at: number }) => `reminder-${u.id}-${u.at}`;
+
+// "done" / "snooze" pressed on a notification, relayed by the service worker.
+export type RingAction = { action: "done" | "snooze"; id: string; at: number; time: number; until?: number };
+
+// A snooze rings again at the time the worker already scheduled.
+export const applyRingAction = (s: AppState, a: RingAction) =>
+  a.action === "done" ? acknowledge(s, a.id, a.at, a.time) : snoozeReminder(s, a.id, a.at, a.until ?? snoozeUntil(SNOOZE_MIN[0], a.time), a.time);
+
+export function describePayload(r: Reminder, supplements: Supplement[]) {
+  const p = r.payload;
+  if (r.kind === "water") return `+${p.waterMl} ml`;
+  if (r.kind === "meal") return p.checklistKey ? `✔ ${p.checklistKey}` : "";
+  const supp = supplements.find((x) => x.id === p.supplementId);
+  return supp ? describeDose(supp) : "";
+}
+
+// ===== adherence =====
+
+export type WeekAdherence = { weekStart: string; ack: number; snooze: number; miss: number };
+
+export const ADHERENCE_WEEKS = 4;
+
+// Answers per calendar week (Monday first) up to the week starting on `current`, oldest first; a ring counts in the week it was due.
+export function weeklyAdherence(events: ReminderEvent[], reminderId: string, current: string, weeks = ADHERENCE_WEEKS): WeekAdherence[] {
+  const out = Array.from({ length: weeks }, (_, i): WeekAdherence => ({ weekStart: shiftWeek(current, i - weeks + 1), ack: 0, snooze: 0, miss: 0 }));
+  const byWeek = new Map(out.map((w) => [w.weekStart, w]));
+  events.forEach((e) => {
+    if (e.reminderId !== reminderId || e.type === "fire") return;
+    const w = byWeek.get(weekStart(new Date(e.at)));
+    if (w) w[e.type]++;
+  });
+  return out;
+}
+
+// The event log is the adherence history and outlives the weeks shown; only rings
+// older than this are dropped, so an every-30-min reminder can't grow it forever.
+export const EVENT_RETENTION_DAYS = 730;
+
+// Appends to the event log, dropping rings past EVENT_RETENTION_DAYS.
+export function appendEvents(events: ReminderEvent[], added: ReminderEvent[], now: number): ReminderEvent[] {
+  const cutoff = now - EVENT_RETENTION_DAYS * 24 * 60 * MIN;
+  const kept = events.filter((e) => e.at >= cutoff);
+  return added.length || kept.length !== events.length ? [...kept, ...added] : events;
+}
+
+export const adherencePct = (w: WeekAdherence) => (w.ack + w.miss ? Math.round((100 * w.ack) / (w.ack + w.miss)) : null);
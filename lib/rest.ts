@@ -0,0 +1,48 @@
+import { RestTimer, WorkoutLog } from "./state";
+
+// The timer is stored as an absolute end time rather than a countdown, so
+// background throttling and reloads can't make it drift.
+
+// End-of-rest alert handed to the service worker or the push server (lib/push.ts).
+export type RestAlert = { at: number; body: string };
+
+export const startTimer = (sec: number, exoId?: string, now = Date.now()): RestTimer => ({ durationSec: sec, endsAt: now + sec * 1000, exoId });
+
+export const isRunning = (t: RestTimer | null) => !!t && t.endsAt !== undefined;
+
+export function remainingSec(t: RestTimer | null, now: number) {
+  if (!t) return 0;
+  if (t.endsAt === undefined) return t.pausedSec ?? 0;
+  return Math.min(t.durationSec, Math.max(0, Math.ceil((t.endsAt - now) / 1000)));
+}
+
+export const pauseTimer = (t: RestTimer, now = Date.now()): RestTimer => ({ ...t, endsAt: undefined, pausedSec: remainingSec(t, now) });
+
+export const resumeTimer = (t: RestTimer, now = Date.now()): RestTimer => ({ ...t, endsAt: now + (t.pausedSec ?? 0) * 1000, pausedSec: undefined });
+
+// +15s / -15s; the total grows with it so the remaining time is never capped.
+export function adjustTimer(t: RestTimer, deltaSec: number, now = Date.now()): RestTimer {
+  const left = Math.max(0, remainingSec(t, now) + deltaSec);
+  const durationSec = Math.max(left, t.durationSec + deltaSec);
+  return t.endsAt === undefined ? { ...t, durationSec, pausedSec: left } : { ...t, durationSec, endsAt: now + left * 1000 };
+}
+
+// Longer gaps are treated as a break in the session, not a rest.
+const MAX_REST_SEC = 15 * 60;
+
+// Actual rests taken after sets of an exercise, newest first, read from the set
+// timestamps: the gap between one of its sets and the next set of the session.
+export function restHistory(logs: WorkoutLog[], exoId: string, limit = 10): number[] {
+  const out: number[] = [];
+  [...logs]
+    .sort((a, b) => b.dateISO.localeCompare(a.dateISO))
+    .forEach((l) => {
+      const timed = l.sets.filter((s) => s.at).sort((a, b) => a.at!.localeCompare(b.at!));
+      for (let i = timed.length - 2; i >= 0; i--) {
+        if (timed[i].exoId !== exoId) continue;
+        const sec = (Date.parse(timed[i + 1].at!) - Date.parse(timed[i].at!)) / 1000;
+        if (sec > 0 && sec <= MAX_REST_SEC) out.push(Math.round(sec));
+      }
+    });
+  return out.slice(0, limit);
+}
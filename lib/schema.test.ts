@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_STATE } from "./state";
+import { SCHEMA_VERSION, SchemaError, migrate, toPersisted, validate } from "./schema";
+import { LB } from "./units";
+
+// What the app wrote before schemaVersion existed.
+const legacy = () => ({
+  waterGoalMl: 3000,
+  waterTodayMl: 750,
+  waterTodayDate: "2026-01-02",
+  waterHistory: [{ date: "2026-01-01", ml: 2000 }, { date: "2026-01-02", ml: 500 }, { date: "bad", ml: 100 }],
+  bodyweight: [{ dateISO: "2026-01-01", weightKg: 80 }],
+  exercises: [{ id: "bench_press", name: "Barbell Bench Press", muscles: ["chest", "triceps"] }],
+  workoutTemplates: { PUSH: [{ exoId: "bench_press", defaultRestSec: 150 }], PULL: [], LEGS: [] },
+  logs: [{ id: "l1", dateISO: "2026-01-01T10:00:00.000Z", dayType: "PUSH", sets: [{ exoId: "bench_press", weightKg: 100, reps: 8 }] }],
+  reminders: [
+    { id: "r1", title: "Eau (500ml)", timeHHMM: "10:30", enabled: true, kind: "water" },
+    { id: "r2", title: "Déjeuner / repas", timeHHMM: "13:30", enabled: true, kind: "meal" },
+    { id: "r4", title: "Créatine (5g)", timeHHMM: "19:30", enabled: true, kind: "supp" },
+  ],
+  nutrition: { todaysChecklist: { Déjeuner: false, "Créatine 5g": true }, notes: "" },
+});
+
+describe("migrate", () => {
+  it("brings the unversioned blob to the current schema without dropping anything", () => {
+    const blob = migrate(legacy());
+    expect(blob.schemaVersion).toBe(SCHEMA_VERSION);
+    const { state, issues } = validate(blob);
+    expect(issues).toEqual([]);
+    expect(state.workoutTemplates[0]).toMatchObject({ id: "PUSH", name: "PUSH", entries: [{ exoId: "bench_press", targetSets: 3, repMin: 8, repMax: 12 }] });
+    expect(state.logs[0]).toMatchObject({ dayId: "PUSH", dayName: "PUSH" });
+    expect(state.exercises[0]).toMatchObject({ equipment: "barbell" });
+  });
+
+  it("turns reminder times into schedules and guesses what they do", () => {
+    const { state } = validate(migrate(legacy()));
+    const [water, meal, supp] = state.reminders;
+    expect(water).toMatchObject({ schedule: { kind: "daily", timeHHMM: "10:30", weekdays: [] }, payload: { waterMl: 500 } });
+    expect(meal.payload.checklistKey).toBe("Déjeuner");
+    const creatine = state.supplements.find((x) => x.id === supp.payload.supplementId);
+    expect(creatine).toMatchObject({ name: "Créatine", dose: 5, unit: "g" });
+    expect(state.nutrition.todaysChecklist).not.toHaveProperty("Créatine 5g");
+  });
+
+  it("turns each day's water total into one drink at noon", () => {
+    const { state } = validate(migrate(legacy()));
+    expect(state.waterLog.map((e) => [e.ml, e.t])).toEqual([
+      [2000, new Date(2026, 0, 1, 12).getTime()],
+      [750, new Date(2026, 0, 2, 12).getTime()],
+    ]);
+    expect(state.checklistDate).toBe("2026-01-02");
+    expect(state.waterGoals).toEqual([]);
+  });
+
+  it("keeps the load step per unit, exactly for lb users", () => {
+    const at17 = (units: string, incrementKg: number) => ({ ...toPersisted(DEFAULT_STATE), schemaVersion: 17, units, progression: { ...DEFAULT_STATE.progression, increment: undefined, incrementKg } });
+    expect(validate(migrate(at17("kg", 1.25))).state.progression.increment).toEqual({ kg: 1.25, lb: 5 });
+    expect(validate(migrate(at17("lb", 5 * LB))).state.progression.increment).toEqual({ kg: 2.5, lb: 5 });
+  });
+
+  it("round-trips the current state", () => {
+    expect(validate(migrate(toPersisted(DEFAULT_STATE)))).toEqual({ state: DEFAULT_STATE, issues: [] });
+  });
+
+  it("refuses a blob from a newer app", () => {
+    expect(() => migrate({ schemaVersion: SCHEMA_VERSION + 1 })).toThrow(SchemaError);
+  });
+});
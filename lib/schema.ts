@@ -0,0 +1,536 @@
+import {
+  AppState,
+  DEFAULT_EXOS,
+  DEFAULT_STATE,
+  DayTemplate,
+  E1RM_FORMULAS,
+  EQUIPMENTS,
+  Exo,
+  MOVEMENT_PATTERNS,
+  NutritionState,
+  PlateSettings,
+  ProgressionSettings,
+  DEFAULT_PAYLOAD,
+  DEFAULT_SUPPLEMENTS,
+  REMINDER_EVENT_TYPES,
+  REMINDER_KINDS,
+  Reminder,
+  ReminderEvent,
+  ReminderPayload,
+  ReminderSchedule,
+  RestTimer,
+  SET_KINDS,
+  TRACKING_MODES,
+  UNITS,
+  SUPP_SCHEDULES,
+  SetEntry,
+  SuppDose,
+  Supplement,
+  TemplateEntry,
+  VolumeSettings,
+  DRINK_TYPES,
+  DrinkType,
+  WaterDayGoal,
+  WaterEntry,
+  WaterGoalSettings,
+  WaterSettings,
+  WeightLog,
+  WorkoutLog,
+  todayKey,
+} from "./state";
+import { LB, UNIT_STEP } from "./units";
+
+// Bump this and add a step to MIGRATIONS whenever the persisted shape changes.
+export const SCHEMA_VERSION = 18;
+
+export type Persisted = AppState & { schemaVersion: number };
+type Blob = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a blob from schema n to n + 1.
+// v1 = the unversioned blob written before schemaVersion existed.
+const MIGRATIONS: Record<number, (s: Blob) => Blob> = {
+  1: (s) => ({
+    ...s,
+    exercises: s.exercises || DEFAULT_EXOS,
+    workoutTemplates: s.workoutTemplates || DEFAULT_STATE.workoutTemplates,
+    logs: s.logs || [],
+    bodyweight: s.bodyweight || [],
+    waterGoalMl: s.waterGoalMl || 3000,
+    waterTodayMl: s.waterTodayMl || 0,
+    waterTodayDate: s.waterTodayDate || "",
+    waterHistory: s.waterHistory || [],
+    reminders: s.reminders || DEFAULT_STATE.reminders,
+    nutrition: s.nutrition || DEFAULT_STATE.nutrition,
+  }),
+  // PUSH/PULL/LEGS record -> ordered list of user-defined days; the old keys become day ids
+  // so existing logs keep pointing at their day.
+  2: (s) => ({
+    ...s,
+    workoutTemplates: Array.isArray(s.workoutTemplates)
+      ? s.workoutTemplates
+      : Object.entries(isObj(s.workoutTemplates) ? s.workoutTemplates : {}).map(([id, entries]) => ({ id, name: id, entries })),
+    logs: Array.isArray(s.logs) ? s.logs.map(dayTypeToDayId) : s.logs,
+  }),
+  // template entries gain target sets and a rep range
+  3: (s) => ({
+    ...s,
+    workoutTemplates: Array.isArray(s.workoutTemplates)
+      ? s.workoutTemplates.map((d) =>
+          isObj(d) && Array.isArray(d.entries) ? { ...d, entries: d.entries.map((e) => (isObj(e) ? { targetSets: 3, repMin: 8, repMax: 12, ...e } : e)) } : d
+        )
+      : s.workoutTemplates,
+  }),
+  4: (s) => ({ ...s, progression: { incrementKg: 2.5, useRpe: true, targetRpe: 8, failuresBeforeDeload: 2, deloadPct: 10 } }),
+  5: (s) => ({ ...s, e1rmFormula: "epley" }),
+  6: (s) => ({ ...s, volume: DEFAULT_STATE.volume }),
+  7: (s) => ({ ...s, drafts: [] }),
+  8: (s) => ({ ...s, restTimer: null, restAutoStart: false }),
+  // plate settings; the bundled exercises learn their equipment
+  9: (s) => ({
+    ...s,
+    plates: DEFAULT_STATE.plates,
+    exercises: Array.isArray(s.exercises)
+      ? s.exercises.map((e) => {
+          const d = isObj(e) && !e.equipment ? DEFAULT_EXOS.find((x) => x.id === e.id) : undefined;
+          return d ? { ...e, equipment: d.equipment, barKg: d.barKg } : e;
+        })
+      : s.exercises,
+  }),
+  10: (s) => ({ ...s, units: "kg" }),
+  // bundled exercises learn their movement pattern, and the pulleys move from "machine" to "cable"
+  11: (s) => ({
+    ...s,
+    exercises: Array.isArray(s.exercises)
+      ? s.exercises.map((e) => {
+          const d = isObj(e) && !e.pattern ? DEFAULT_EXOS.find((x) => x.id === e.id) : undefined;
+          return d ? { ...e, pattern: d.pattern, equipment: e.equipment === "machine" ? d.equipment : e.equipment } : e;
+        })
+      : s.exercises,
+  }),
+  // one time of day per reminder becomes a schedule
+  12: (s) => ({
+    ...s,
+    reminders: Array.isArray(s.reminders)
+      ? s.reminders.map((r) => {
+          if (!isObj(r) || !("timeHHMM" in r)) return r;
+          const { timeHHMM, ...rest } = r;
+          return { ...rest, schedule: { kind: "daily", timeHHMM, weekdays: [] } };
+        })
+      : s.reminders,
+  }),
+  // reminders learn what acknowledging them does, guessed from their title; fires and answers get logged
+  13: (s) => ({
+    ...s,
+    reminders: Array.isArray(s.reminders) ? s.reminders.map((r) => (isObj(r) && !r.payload ? { ...r, payload: payloadFromTitle(r.title, s.nutrition) } : r)) : s.reminders,
+    reminderEvents: [],
+    suppDoses: [],
+  }),
+  // supplements get a model of their own: supplement reminders and logged doses point at one,
+  // and creatine leaves the meal checklist
+  14: (s) => {
+    const supplements: Blob[] = [];
+    const byName = (name: unknown) => supplements.find((x) => isStr(name) && String(x.name).toLowerCase() === name.trim().toLowerCase());
+    const reminders = Array.isArray(s.reminders)
+      ? s.reminders.map((r) => {
+          if (!isObj(r) || !isObj(r.payload)) return r;
+          const { supp, ...payload } = r.payload;
+          let supplementId = "";
+          if (r.kind === "supp" && isObj(supp) && isStr(supp.name) && supp.name.trim()) {
+            const known = byName(supp.name);
+            supplementId = known ? String(known.id) : `supp_${r.id}`;
+            if (!known) supplements.push({ id: supplementId, name: supp.name.trim(), dose: supp.dose, unit: supp.unit, schedule: "daily", stock: null, lowStockDoses: 7, since: todayKey() });
+          }
+          return { ...r, payload: { ...payload, supplementId } };
+        })
+      : s.reminders;
+    DEFAULT_SUPPLEMENTS.forEach((d) => byName(d.name) || supplements.push(d));
+    const nutrition = isObj(s.nutrition) && isObj(s.nutrition.todaysChecklist) ? { ...s.nutrition, todaysChecklist: { ...s.nutrition.todaysChecklist } } : s.nutrition;
+    if (isObj(nutrition) && isObj(nutrition.todaysChecklist)) delete nutrition.todaysChecklist["Créatine 5g"];
+    return {
+      ...s,
+      reminders,
+      supplements,
+      nutrition,
+      suppDoses: Array.isArray(s.suppDoses) ? s.suppDoses.map((d) => (isObj(d) ? { ...d, supplementId: String(byName(d.name)?.id ?? "") } : d)) : s.suppDoses,
+    };
+  },
+  // water becomes a log of timestamped drinks; each day's total so far becomes one entry at noon of that day
+  15: (s) => {
+    const days = new Map<string, number>();
+    (Array.isArray(s.waterHistory) ? s.waterHistory : []).forEach((w) => isObj(w) && isStr(w.date) && isNum(w.ml) && days.set(w.date, w.ml));
+    if (isStr(s.waterTodayDate) && s.waterTodayDate && isNum(s.waterTodayMl)) days.set(s.waterTodayDate, s.waterTodayMl);
+    const next: Blob = { ...s, checklistDate: isStr(s.waterTodayDate) ? s.waterTodayDate : "", water: DEFAULT_STATE.water };
+    delete next.waterTodayMl;
+    delete next.waterTodayDate;
+    delete next.waterHistory;
+    next.waterLog = [...days]
+      .filter(([date, ml]) => ml > 0 && /^\d{4}-\d{2}-\d{2}$/.test(date))
+      .map(([date, ml]) => {
+        const [y, m, d] = date.split("-").map(Number);
+        return { id: `day-${date}`, t: new Date(y, m - 1, d, 12).getTime(), ml, drink: "water" };
+      });
+    return next;
+  },
+  // optional adaptive goal; days logged so far keep being judged against the fixed goal
+  16: (s) => ({ ...s, water: isObj(s.water) ? { ...s.water, goal: DEFAULT_STATE.water.goal } : s.water, waterGoals: [] }),
+  // the load step is kept per unit; a lb user's step was typed in lb, so it converts back exactly
+  17: (s) => {
+    if (!isObj(s.progression) || !isNum(s.progression.incrementKg)) return s;
+    const { incrementKg, ...rest } = s.progression;
+    const increment = s.units === "lb" ? { kg: UNIT_STEP.kg, lb: Math.round((incrementKg / LB) * 2) / 2 } : { kg: incrementKg, lb: UNIT_STEP.lb };
+    return { ...s, progression: { ...rest, increment } };
+  },
+};
+
+// "Eau (250ml)" -> 250 ml, "Créatine (5g)" -> 5 g of Créatine, "Déjeuner / repas" -> the "Déjeuner" checklist entry
+function payloadFromTitle(title: unknown, nutrition: unknown): Blob {
+  const t = isStr(title) ? title : "";
+  const keys = isObj(nutrition) && isObj(nutrition.todaysChecklist) ? Object.keys(nutrition.todaysChecklist) : [];
+  const ml = /(\d+)\s*ml/i.exec(t);
+  const dose = /(\d+(?:[.,]\d+)?)\s*(mg|g|ml|gélules?|caps?)\b/i.exec(t);
+  return {
+    waterMl: ml ? Number(ml[1]) : DEFAULT_PAYLOAD.waterMl,
+    checklistKey: keys.find((k) => t.toLowerCase().includes(k.toLowerCase())) ?? "",
+    supp: dose ? { name: t.replace(/\(.*?\)/g, "").trim(), dose: Number(dose[1].replace(",", ".")), unit: dose[2] } : { name: t, dose: 1, unit: "g" },
+  };
+}
+
+function dayTypeToDayId(l: unknown) {
+  if (!isObj(l) || !("dayType" in l)) return l;
+  const { dayType, ...rest } = l;
+  return { ...rest, dayId: dayType, dayName: dayType };
+}
+
+export class SchemaError extends Error {}
+
+export function migrate(raw: unknown): Blob {
+  if (!isObj(raw)) throw new SchemaError("root: object expected");
+  let s: Blob = raw;
+  let v = typeof s.schemaVersion === "number" ? s.schemaVersion : 1;
+  if (v > SCHEMA_VERSION) throw new SchemaError(`schemaVersion ${v} is newer than this app (${SCHEMA_VERSION})`);
+  while (v < SCHEMA_VERSION) {
+    const step = MIGRATIONS[v];
+    if (!step) throw new SchemaError(`no migration from schema ${v}`);
+    s = step(s);
+    v++;
+  }
+  return { ...s, schemaVersion: v };
+}
+
+// ---------- runtime validation ----------
+// Invalid items are dropped (and reported) rather than failing the whole load,
+// so one bad set never costs the rest of the history.
+
+const isObj = (x: unknown): x is Blob => typeof x === "object" && x !== null && !Array.isArray(x);
+const isStr = (x: unknown): x is string => typeof x === "string";
+const isNum = (x: unknown): x is number => typeof x === "number" && Number.isFinite(x);
+const isBool = (x: unknown): x is boolean => typeof x === "boolean";
+const optional = <T>(x: unknown, guard: (v: unknown) => v is T): x is T | undefined => x === undefined || guard(x);
+const oneOf = <T extends string>(values: readonly T[]) => (x: unknown): x is T => values.includes(x as T);
+
+type Check<T> = (x: unknown, path: string, issues: string[]) => T | null;
+
+function arrayOf<T>(x: unknown, path: string, issues: string[], item: Check<T>): T[] {
+  if (!Array.isArray(x)) {
+    issues.push(`${path}: array expected`);
+    return [];
+  }
+  const out: T[] = [];
+  x.forEach((v, i) => {
+    const r = item(v, `${path}[${i}]`, issues);
+    if (r) out.push(r);
+  });
+  return out;
+}
+
+function reject(path: string, issues: string[], why = "invalid entry") {
+  issues.push(`${path}: ${why}`);
+  return null;
+}
+
+const checkExo: Check<Exo> = (x, path, issues) => {
+  if (
+    !isObj(x) ||
+    !isStr(x.id) ||
+    !isStr(x.name) ||
+    !Array.isArray(x.muscles) ||
+    !x.muscles.every(isStr) ||
+    !optional(x.imageUrl, isStr) ||
+    !optional(x.photoId, isStr) ||
+    !optional(x.mode, oneOf(TRACKING_MODES)) ||
+    !optional(x.equipment, oneOf(EQUIPMENTS)) ||
+    !optional(x.pattern, oneOf(MOVEMENT_PATTERNS)) ||
+    !optional(x.barKg, isNum) ||
+    !optional(x.loadStep, isNum)
+  )
+    return reject(path, issues);
+  return { id: x.id, name: x.name, muscles: x.muscles, imageUrl: x.imageUrl, photoId: x.photoId, mode: x.mode, equipment: x.equipment, pattern: x.pattern, barKg: x.barKg, loadStep: x.loadStep };
+};
+
+const checkSet: Check<SetEntry> = (x, path, issues) => {
+  if (
+    !isObj(x) ||
+    !isStr(x.exoId) ||
+    !isNum(x.weightKg) ||
+    !isNum(x.reps) ||
+    !optional(x.durationSec, isNum) ||
+    !optional(x.distanceM, isNum) ||
+    !optional(x.rpe, isNum) ||
+    !optional(x.rir, isNum) ||
+    !optional(x.tempo, isStr) ||
+    !optional(x.kind, oneOf(SET_KINDS)) ||
+    !optional(x.id, isStr) ||
+    !optional(x.parentId, isStr) ||
+    !optional(x.at, isStr)
+  )
+    return reject(path, issues);
+  return { exoId: x.exoId, weightKg: x.weightKg, reps: x.reps, durationSec: x.durationSec, distanceM: x.distanceM, rpe: x.rpe, rir: x.rir, tempo: x.tempo, kind: x.kind, id: x.id, parentId: x.parentId, at: x.at };
+};
+
+const checkLog: Check<WorkoutLog> = (x, path, issues) => {
+  if (!isObj(x) || !isStr(x.id) || !isStr(x.dateISO) || !isStr(x.dayId) || !isStr(x.dayName) || !optional(x.notes, isStr)) return reject(path, issues);
+  return { id: x.id, dateISO: x.dateISO, dayId: x.dayId, dayName: x.dayName, notes: x.notes, sets: arrayOf(x.sets, `${path}.sets`, issues, checkSet) };
+};
+
+const checkWeight: Check<WeightLog> = (x, path, issues) => {
+  if (!isObj(x) || !isStr(x.dateISO) || !isNum(x.weightKg)) return reject(path, issues);
+  return { dateISO: x.dateISO, weightKg: x.weightKg };
+};
+
+const checkWaterEntry: Check<WaterEntry> = (x, path, issues) => {
+  if (!isObj(x) || !isStr(x.id) || !isNum(x.t) || !isNum(x.ml) || !oneOf(DRINK_TYPES)(x.drink)) return reject(path, issues);
+  return { id: x.id, t: x.t, ml: x.ml, drink: x.drink };
+};
+
+const checkWaterGoal: Check<WaterDayGoal> = (x, path, issues) => {
+  if (!isObj(x) || !isStr(x.date) || !isNum(x.goalMl) || !isBool(x.hot) || !isNum(x.extraMin)) return reject(path, issues);
+  return { date: x.date, goalMl: x.goalMl, hot: x.hot, extraMin: x.extraMin };
+};
+
+const isHHMM = (x: unknown): x is string => isStr(x) && /^\d{2}:\d{2}$/.test(x);
+const isWeekdays = (x: unknown): x is number[] => Array.isArray(x) && x.every((d) => isNum(d) && d >= 0 && d <= 6);
+
+function schedule(x: unknown): ReminderSchedule | null {
+  if (!isObj(x)) return null;
+  if (x.kind === "daily" && isHHMM(x.timeHHMM) && isWeekdays(x.weekdays)) return { kind: "daily", timeHHMM: x.timeHHMM, weekdays: x.weekdays };
+  if (x.kind === "interval" && isNum(x.everyMin) && x.everyMin > 0 && isHHMM(x.fromHHMM) && isHHMM(x.toHHMM) && isWeekdays(x.weekdays))
+    return { kind: "interval", everyMin: x.everyMin, fromHHMM: x.fromHHMM, toHHMM: x.toHHMM, weekdays: x.weekdays };
+  if (x.kind === "once" && isStr(x.atLocal) && !Number.isNaN(new Date(x.atLocal).getTime())) return { kind: "once", atLocal: x.atLocal };
+  return null;
+}
+
+function payload(x: unknown): ReminderPayload | null {
+  if (!isObj(x) || !isNum(x.waterMl) || !isStr(x.checklistKey) || !isStr(x.supplementId)) return null;
+  return { waterMl: x.waterMl, checklistKey: x.checklistKey, supplementId: x.supplementId };
+}
+
+const checkReminder: Check<Reminder> = (x, path, issues) => {
+  const s = isObj(x) ? schedule(x.schedule) : null;
+  const p = isObj(x) ? payload(x.payload) : null;
+  if (
+    !isObj(x) ||
+    !isStr(x.id) ||
+    !isStr(x.title) ||
+    !isBool(x.enabled) ||
+    !oneOf(REMINDER_KINDS)(x.kind) ||
+    !s ||
+    !p ||
+    !optional(x.handledUntil, isNum) ||
+    !optional(x.snoozedUntil, isNum) ||
+    !optional(x.pendingAt, isNum)
+  )
+    return reject(path, issues);
+  return { id: x.id, title: x.title, enabled: x.enabled, kind: x.kind, schedule: s, payload: p, handledUntil: x.handledUntil, snoozedUntil: x.snoozedUntil, pendingAt: x.pendingAt };
+};
+
+const checkReminderEvent: Check<ReminderEvent> = (x, path, issues) => {
+  if (!isObj(x) || !isStr(x.id) || !isStr(x.reminderId) || !oneOf(REMINDER_EVENT_TYPES)(x.type) || !isNum(x.at) || !isNum(x.t)) return reject(path, issues);
+  return { id: x.id, reminderId: x.reminderId, type: x.type, at: x.at, t: x.t };
+};
+
+const checkSuppDose: Check<SuppDose> = (x, path, issues) => {
+  if (!isObj(x) || !isStr(x.id) || !isNum(x.t) || !isStr(x.supplementId) || !isStr(x.name) || !isNum(x.dose) || !isStr(x.unit) || !optional(x.reminderId, isStr)) return reject(path, issues);
+  return { id: x.id, t: x.t, supplementId: x.supplementId, name: x.name, dose: x.dose, unit: x.unit, reminderId: x.reminderId };
+};
+
+const checkSupplement: Check<Supplement> = (x, path, issues) => {
+  if (
+    !isObj(x) ||
+    !isStr(x.id) ||
+    !isStr(x.name) ||
+    !isNum(x.dose) ||
+    !isStr(x.unit) ||
+    !oneOf(SUPP_SCHEDULES)(x.schedule) ||
+    !(x.stock === null || isNum(x.stock)) ||
+    !isNum(x.lowStockDoses) ||
+    !isStr(x.since)
+  )
+    return reject(path, issues);
+  return { id: x.id, name: x.name, dose: x.dose, unit: x.unit, schedule: x.schedule, stock: x.stock, lowStockDoses: x.lowStockDoses, since: x.since };
+};
+
+const checkTemplateEntry: Check<TemplateEntry> = (x, path, issues) => {
+  if (!isObj(x) || !isStr(x.exoId) || !isNum(x.defaultRestSec) || !isNum(x.targetSets) || !isNum(x.repMin) || !isNum(x.repMax) || !optional(x.supersetId, isStr))
+    return reject(path, issues);
+  return { exoId: x.exoId, defaultRestSec: x.defaultRestSec, targetSets: x.targetSets, repMin: x.repMin, repMax: x.repMax, supersetId: x.supersetId };
+};
+
+const checkDay: Check<DayTemplate> = (x, path, issues) => {
+  if (!isObj(x) || !isStr(x.id) || !isStr(x.name)) return reject(path, issues);
+  return { id: x.id, name: x.name, entries: arrayOf(x.entries, `${path}.entries`, issues, checkTemplateEntry) };
+};
+
+function checkProgression(x: unknown, path: string, issues: string[]): ProgressionSettings {
+  if (!isObj(x) || !isObj(x.increment) || !isBool(x.useRpe) || !isNum(x.targetRpe) || !isNum(x.failuresBeforeDeload) || !isNum(x.deloadPct)) {
+    issues.push(`${path}: invalid`);
+    return DEFAULT_STATE.progression;
+  }
+  const d = DEFAULT_STATE.progression.increment;
+  const increment = { kg: num(x.increment.kg, `${path}.increment.kg`, issues, d.kg), lb: num(x.increment.lb, `${path}.increment.lb`, issues, d.lb) };
+  return { increment, useRpe: x.useRpe, targetRpe: x.targetRpe, failuresBeforeDeload: x.failuresBeforeDeload, deloadPct: x.deloadPct };
+}
+
+function checkWaterSettings(x: unknown, path: string, issues: string[]): WaterSettings {
+  const d = DEFAULT_STATE.water;
+  if (!isObj(x) || !isHHMM(x.dayStartHHMM) || !isBool(x.useFactors) || !isObj(x.factors)) {
+    issues.push(`${path}: invalid`);
+    return d;
+  }
+  const f = x.factors;
+  const factors = Object.fromEntries(DRINK_TYPES.map((k) => [k, num(f[k], `${path}.factors.${k}`, issues, d.factors[k])])) as Record<DrinkType, number>;
+  return { dayStartHHMM: x.dayStartHHMM, useFactors: x.useFactors, factors, goal: checkWaterGoalSettings(x.goal, `${path}.goal`, issues) };
+}
+
+function checkWaterGoalSettings(x: unknown, path: string, issues: string[]): WaterGoalSettings {
+  const d = DEFAULT_STATE.water.goal;
+  if (!isObj(x) || !isBool(x.adaptive)) {
+    issues.push(`${path}: invalid`);
+    return d;
+  }
+  return {
+    adaptive: x.adaptive,
+    mlPerKg: num(x.mlPerKg, `${path}.mlPerKg`, issues, d.mlPerKg),
+    mlPerTrainingMin: num(x.mlPerTrainingMin, `${path}.mlPerTrainingMin`, issues, d.mlPerTrainingMin),
+    hotDayMl: num(x.hotDayMl, `${path}.hotDayMl`, issues, d.hotDayMl),
+  };
+}
+
+function checkVolume(x: unknown, path: string, issues: string[]): VolumeSettings {
+  if (!isObj(x) || !isNum(x.secondaryCredit) || !isObj(x.targets)) {
+    issues.push(`${path}: invalid`);
+    return DEFAULT_STATE.volume;
+  }
+  const targets: VolumeSettings["targets"] = {};
+  Object.entries(x.targets).forEach(([m, t]) => {
+    if (isObj(t) && isNum(t.min) && isNum(t.max)) targets[m] = { min: t.min, max: t.max };
+    else issues.push(`${path}.targets.${m}: invalid`);
+  });
+  return { secondaryCredit: x.secondaryCredit, targets };
+}
+
+function checkPlates(x: unknown, path: string, issues: string[]): PlateSettings {
+  const plate = (p: unknown) => isObj(p) && isNum(p.size) && isNum(p.pairs);
+  const step = (w: unknown) => isObj(w) && isNum(w.pct) && isNum(w.reps);
+  if (
+    !isObj(x) ||
+    !oneOf(UNITS)(x.unit) ||
+    !isNum(x.bar) ||
+    !Array.isArray(x.plates) ||
+    !x.plates.every(plate) ||
+    !isNum(x.dumbbellStepKg) ||
+    !isNum(x.machineStepKg) ||
+    !Array.isArray(x.warmup) ||
+    !x.warmup.every(step)
+  ) {
+    issues.push(`${path}: invalid`);
+    return DEFAULT_STATE.plates;
+  }
+  return {
+    unit: x.unit,
+    bar: x.bar,
+    plates: x.plates.map((p) => ({ size: p.size, pairs: p.pairs })),
+    dumbbellStepKg: x.dumbbellStepKg,
+    machineStepKg: x.machineStepKg,
+    warmup: x.warmup.map((w) => ({ pct: w.pct, reps: w.reps })),
+  };
+}
+
+function checkRestTimer(x: unknown, path: string, issues: string[]): RestTimer | null {
+  if (x === null) return null;
+  if (!isObj(x) || !isNum(x.durationSec) || !optional(x.endsAt, isNum) || !optional(x.pausedSec, isNum) || !optional(x.exoId, isStr)) {
+    issues.push(`${path}: invalid`);
+    return null;
+  }
+  return { durationSec: x.durationSec, endsAt: x.endsAt, pausedSec: x.pausedSec, exoId: x.exoId };
+}
+
+function checkNutrition(x: unknown, path: string, issues: string[]): NutritionState {
+  if (!isObj(x) || !isObj(x.todaysChecklist) || !isStr(x.notes)) {
+    issues.push(`${path}: invalid`);
+    return DEFAULT_STATE.nutrition;
+  }
+  const todaysChecklist: Record<string, boolean> = {};
+  Object.entries(x.todaysChecklist).forEach(([k, v]) => {
+    if (isBool(v)) todaysChecklist[k] = v;
+    else issues.push(`${path}.todaysChecklist.${k}: boolean expected`);
+  });
+  return { todaysChecklist, notes: x.notes };
+}
+
+function num(x: unknown, path: string, issues: string[], fallback: number) {
+  if (isNum(x)) return x;
+  issues.push(`${path}: number expected`);
+  return fallback;
+}
+
+function str(x: unknown, path: string, issues: string[], fallback: string) {
+  if (isStr(x)) return x;
+  issues.push(`${path}: string expected`);
+  return fallback;
+}
+
+function bool(x: unknown, path: string, issues: string[], fallback: boolean) {
+  if (isBool(x)) return x;
+  issues.push(`${path}: boolean expected`);
+  return fallback;
+}
+
+function enumOf<T extends string>(x: unknown, values: readonly T[], path: string, issues: string[], fallback: T): T {
+  if (oneOf(values)(x)) return x;
+  issues.push(`${path}: one of ${values.join("|")} expected`);
+  return fallback;
+}
+
+// Expects a blob already brought up to SCHEMA_VERSION by migrate().
+export function validate(s: Blob): { state: AppState; issues: string[] } {
+  const issues: string[] = [];
+  const state: AppState = {
+    waterGoalMl: num(s.waterGoalMl, "waterGoalMl", issues, DEFAULT_STATE.waterGoalMl),
+    waterLog: arrayOf(s.waterLog, "waterLog", issues, checkWaterEntry),
+    water: checkWaterSettings(s.water, "water", issues),
+    waterGoals: arrayOf(s.waterGoals, "waterGoals", issues, checkWaterGoal),
+    bodyweight: arrayOf(s.bodyweight, "bodyweight", issues, checkWeight),
+    exercises: arrayOf(s.exercises, "exercises", issues, checkExo),
+    workoutTemplates: arrayOf(s.workoutTemplates, "workoutTemplates", issues, checkDay),
+    logs: arrayOf(s.logs, "logs", issues, checkLog),
+    drafts: arrayOf(s.drafts, "drafts", issues, checkLog),
+    progression: checkProgression(s.progression, "progression", issues),
+    e1rmFormula: enumOf(s.e1rmFormula, E1RM_FORMULAS, "e1rmFormula", issues, DEFAULT_STATE.e1rmFormula),
+    volume: checkVolume(s.volume, "volume", issues),
+    restTimer: checkRestTimer(s.restTimer, "restTimer", issues),
+    restAutoStart: bool(s.restAutoStart, "restAutoStart", issues, false),
+    plates: checkPlates(s.plates, "plates", issues),
+    units: enumOf(s.units, UNITS, "units", issues, "kg"),
+    reminders: arrayOf(s.reminders, "reminders", issues, checkReminder),
+    reminderEvents: arrayOf(s.reminderEvents, "reminderEvents", issues, checkReminderEvent),
+    supplements: arrayOf(s.supplements, "supplements", issues, checkSupplement),
+    suppDoses: arrayOf(s.suppDoses, "suppDoses", issues, checkSuppDose),
+    nutrition: checkNutrition(s.nutrition, "nutrition", issues),
+    checklistDate: str(s.checklistDate, "checklistDate", issues, ""),
+  };
+  return { state, issues };
+}
+
+export function toPersisted(s: AppState): Persisted {
+  return { ...s, schemaVersion: SCHEMA_VERSION };
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { SetEntry } from "./state";
+import { addDropSet, removeSetAt } from "./sets";
+import { LB } from "./units";
+
+const set = (weightKg: number): SetEntry => ({ id: "p", exoId: "x", weightKg, reps: 10 });
+
+describe("addDropSet", () => {
+  it("drops to ~80% on the kg grid", () => {
+    expect(addDropSet([set(100)], 0)[1]).toMatchObject({ weightKg: 80, kind: "drop", parentId: "p" });
+  });
+
+  it("drops on the lb plate grid for lb users", () => {
+    expect(addDropSet([set(225 * LB)], 0, "lb", 5)[1].weightKg / LB).toBeCloseTo(180);
+  });
+
+  it("adds assistance to an assisted set", () => {
+    expect(addDropSet([set(-20)], 0)[1].weightKg).toBe(-25);
+  });
+
+  it("chains after the drops already hanging off the set", () => {
+    const sets = addDropSet(addDropSet([set(100)], 0), 0);
+    expect(sets.map((s) => s.weightKg)).toEqual([100, 80, 65]);
+  });
+});
+
+describe("removeSetAt", () => {
+  it("takes the drop sets with their parent", () => {
+    const sets = [...addDropSet([set(100)], 0), { exoId: "x", weightKg: 100, reps: 8 }];
+    expect(removeSetAt(sets, 0)).toEqual([sets[2]]);
+  });
+});
@@ -0,0 +1,68 @@
+import { SetEntry, SetKind, Unit, uid } from "./state";
+import { UNIT_STEP, roundAssist, roundToUnit } from "./units";
+
+export const SET_KIND_LABELS: Record<SetKind, string> = {
+  working: "Normale",
+  warmup: "Échauffement",
+  drop: "Drop set",
+  failure: "Échec",
+  amrap: "AMRAP",
+  restpause: "Rest-pause",
+};
+
+export const kindOf = (s: SetEntry): SetKind => s.kind ?? "working";
+
+// Warm-ups never count: not in stats, volume, PRs or the next-load suggestion.
+export const isWorkSet = (s: SetEntry) => kindOf(s) !== "warmup";
+
+// Sets that count against a template's target and drive progression. Drop sets
+// ride on their parent and would read as failed sets at a lighter load.
+export const isStraightSet = (s: SetEntry) => kindOf(s) !== "warmup" && kindOf(s) !== "drop";
+
+// "#2", "É1", "#2↘" for the set list.
+export function setLabels(sets: SetEntry[]) {
+  let work = 0;
+  let warm = 0;
+  return sets.map((s) => {
+    if (kindOf(s) === "warmup") return `É${++warm}`;
+    if (kindOf(s) === "drop") return `#${work}↘`;
+    return `#${++work}`;
+  });
+}
+
+// Inserts a drop set after sets[idx] (and any drops already hanging off it), at ~80% of its load
+// on the unit's grid; an assisted set (negative load) drops by taking more assistance.
+export function addDropSet(sets: SetEntry[], idx: number, unit: Unit = "kg", step = UNIT_STEP[unit]): SetEntry[] {
+  const parent = { ...sets[idx], id: sets[idx].id ?? uid() };
+  let at = idx + 1;
+  while (at < sets.length && kindOf(sets[at]) === "drop" && sets[at].parentId === parent.id) at++;
+  const prev = sets[at - 1];
+  const weightKg = prev.weightKg < 0 ? roundAssist(prev.weightKg / 0.8, unit, step) : roundToUnit(prev.weightKg * 0.8, unit, step);
+  const drop: SetEntry = { exoId: parent.exoId, weightKg, reps: prev.reps, kind: "drop", parentId: parent.id, at: new Date().toISOString() };
+  const out = sets.slice();
+  out[idx] = parent;
+  out.splice(at, 0, drop);
+  return out;
+}
+
+// Changing the type keeps the drop link consistent: a drop set hangs off the
+// closest earlier straight set of the same exercise.
+export function changeKind(sets: SetEntry[], idx: number, kind: SetKind): SetEntry[] {
+  const out = sets.slice();
+  const s: SetEntry = { ...out[idx], kind: kind === "working" ? undefined : kind, parentId: undefined };
+  if (kind === "drop") {
+    const p = out.slice(0, idx).findLastIndex((x) => x.exoId === s.exoId && isStraightSet(x));
+    if (p >= 0) {
+      out[p] = { ...out[p], id: out[p].id ?? uid() };
+      s.parentId = out[p].id;
+    }
+  }
+  out[idx] = s;
+  return out;
+}
+
+// Removing a set takes its drop sets with it.
+export function removeSetAt(sets: SetEntry[], idx: number): SetEntry[] {
+  const id = sets[idx].id;
+  return sets.filter((x, i) => i !== idx && !(id && x.parentId === id));
+}
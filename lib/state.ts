@@ -0,0 +1,323 @@
+export type TrackingMode = "weight_reps" | "bodyweight" | "assisted" | "duration" | "distance";
+
+export type Equipment = "barbell" | "dumbbell" | "machine" | "cable" | "kettlebell" | "bodyweight" | "band" | "other";
+
+export type MovementPattern = "push" | "pull" | "squat" | "hinge" | "lunge" | "carry" | "core" | "isolation";
+
+export type Exo = {
+  id: string;
+  name: string;
+  muscles: string[];
+  imageUrl?: string; // legacy remote image, superseded by photoId
+  photoId?: string; // key of a local photo in the "photos" store
+  mode?: TrackingMode; // absent = weight_reps
+  equipment?: Equipment; // absent = other
+  pattern?: MovementPattern;
+  barKg?: number; // overrides the default bar (EZ bar, trap bar...)
+  loadStep?: number; // dumbbell / stack increment in kg, overrides the default
+};
+export type SetKind = "working" | "warmup" | "drop" | "failure" | "amrap" | "restpause";
+export type SetEntry = {
+  exoId: string;
+  weightKg: number; // added load for bodyweight exercises, negative when assisted
+  reps: number;
+  durationSec?: number;
+  distanceM?: number;
+  rpe?: number;
+  rir?: number;
+  tempo?: string; // e.g. "3-1-1-0"
+  kind?: SetKind; // absent = working set
+  id?: string; // only given to sets that drop sets point at
+  parentId?: string; // drop set -> the set it continues
+  at?: string; // ISO, when the set was logged
+};
+// dayName is a snapshot taken at save time, so logs still read right after their day is renamed or deleted
+export type WorkoutLog = { id: string; dateISO: string; dayId: string; dayName: string; notes?: string; sets: SetEntry[] };
+export type WeightLog = { dateISO: string; weightKg: number };
+
+export type ReminderKind = "water" | "meal" | "supp";
+// weekdays use Date.getDay() numbers (0 = Sunday); empty = every day
+export type ReminderSchedule =
+  | { kind: "daily"; timeHHMM: string; weekdays: number[] }
+  | { kind: "interval"; everyMin: number; fromHHMM: string; toHHMM: string; weekdays: number[] }
+  | { kind: "once"; atLocal: string }; // YYYY-MM-DDTHH:MM, local time
+export type Reminder = {
+  id: string;
+  title: string;
+  enabled: boolean;
+  kind: ReminderKind;
+  schedule: ReminderSchedule;
+  payload: ReminderPayload;
+  handledUntil?: number; // epoch ms; occurrences up to here have rung or been skipped
+  snoozedUntil?: number; // epoch ms
+  pendingAt?: number; // epoch ms of the ring waiting for an answer
+};
+// What acknowledging a reminder does; only the part matching its kind applies.
+export type ReminderPayload = { waterMl: number; checklistKey: string; supplementId: string };
+export type ReminderEventType = "fire" | "ack" | "snooze" | "miss";
+export type ReminderEvent = { id: string; reminderId: string; type: ReminderEventType; at: number; t: number }; // at = the ring, t = when it happened
+// name, dose and unit are a snapshot taken when the dose is logged
+export type SuppDose = { id: string; t: number; supplementId: string; name: string; dose: number; unit: string; reminderId?: string };
+export type SuppSchedule = "daily" | "training" | "post_workout";
+export type Supplement = {
+  id: string;
+  name: string;
+  dose: number;
+  unit: string;
+  schedule: SuppSchedule;
+  stock: number | null; // left, in `unit`; null = not tracked
+  lowStockDoses: number; // warn when this many doses or fewer are left
+  since: string; // YYYY-MM-DD, history starts here
+};
+export type DrinkType = "water" | "coffee" | "tea" | "shake";
+export type WaterEntry = { id: string; t: number; ml: number; drink: DrinkType }; // t = epoch ms
+export type WaterSettings = {
+  dayStartHHMM: string; // drinks before this time count toward the previous day
+  useFactors: boolean;
+  factors: Record<DrinkType, number>; // share of the volume that counts as hydration
+  goal: WaterGoalSettings;
+};
+export type WaterGoalSettings = {
+  adaptive: boolean; // computed each day instead of the fixed waterGoalMl
+  mlPerKg: number; // baseline, from the latest bodyweight
+  mlPerTrainingMin: number; // saved sessions and manually added exercise minutes
+  hotDayMl: number;
+};
+// One per water day (see lib/water.ts), kept as it was once the day is over.
+export type WaterDayGoal = { date: string; goalMl: number; hot: boolean; extraMin: number };
+
+// entries sharing a supersetId are done back to back; rest comes after the last one
+export type TemplateEntry = { exoId: string; defaultRestSec: number; targetSets: number; repMin: number; repMax: number; supersetId?: string };
+export type DayTemplate = { id: string; name: string; entries: TemplateEntry[] };
+
+export type ProgressionSettings = {
+  increment: Record<Unit, number>; // smallest load jump, in each unit (2.5 kg is no lb plate)
+  useRpe: boolean; // autoregulate from logged RPE
+  targetRpe: number;
+  failuresBeforeDeload: number; // 0 = never deload
+  deloadPct: number;
+};
+
+export type E1rmFormula = "epley" | "brzycki";
+
+export type VolumeSettings = {
+  secondaryCredit: number; // fraction of a set credited to non-primary muscles
+  targets: Record<string, { min: number; max: number }>; // weekly hard sets per muscle
+};
+
+export type Unit = "kg" | "lb";
+
+export type PlateSettings = {
+  unit: Unit; // unit of the bar and plates below
+  bar: number;
+  plates: { size: number; pairs: number }[]; // inventory
+  dumbbellStepKg: number;
+  machineStepKg: number;
+  warmup: { pct: number; reps: number }[]; // ramp towards the working weight
+};
+
+export type RestTimer = {
+  durationSec: number;
+  endsAt?: number; // epoch ms while running
+  pausedSec?: number; // remaining seconds while paused
+  exoId?: string;
+};
+
+export type NutritionState = {
+  todaysChecklist: Record<string, boolean>;
+  notes: string;
+};
+
+export type AppState = {
+  waterGoalMl: number;
+  waterLog: WaterEntry[]; // daily totals are computed from it
+  water: WaterSettings;
+  waterGoals: WaterDayGoal[]; // each day's goal, so history is judged against the goal of its day
+  bodyweight: WeightLog[];
+
+  exercises: Exo[];
+  workoutTemplates: DayTemplate[]; // the user's split, in order
+  logs: WorkoutLog[];
+  drafts: WorkoutLog[]; // unsaved in-progress sessions, persisted so a reload doesn't lose them
+  progression: ProgressionSettings;
+  e1rmFormula: E1rmFormula;
+  volume: VolumeSettings;
+  restTimer: RestTimer | null;
+  restAutoStart: boolean; // start the template's rest after each logged set
+  units: Unit; // display and input only, storage stays in kg
+  plates: PlateSettings;
+
+  reminders: Reminder[];
+  reminderEvents: ReminderEvent[];
+  supplements: Supplement[];
+  suppDoses: SuppDose[];
+  nutrition: NutritionState;
+  checklistDate: string; // day the checklist was last reset
+};
+
+export const UNITS: Unit[] = ["kg", "lb"];
+export const REMINDER_KINDS: ReminderKind[] = ["water", "meal", "supp"];
+export const REMINDER_EVENT_TYPES: ReminderEventType[] = ["fire", "ack", "snooze", "miss"];
+export const DRINK_TYPES: DrinkType[] = ["water", "coffee", "tea", "shake"];
+export const SUPP_SCHEDULES: SuppSchedule[] = ["daily", "training", "post_workout"];
+export const DEFAULT_PAYLOAD: ReminderPayload = { waterMl: 250, checklistKey: "", supplementId: "" };
+export const EQUIPMENTS: Equipment[] = ["barbell", "dumbbell", "machine", "cable", "kettlebell", "bodyweight", "band", "other"];
+export const MOVEMENT_PATTERNS: MovementPattern[] = ["push", "pull", "squat", "hinge", "lunge", "carry", "core", "isolation"];
+export const TRACKING_MODES: TrackingMode[] = ["weight_reps", "bodyweight", "assisted", "duration", "distance"];
+export const SET_KINDS: SetKind[] = ["working", "warmup", "drop", "failure", "amrap", "restpause"];
+export const E1RM_FORMULAS: E1rmFormula[] = ["epley", "brzycki"];
+
+export const LS_KEY = "myallinone_v2";
+// The app's one day key (YYYY-MM-DD, local calendar). dayStartHHMM moves the boundary
+// for the daily tracking: with "04:00", a glass at 01:30 belongs to the evening before.
+export function dayKey(t: number, dayStartHHMM = "00:00") {
+  const [h, m] = dayStartHHMM.split(":").map(Number);
+  const d = new Date(t);
+  d.setHours(d.getHours() - h, d.getMinutes() - m);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+export const todayKey = (dayStartHHMM?: string) => dayKey(Date.now(), dayStartHHMM);
+// Logs carry a full ISO timestamp, weigh-ins a bare date that already is a day key.
+export const dayOfISO = (iso: string, dayStartHHMM?: string) => (/^\d{4}-\d{2}-\d{2}$/.test(iso) ? iso : dayKey(Date.parse(iso), dayStartHHMM));
+export function shiftDay(day: string, n: number) {
+  const [y, m, d] = day.split("-").map(Number);
+  return dayKey(new Date(y, m - 1, d + n).getTime());
+}
+export const uid = () => Math.random().toString(36).slice(2) + Date.now().toString(36);
+
+export const DEFAULT_EXOS: Exo[] = [
+  { id: "incline_db_press", name: "Incline Dumbbell Bench Press", muscles: ["chest", "front delts", "triceps"], equipment: "dumbbell", pattern: "push" },
+  { id: "bench_press", name: "Barbell Bench Press", muscles: ["chest", "triceps"], equipment: "barbell", pattern: "push" },
+  { id: "pec_deck", name: "Chest Butterfly / Pec Deck", muscles: ["chest"], equipment: "machine", pattern: "isolation" },
+  { id: "lat_pulldown", name: "Lat Pulldown", muscles: ["lats", "back"], equipment: "cable", pattern: "pull" },
+  { id: "1arm_row", name: "One-Arm Dumbbell Row", muscles: ["lats", "back"], equipment: "dumbbell", pattern: "pull" },
+  { id: "cable_row", name: "Seated Cable Row", muscles: ["back"], equipment: "cable", pattern: "pull" },
+  { id: "pullover", name: "Cable Pullover", muscles: ["lats"], equipment: "cable", pattern: "isolation" },
+  { id: "lateral_raise", name: "Lateral Raise", muscles: ["side delts"], equipment: "dumbbell", pattern: "isolation" },
+  { id: "triceps_ext", name: "Machine Tricep Extension", muscles: ["triceps"], equipment: "machine", pattern: "isolation" },
+  { id: "ez_curl", name: "EZ Bar Curl", muscles: ["biceps"], equipment: "barbell", barKg: 10, pattern: "isolation" },
+  { id: "incline_curl", name: "Incline Dumbbell Curl", muscles: ["biceps"], equipment: "dumbbell", pattern: "isolation" },
+  { id: "leg_press", name: "Leg Press", muscles: ["legs"], equipment: "machine", pattern: "squat" },
+  { id: "leg_curl", name: "Leg Curl", muscles: ["hamstrings"], equipment: "machine", pattern: "isolation" },
+  { id: "leg_ext", name: "Leg Extension", muscles: ["quads"], equipment: "machine", pattern: "isolation" },
+  { id: "calves", name: "Standing Calf Raise", muscles: ["calves"], equipment: "machine", pattern: "isolation" },
+];
+
+export const DEFAULT_SUPPLEMENTS: Supplement[] = [
+  { id: "creatine", name: "Créatine", dose: 5, unit: "g", schedule: "daily", stock: null, lowStockDoses: 7, since: todayKey() },
+  { id: "gainer", name: "Gainer", dose: 100, unit: "g", schedule: "post_workout", stock: null, lowStockDoses: 7, since: todayKey() },
+];
+
+export const DEFAULT_STATE: AppState = {
+  waterGoalMl: 3000,
+  waterLog: [],
+  water: {
+    dayStartHHMM: "04:00",
+    useFactors: false,
+    factors: { water: 1, coffee: 0.8, tea: 0.9, shake: 1 },
+    goal: { adaptive: false, mlPerKg: 35, mlPerTrainingMin: 10, hotDayMl: 500 },
+  },
+  waterGoals: [],
+  bodyweight: [],
+  exercises: DEFAULT_EXOS,
+  workoutTemplates: [
+    {
+      id: "PUSH",
+      name: "PUSH",
+      entries: [
+        { exoId: "incline_db_press", defaultRestSec: 120, targetSets: 4, repMin: 8, repMax: 12 },
+        { exoId: "bench_press", defaultRestSec: 150, targetSets: 4, repMin: 6, repMax: 10 },
+        { exoId: "pec_deck", defaultRestSec: 90, targetSets: 3, repMin: 10, repMax: 15 },
+        { exoId: "lateral_raise", defaultRestSec: 75, targetSets: 4, repMin: 12, repMax: 20 },
+        { exoId: "triceps_ext", defaultRestSec: 75, targetSets: 3, repMin: 10, repMax: 15 },
+      ],
+    },
+    {
+      id: "PULL",
+      name: "PULL",
+      entries: [
+        { exoId: "lat_pulldown", defaultRestSec: 120, targetSets: 4, repMin: 8, repMax: 12 },
+        { exoId: "1arm_row", defaultRestSec: 120, targetSets: 3, repMin: 8, repMax: 12 },
+        { exoId: "cable_row", defaultRestSec: 105, targetSets: 3, repMin: 10, repMax: 12 },
+        { exoId: "pullover", defaultRestSec: 75, targetSets: 3, repMin: 12, repMax: 15 },
+        { exoId: "ez_curl", defaultRestSec: 75, targetSets: 3, repMin: 8, repMax: 12 },
+        { exoId: "incline_curl", defaultRestSec: 75, targetSets: 3, repMin: 10, repMax: 15 },
+      ],
+    },
+    {
+      id: "LEGS",
+      name: "LEGS",
+      entries: [
+        { exoId: "leg_press", defaultRestSec: 150, targetSets: 4, repMin: 8, repMax: 12 },
+        { exoId: "leg_curl", defaultRestSec: 90, targetSets: 3, repMin: 10, repMax: 15 },
+        { exoId: "leg_ext", defaultRestSec: 90, targetSets: 3, repMin: 12, repMax: 15 },
+        { exoId: "calves", defaultRestSec: 75, targetSets: 4, repMin: 12, repMax: 20 },
+      ],
+    },
+  ],
+  logs: [],
+  drafts: [],
+  progression: { increment: { kg: 2.5, lb: 5 }, useRpe: true, targetRpe: 8, failuresBeforeDeload: 2, deloadPct: 10 },
+  e1rmFormula: "epley",
+  volume: {
+    secondaryCredit: 0.5,
+    targets: {
+      chest: { min: 10, max: 20 },
+      back: { min: 10, max: 20 },
+      lats: { min: 10, max: 20 },
+      "side delts": { min: 8, max: 20 },
+      triceps: { min: 6, max: 14 },
+      biceps: { min: 6, max: 14 },
+      legs: { min: 8, max: 16 },
+      quads: { min: 8, max: 18 },
+      hamstrings: { min: 6, max: 14 },
+      calves: { min: 6, max: 16 },
+    },
+  },
+  restTimer: null,
+  restAutoStart: false,
+  units: "kg",
+  plates: {
+    unit: "kg",
+    bar: 20,
+    plates: [
+      { size: 25, pairs: 2 },
+      { size: 20, pairs: 2 },
+      { size: 15, pairs: 1 },
+      { size: 10, pairs: 2 },
+      { size: 5, pairs: 2 },
+      { size: 2.5, pairs: 2 },
+      { size: 1.25, pairs: 2 },
+    ],
+    dumbbellStepKg: 2,
+    machineStepKg: 5,
+    warmup: [
+      { pct: 0, reps: 10 }, // empty bar
+      { pct: 40, reps: 5 },
+      { pct: 60, reps: 3 },
+      { pct: 80, reps: 2 },
+    ],
+  },
+  reminders: [
+    { id: "r1", title: "Eau (250ml)", enabled: true, kind: "water", schedule: { kind: "interval", everyMin: 90, fromHHMM: "09:00", toHHMM: "21:00", weekdays: [] }, payload: DEFAULT_PAYLOAD },
+    { id: "r2", title: "Déjeuner / repas", enabled: true, kind: "meal", schedule: { kind: "daily", timeHHMM: "13:30", weekdays: [] }, payload: { ...DEFAULT_PAYLOAD, checklistKey: "Déjeuner" } },
+    { id: "r3", title: "Collation", enabled: true, kind: "meal", schedule: { kind: "daily", timeHHMM: "17:00", weekdays: [] }, payload: { ...DEFAULT_PAYLOAD, checklistKey: "Collation" } },
+    { id: "r4", title: "Créatine (5g)", enabled: true, kind: "supp", schedule: { kind: "daily", timeHHMM: "19:30", weekdays: [] }, payload: { ...DEFAULT_PAYLOAD, supplementId: "creatine" } },
+  ],
+  reminderEvents: [],
+  supplements: DEFAULT_SUPPLEMENTS,
+  suppDoses: [],
+  nutrition: {
+    todaysChecklist: {
+      "Petit-déj (même petit)": false,
+      "Déjeuner": false,
+      "Collation": false,
+      "Dîner": false,
+      "Eau ≥ 2.5L": false,
+    },
+    notes: "",
+  },
+  checklistDate: "", // set by the first rollover
+};
+
+export const dayLabel = (log: WorkoutLog, days: DayTemplate[]) => days.find((d) => d.id === log.dayId)?.name ?? log.dayName;
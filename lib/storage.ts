@@ -0,0 +1,181 @@
+import { AppState, DEFAULT_STATE, LS_KEY, Reminder, ReminderEvent, SuppDose, WaterDayGoal, WaterEntry, WorkoutLog } from "./state";
+import { SCHEMA_VERSION, migrate, validate } from "./schema";
+import { DataStore, WriteOp, openDataStore } from "./db";
+import { waterDay } from "./water";
+
+export type LoadResult = {
+  state: AppState;
+  issues: string[];
+  quarantinedAt?: string; // set when the stored data was copied aside
+  // the copy failed: the original, for the user to download; nothing is saved until then
+  unsafeRaw?: string;
+};
+
+// Everything that is not a growing collection lives in a single "meta" record.
+type Meta = Omit<AppState, "logs" | "drafts" | "bodyweight" | "waterLog" | "waterGoals" | "reminders" | "reminderEvents" | "suppDoses"> & { schemaVersion: number };
+const META_KEY = "app";
+
+// Keep an untouched copy of data we could not fully read, so the next save can't destroy it.
+// The "quarantine" store first, localStorage if that fails; undefined when neither took it.
+async function quarantine(db: DataStore, raw: string, issues: string[]) {
+  const at = new Date().toISOString();
+  try {
+    await db.put("quarantine", { at, issues, raw });
+    console.warn(`[storage] stored data had problems, original copied to quarantine (${at})`, issues);
+    return at;
+  } catch (e) {
+    console.error("[storage] quarantine write failed", e);
+  }
+  try {
+    localStorage.setItem(`${LS_KEY}_quarantine_${at}`, raw);
+    console.warn(`[storage] stored data had problems, original copied to localStorage (${at})`, issues);
+    return at;
+  } catch (e) {
+    console.error("[storage] no copy of the original could be kept", e, issues);
+    return undefined;
+  }
+}
+
+// The meal checklist starts over each new day, on the same day boundary as water.
+// Water itself needs nothing: its daily totals come from timestamps.
+export function rollover(s: AppState, now = Date.now()): AppState {
+  const t = waterDay(now, s.water.dayStartHHMM);
+  if (s.checklistDate === t) return s;
+  const todaysChecklist = Object.fromEntries(Object.keys(s.nutrition.todaysChecklist).map((k) => [k, false]));
+  return { ...s, checklistDate: t, nutrition: { ...s.nutrition, todaysChecklist } };
+}
+
+async function readBlob(db: DataStore): Promise<{ raw: string | null; blob?: unknown }> {
+  const meta = await db.get<{ key: string; value: Meta }>("meta", META_KEY);
+  if (!meta) {
+    // one-time import of the old single-blob localStorage format
+    return { raw: localStorage.getItem(LS_KEY) };
+  }
+  const [logs, drafts, bodyweight, waterLog, waterGoals, waterHistory, reminders, reminderEvents, suppDoses] = await Promise.all([
+    db.getAll<WorkoutLog>("logs"),
+    db.getAll<WorkoutLog>("drafts"),
+    db.getAll("bodyweight"),
+    db.getAll<WaterEntry>("drinks"),
+    db.getAll<WaterDayGoal>("watergoals"),
+    // per-day totals, only read to migrate data older than schema 16
+    meta.value.schemaVersion < 16 ? db.getAll("water") : Promise.resolve([]),
+    db.getAll<Reminder & { pos?: number }>("reminders"),
+    db.getAll<ReminderEvent>("events"),
+    db.getAll<SuppDose>("doses"),
+  ]);
+  logs.sort((a, b) => b.dateISO.localeCompare(a.dateISO));
+  reminders.sort((a, b) => (a.pos ?? 0) - (b.pos ?? 0)).forEach((r) => delete r.pos);
+  drafts.sort((a, b) => a.dateISO.localeCompare(b.dateISO));
+  reminderEvents.sort((a, b) => a.t - b.t);
+  suppDoses.sort((a, b) => a.t - b.t);
+  waterLog.sort((a, b) => a.t - b.t);
+  const blob = { ...meta.value, logs, drafts, bodyweight, waterLog, waterGoals, waterHistory, reminders, reminderEvents, suppDoses };
+  return { raw: JSON.stringify(blob), blob };
+}
+
+export type Session = { result: LoadResult; saver: Saver };
+
+export async function loadState(): Promise<Session> {
+  const db = await openDataStore();
+  const { raw, blob } = await readBlob(db);
+  if (raw === null) return { result: { state: DEFAULT_STATE, issues: [] }, saver: new Saver(db, null) };
+  try {
+    const parsed = blob ?? JSON.parse(raw);
+    const upToDate = (parsed as { schemaVersion?: number }).schemaVersion === SCHEMA_VERSION && blob !== undefined;
+    const { state, issues } = validate(migrate(parsed));
+    const quarantinedAt = issues.length ? await quarantine(db, raw, issues) : undefined;
+    const unsafeRaw = issues.length && !quarantinedAt ? raw : undefined;
+    // anything migrated, repaired or imported gets rewritten in full
+    const baseline = upToDate && !issues.length ? state : null;
+    return { result: { state: rollover(state), issues, quarantinedAt, unsafeRaw }, saver: new Saver(db, baseline, !!unsafeRaw) };
+  } catch (e) {
+    const issues = [String(e instanceof Error ? e.message : e)];
+    const quarantinedAt = await quarantine(db, raw, issues);
+    return { result: { state: DEFAULT_STATE, issues, quarantinedAt, unsafeRaw: quarantinedAt ? undefined : raw }, saver: new Saver(db, null, !quarantinedAt) };
+  }
+}
+
+const RETRY_MS = 5000;
+
+// Writes are debounced and diffed against the last saved state by reference,
+// so typing in a notes field only rewrites the meta record. The baseline only
+// moves once a write has landed: after a failure the next write diffs against
+// the last good save again, so nothing in between is dropped.
+export class Saver {
+  private pending: AppState | null = null;
+  private timer: number | null = null;
+  private writing: Promise<void> = Promise.resolve();
+  onStatus?: (error: string | null) => void; // null once a save goes through
+
+  // held: the damaged original has no copy yet, so writing over it waits for release()
+  constructor(private db: DataStore, private saved: AppState | null, private held = false, private delayMs = 400) {}
+
+  release() {
+    this.held = false;
+    return this.flush();
+  }
+
+  schedule(s: AppState) {
+    this.pending = s;
+    if (this.timer !== null) window.clearTimeout(this.timer);
+    this.timer = window.setTimeout(() => this.flush(), this.delayMs);
+  }
+
+  flush() {
+    if (this.timer !== null) window.clearTimeout(this.timer);
+    this.timer = null;
+    // one write at a time, each diffed against what the previous one actually saved
+    this.writing = this.writing.then(() => this.write());
+    return this.writing;
+  }
+
+  private async write() {
+    if (this.held) return;
+    const next = this.pending;
+    if (!next) return;
+    this.pending = null;
+    try {
+      await this.db.write(diff(this.saved, next));
+      this.saved = next;
+      this.onStatus?.(null);
+    } catch (e) {
+      console.error("[storage] save failed", e);
+      this.pending ??= next;
+      this.onStatus?.(String(e instanceof Error ? e.message : e));
+      if (this.timer === null) this.timer = window.setTimeout(() => this.flush(), RETRY_MS);
+    }
+  }
+}
+
+function diffById<T>(store: WriteOp["store"], prev: T[] | undefined, next: T[], key: (x: T) => string): WriteOp[] {
+  if (!prev) return [{ store, clear: true }, ...next.map((put) => ({ store, put }))];
+  if (prev === next) return [];
+  const before = new Map(prev.map((x) => [key(x), x]));
+  const ops: WriteOp[] = [];
+  next.forEach((x) => {
+    if (before.get(key(x)) !== x) ops.push({ store, put: x });
+    before.delete(key(x));
+  });
+  before.forEach((_, del) => ops.push({ store, del }));
+  return ops;
+}
+
+function diff(prev: AppState | null, next: AppState): WriteOp[] {
+  const { logs, drafts, bodyweight, waterLog, waterGoals, reminders, reminderEvents, suppDoses, ...rest } = next;
+  const ops = [
+    ...diffById("logs", prev?.logs, logs, (l) => l.id),
+    ...diffById("drafts", prev?.drafts, drafts, (l) => l.id),
+    ...diffById("bodyweight", prev?.bodyweight, bodyweight, (w) => w.dateISO),
+    ...diffById("drinks", prev?.waterLog, waterLog, (e) => e.id),
+    ...diffById("watergoals", prev?.waterGoals, waterGoals, (g) => g.date),
+    ...diffById("events", prev?.reminderEvents, reminderEvents, (e) => e.id),
+    ...diffById("doses", prev?.suppDoses, suppDoses, (d) => d.id),
+  ];
+  // a full rewrite happens after migrating, when the legacy per-day totals have moved to "drinks"
+  if (!prev) ops.push({ store: "water", clear: true });
+  // reminders are a short ordered list: rewrite it whole
+  if (prev?.reminders !== reminders) ops.push({ store: "reminders", clear: true }, ...reminders.map((r, pos) => ({ store: "reminders" as const, put: { ...r, pos } })));
+  const metaChanged = !prev || (Object.keys(rest) as (keyof typeof rest)[]).some((k) => prev[k] !== rest[k]);
+  if (metaChanged) ops.push({ store: "meta", put: { key: META_KEY, value: { ...rest, schemaVersion: SCHEMA_VERSION } } });
+  return ops;
+}
@@ -0,0 +1,73 @@
+import { AppState, SuppDose, SuppSchedule, Supplement, WorkoutLog, dayKey, dayOfISO, shiftDay, todayKey, uid } from "./state";
+
+export const SUPP_SCHEDULE_LABELS: Record<SuppSchedule, string> = { daily: "Tous les jours", training: "Jours d’entraînement", post_workout: "Après chaque séance" };
+
+export const newSupplement = (): Supplement => ({ id: uid(), name: "Nouveau complément", dose: 1, unit: "g", schedule: "daily", stock: null, lowStockDoses: 7, since: todayKey() });
+
+export const dosesLeft = (p: Supplement) => (p.stock === null || p.dose <= 0 ? null : Math.floor(p.stock / p.dose));
+
+export function isLowStock(p: Supplement) {
+  const left = dosesLeft(p);
+  return left !== null && left <= p.lowStockDoses;
+}
+
+// Takes one dose: logged with a snapshot of the dose, and the stock goes down.
+export function logDose(s: AppState, supplementId: string, t = Date.now(), reminderId?: string): AppState {
+  const p = s.supplements.find((x) => x.id === supplementId);
+  if (!p) return s;
+  const dose: SuppDose = { id: uid(), t, supplementId, name: p.name, dose: p.dose, unit: p.unit, reminderId };
+  return {
+    ...s,
+    supplements: s.supplements.map((x) => (x.id === supplementId && x.stock !== null ? { ...x, stock: Math.max(0, x.stock - p.dose) } : x)),
+    suppDoses: [...s.suppDoses, dose],
+  };
+}
+
+// Logged by mistake: the dose goes back into the stock.
+export function undoDose(s: AppState, doseId: string): AppState {
+  const d = s.suppDoses.find((x) => x.id === doseId);
+  if (!d) return s;
+  return {
+    ...s,
+    supplements: s.supplements.map((x) => (x.id === d.supplementId && x.stock !== null ? { ...x, stock: x.stock + d.dose } : x)),
+    suppDoses: s.suppDoses.filter((x) => x.id !== doseId),
+  };
+}
+
+// Removing a supplement keeps its logged doses; reminders pointing at it stop logging.
+export const deleteSupplement = (s: AppState, id: string): AppState => ({
+  ...s,
+  supplements: s.supplements.filter((x) => x.id !== id),
+  reminders: s.reminders.map((r) => (r.payload.supplementId === id ? { ...r, payload: { ...r.payload, supplementId: "" } } : r)),
+});
+
+export type SuppDay = { date: string; expected: number; taken: number; missed: number };
+
+// Doses expected vs taken per day, oldest first. "Training days" expects one dose on a day with
+// a saved session, "after each session" one per session. Today can't be missed yet.
+// Days start at dayStartHHMM, like water's.
+export function suppHistory(p: Supplement, doses: SuppDose[], logs: WorkoutLog[], dayStartHHMM = "00:00", today = todayKey(dayStartHHMM), days = 14): SuppDay[] {
+  const count = (m: Map<string, number>, day: string) => m.set(day, (m.get(day) ?? 0) + 1);
+  const sessions = new Map<string, number>();
+  logs.forEach((l) => count(sessions, dayOfISO(l.dateISO, dayStartHHMM)));
+  const taken = new Map<string, number>();
+  doses.forEach((d) => d.supplementId === p.id && count(taken, dayKey(d.t, dayStartHHMM)));
+  const out: SuppDay[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    const date = shiftDay(today, -i);
+    const n = sessions.get(date) ?? 0;
+    const expected = date < p.since ? 0 : p.schedule === "daily" ? 1 : p.schedule === "training" ? Math.min(1, n) : n;
+    const t = taken.get(date) ?? 0;
+    out.push({ date, expected, taken: t, missed: date === today ? 0 : Math.max(0, expected - t) });
+  }
+  return out;
+}
+
+// Offered right after a session is saved: every post-workout supplement, and the training-day ones not taken yet today.
+export function postWorkoutSupplements(s: AppState, now = Date.now()): Supplement[] {
+  const day = (t: number) => dayKey(t, s.water.dayStartHHMM);
+  const today = day(now);
+  return s.supplements.filter((p) => p.schedule === "post_workout" || (p.schedule === "training" && !s.suppDoses.some((d) => d.supplementId === p.id && day(d.t) === today)));
+}
+
+export const describeDose = (p: { name: string; dose: number; unit: string }) => `${p.name} ${p.dose} ${p.unit}`;
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { newEntry, restsAfter } from "./templates";
+
+describe("restsAfter", () => {
+  const entries = [newEntry("a"), { ...newEntry("b"), supersetId: "s" }, newEntry("c"), { ...newEntry("d"), supersetId: "s" }];
+
+  it("rests after an exercise outside any superset", () => {
+    expect(restsAfter(entries, "a")).toBe(true);
+  });
+
+  it("rests only after the last exercise of a superset", () => {
+    expect(restsAfter(entries, "b")).toBe(false);
+    expect(restsAfter(entries, "d")).toBe(true);
+  });
+
+  it("does not rest for an exercise not in the day", () => {
+    expect(restsAfter(entries, "z")).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+import { DayTemplate, TemplateEntry, uid } from "./state";
+
+// Pure helpers for editing the user's split. All return a new array.
+
+export function moveItem<T>(list: T[], from: number, to: number): T[] {
+  if (to < 0 || to >= list.length || from === to) return list;
+  const out = list.slice();
+  const [x] = out.splice(from, 1);
+  out.splice(to, 0, x);
+  return out;
+}
+
+export const addDay = (days: DayTemplate[], name: string): DayTemplate[] => [...days, { id: uid(), name, entries: [] }];
+
+export const renameDay = (days: DayTemplate[], id: string, name: string) => days.map((d) => (d.id === id ? { ...d, name } : d));
+
+export const removeDay = (days: DayTemplate[], id: string) => days.filter((d) => d.id !== id);
+
+function patchDay(days: DayTemplate[], id: string, f: (entries: TemplateEntry[]) => TemplateEntry[]) {
+  return days.map((d) => (d.id === id ? { ...d, entries: f(d.entries) } : d));
+}
+
+export const newEntry = (exoId: string): TemplateEntry => ({ exoId, defaultRestSec: 90, targetSets: 3, repMin: 8, repMax: 12 });
+
+export const addEntry = (days: DayTemplate[], dayId: string, exoId: string) =>
+  patchDay(days, dayId, (es) => (es.some((e) => e.exoId === exoId) ? es : [...es, newEntry(exoId)]));
+
+export const updateEntry = (days: DayTemplate[], dayId: string, idx: number, patch: Partial<TemplateEntry>) =>
+  patchDay(days, dayId, (es) => es.map((e, i) => (i === idx ? { ...e, ...patch } : e)));
+
+export const removeEntry = (days: DayTemplate[], dayId: string, idx: number) => patchDay(days, dayId, (es) => es.filter((_, i) => i !== idx));
+
+export const moveEntry = (days: DayTemplate[], dayId: string, from: number, to: number) => patchDay(days, dayId, (es) => moveItem(es, from, to));
+
+// Puts entry idx in the same superset as the one after it (joining the existing group if any).
+export const linkWithNext = (days: DayTemplate[], dayId: string, idx: number) =>
+  patchDay(days, dayId, (es) => {
+    if (idx + 1 >= es.length) return es;
+    const id = es[idx].supersetId ?? es[idx + 1].supersetId ?? uid();
+    const old = es[idx + 1].supersetId;
+    return es.map((e, i) => (i === idx || i === idx + 1 || (old && e.supersetId === old) ? { ...e, supersetId: id } : e));
+  });
+
+export const unlink = (days: DayTemplate[], dayId: string, idx: number) =>
+  patchDay(days, dayId, (es) => {
+    const out = es.map((e, i) => (i === idx ? { ...e, supersetId: undefined } : e));
+    // a superset of one is no superset
+    const counts = new Map<string, number>();
+    out.forEach((e) => e.supersetId && counts.set(e.supersetId, (counts.get(e.supersetId) || 0) + 1));
+    return out.map((e) => (e.supersetId && counts.get(e.supersetId) === 1 ? { ...e, supersetId: undefined } : e));
+  });
+
+// "A", "B", … in order of first appearance, for display.
+export function supersetLabels(entries: TemplateEntry[]) {
+  const labels = new Map<string, string>();
+  entries.forEach((e) => e.supersetId && !labels.has(e.supersetId) && labels.set(e.supersetId, String.fromCharCode(65 + labels.size)));
+  return labels;
+}
+
+// Rest follows a set unless another exercise of its superset comes after it in the day.
+export function restsAfter(entries: TemplateEntry[], exoId: string) {
+  const idx = entries.findIndex((e) => e.exoId === exoId);
+  const group = entries[idx]?.supersetId;
+  return idx >= 0 && !(group && entries.slice(idx + 1).some((e) => e.supersetId === group));
+}
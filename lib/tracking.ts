@@ -0,0 +1,45 @@
+import { Exo, SetEntry, TrackingMode, Unit, WeightLog, dayOfISO } from "./state";
+import { fmtWeight } from "./units";
+
+export const TRACKING_LABELS: Record<TrackingMode, string> = {
+  weight_reps: "Charge × reps",
+  bodyweight: "Poids du corps + lest",
+  assisted: "Assisté (contrepoids)",
+  duration: "Durée",
+  distance: "Distance + temps",
+};
+
+export const modeOf = (exo: Exo | undefined): TrackingMode => exo?.mode ?? "weight_reps";
+
+// Timed and distance work has no load × reps to progress or estimate a 1RM from.
+export const isRepBased = (mode: TrackingMode) => mode !== "duration" && mode !== "distance";
+
+// Weigh-in closest to the given date, before or after.
+export function nearestBodyweight(bodyweight: WeightLog[], dateISO: string): number | undefined {
+  const t = Date.parse(dayOfISO(dateISO));
+  let best: WeightLog | undefined;
+  bodyweight.forEach((w) => {
+    if (!best || Math.abs(Date.parse(w.dateISO) - t) < Math.abs(Date.parse(best.dateISO) - t)) best = w;
+  });
+  return best?.weightKg;
+}
+
+export type LoadFn = (s: SetEntry, dateISO: string) => number;
+
+export const rawLoad: LoadFn = (s) => s.weightKg;
+
+// Load actually moved: for bodyweight and assisted exercises weightKg is the
+// added (or, negative, assisting) load on top of the user's weight that day.
+// Without any weigh-in only the added load is counted.
+export function loadFn(exo: Exo | undefined, bodyweight: WeightLog[]): LoadFn {
+  const mode = modeOf(exo);
+  if (mode !== "bodyweight" && mode !== "assisted") return rawLoad;
+  return (s, dateISO) => Math.max(0, (nearestBodyweight(bodyweight, dateISO) ?? 0) + s.weightKg);
+}
+
+// An assisted load reads as the assistance it is, not as a negative weight.
+export const fmtLoad = (kg: number, u: Unit, mode: TrackingMode) => (mode === "assisted" ? `aide ${fmtWeight(-kg || 0, u)}` : fmtWeight(kg, u));
+
+export const fmtDuration = (sec: number) => `${Math.floor(sec / 60)}:${String(Math.round(sec % 60)).padStart(2, "0")}`;
+
+export const fmtDistance = (m: number) => (m >= 1000 ? `${Math.round(m / 10) / 100} km` : `${Math.round(m)} m`);
@@ -0,0 +1,21 @@
+import { Unit } from "./state";
+
+// Weights are always stored in kg; these convert at the input and display edges.
+
+export const LB = 0.45359237;
+
+export const toUnit = (kg: number, u: Unit) => (u === "lb" ? kg / LB : kg);
+export const fromUnit = (x: number, u: Unit) => (u === "lb" ? x * LB : x);
+
+// Displayed value, without the conversion noise (100 lb stays 100, not 99.99).
+export const showWeight = (kg: number, u: Unit) => Number(toUnit(kg, u).toFixed(u === "lb" ? 1 : 2));
+export const fmtWeight = (kg: number, u: Unit) => `${showWeight(kg, u)} ${u}`;
+
+// Smallest sensible jump on a loaded bar (a pair of the smallest common plates).
+export const UNIT_STEP: Record<Unit, number> = { kg: 2.5, lb: 5 };
+
+// Rounds a derived load (warm-up, deload...) to a weight that exists in that unit's gym.
+export const roundToUnit = (kg: number, u: Unit, step = UNIT_STEP[u]) => fromUnit(Math.max(0, Math.round(toUnit(kg, u) / step) * step), u);
+
+// Same for an assisted load (negative, the counterweight): rounds the assistance itself, which can drop to none but never flip into added load.
+export const roundAssist = (kg: number, u: Unit, step = UNIT_STEP[u]) => -roundToUnit(-kg, u, step) || 0;
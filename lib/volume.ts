@@ -0,0 +1,56 @@
+import { Exo, VolumeSettings, WeightLog, WorkoutLog } from "./state";
+import { isWorkSet } from "./sets";
+import { loadFn } from "./tracking";
+
+export type MuscleVolume = { muscle: string; sets: number; tonnage: number };
+export type VolumeStatus = "under" | "ok" | "over" | "untracked";
+
+// Monday of the week containing d, as a local YYYY-MM-DD.
+export function weekStart(d: Date) {
+  const x = new Date(d.getFullYear(), d.getMonth(), d.getDate());
+  x.setDate(x.getDate() - ((x.getDay() + 6) % 7));
+  return `${x.getFullYear()}-${String(x.getMonth() + 1).padStart(2, "0")}-${String(x.getDate()).padStart(2, "0")}`;
+}
+
+export function shiftWeek(monday: string, weeks: number) {
+  const [y, m, d] = monday.split("-").map(Number);
+  return weekStart(new Date(y, m - 1, d + 7 * weeks));
+}
+
+// The first muscle listed on an exercise is its primary target; the others get
+// `secondaryCredit` of a set each (0 = primary only).
+export function weeklyVolume(logs: WorkoutLog[], exoById: Map<string, Exo>, monday: string, cfg: VolumeSettings, bodyweight: WeightLog[] = []): MuscleVolume[] {
+  const end = shiftWeek(monday, 1);
+  const acc = new Map<string, MuscleVolume>();
+  logs
+    .filter((l) => {
+      const w = weekStart(new Date(l.dateISO));
+      return w >= monday && w < end;
+    })
+    .forEach((l) =>
+      l.sets.filter(isWorkSet).forEach((s) => {
+        const exo = exoById.get(s.exoId);
+        const kg = loadFn(exo, bodyweight)(s, l.dateISO);
+        const muscles = exo?.muscles ?? [];
+        muscles.forEach((m, i) => {
+          const credit = i === 0 ? 1 : cfg.secondaryCredit;
+          if (!credit) return;
+          const v = acc.get(m) ?? { muscle: m, sets: 0, tonnage: 0 };
+          v.sets += credit;
+          v.tonnage += credit * kg * s.reps;
+          acc.set(m, v);
+        });
+      })
+    );
+  // targeted muscles show up even at zero sets, since that's exactly what we want to flag
+  Object.keys(cfg.targets).forEach((m) => acc.has(m) || acc.set(m, { muscle: m, sets: 0, tonnage: 0 }));
+  return [...acc.values()].sort((a, b) => b.sets - a.sets || a.muscle.localeCompare(b.muscle));
+}
+
+export function volumeStatus(v: MuscleVolume, cfg: VolumeSettings): VolumeStatus {
+  const t = cfg.targets[v.muscle];
+  if (!t) return "untracked";
+  if (v.sets < t.min) return "under";
+  if (v.sets > t.max) return "over";
+  return "ok";
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { AppState, DEFAULT_STATE } from "./state";
+import { addDrink, computeGoal, goalOf, goalParts, setFixedGoal, syncWaterGoal, waterStreak } from "./water";
+import { LB } from "./units";
+
+const at = (d: number, h = 12) => new Date(2026, 9, d, h).getTime();
+const adaptive = (s: AppState): AppState => ({ ...s, water: { ...s.water, goal: { ...s.water.goal, adaptive: true } } });
+
+describe("goalParts", () => {
+  const s = adaptive({ ...DEFAULT_STATE, bodyweight: [{ dateISO: "2026-10-01", weightKg: 80 }] });
+
+  it("bases the adaptive goal on the latest weight", () => {
+    expect(goalParts(s, "2026-10-19")[0]).toEqual({ label: "80 kg × 35 ml/kg", ml: 2800 });
+    expect(computeGoal(s, "2026-10-19")).toBe(2800);
+  });
+
+  it("shows the weight in the user's unit", () => {
+    const lb = { ...s, units: "lb" as const, bodyweight: [{ dateISO: "2026-10-01", weightKg: 180 * LB }] };
+    expect(goalParts(lb, "2026-10-19")[0].label).toBe("180 lb × 35 ml/kg");
+  });
+
+  it("falls back to the fixed goal without a weight", () => {
+    expect(goalParts(adaptive(DEFAULT_STATE), "2026-10-19")).toEqual([{ label: "Objectif fixe (pas de poids)", ml: 3000 }]);
+  });
+});
+
+describe("stored goals", () => {
+  it("backfills days since the first drink and keeps them when the fixed goal changes", () => {
+    const s = syncWaterGoal(addDrink(DEFAULT_STATE, 250, "water", at(16)), at(19));
+    expect(s.waterGoals.map((g) => g.date)).toEqual(["2026-10-16", "2026-10-17", "2026-10-18", "2026-10-19"]);
+    const next = setFixedGoal(s, 2000, at(19));
+    expect(goalOf(next, "2026-10-18")).toBe(3000);
+    expect(goalOf(next, "2026-10-19")).toBe(2000);
+  });
+
+  it("counts a streak of days each meeting its own goal", () => {
+    let s: AppState = { ...DEFAULT_STATE, waterGoalMl: 500 };
+    for (const d of [17, 18, 19]) s = addDrink(s, 500, "water", at(d));
+    s = setFixedGoal(syncWaterGoal(s, at(18)), 1000, at(19));
+    expect(waterStreak(s, "2026-10-19")).toBe(2);
+  });
+});
@@ -0,0 +1,125 @@
+import { AppState, DrinkType, WaterDayGoal, WaterEntry, WaterSettings, WorkoutLog, dayKey, dayOfISO, shiftDay, uid } from "./state";
+import { fmtWeight } from "./units";
+
+export const DRINK_LABELS: Record<DrinkType, string> = { water: "💧 Eau", coffee: "☕ Café", tea: "🍵 Thé", shake: "🥤 Shake" };
+
+// Day a drink belongs to, with the configured day start.
+export const waterDay = (t: number, dayStartHHMM: string) => dayKey(t, dayStartHHMM);
+
+// What a drink counts for once the hydration factors apply.
+export const hydrationMl = (e: WaterEntry, w: WaterSettings) => Math.round(e.ml * (w.useFactors ? w.factors[e.drink] : 1));
+
+export const entriesOfDay = (log: WaterEntry[], w: WaterSettings, day: string) => log.filter((e) => waterDay(e.t, w.dayStartHHMM) === day).sort((a, b) => a.t - b.t);
+
+export function dailyTotals(log: WaterEntry[], w: WaterSettings) {
+  const m = new Map<string, number>();
+  log.forEach((e) => {
+    const d = waterDay(e.t, w.dayStartHHMM);
+    m.set(d, (m.get(d) ?? 0) + hydrationMl(e, w));
+  });
+  return m;
+}
+
+// The last n days up to `today`, days without a drink included at 0.
+export function lastDays(log: WaterEntry[], w: WaterSettings, today: string, n: number) {
+  const totals = dailyTotals(log, w);
+  return Array.from({ length: n }, (_, i) => {
+    const date = shiftDay(today, i - n + 1);
+    return { date, ml: totals.get(date) ?? 0 };
+  });
+}
+
+export const addDrink = (s: AppState, ml: number, drink: DrinkType = "water", t = Date.now()): AppState => ({
+  ...s,
+  waterLog: [...s.waterLog, { id: uid(), t, ml, drink }],
+});
+
+export const removeDrink = (s: AppState, id: string): AppState => ({ ...s, waterLog: s.waterLog.filter((e) => e.id !== id) });
+
+export const MIN_GOAL_ML = 500;
+const SET_MIN = 3; // per set, for sessions logged without set times
+
+// Span between the first and last timed set, else an estimate from the set count.
+export function sessionMin(l: WorkoutLog) {
+  const times = l.sets.filter((x) => x.at).map((x) => Date.parse(x.at!));
+  if (times.length >= 2) return Math.round((Math.max(...times) - Math.min(...times)) / 60_000) + SET_MIN;
+  return l.sets.length * SET_MIN;
+}
+
+const blankDay = (date: string): WaterDayGoal => ({ date, goalMl: 0, hot: false, extraMin: 0 });
+export const dayGoal = (s: AppState, day: string) => s.waterGoals.find((g) => g.date === day) ?? blankDay(day);
+
+export type GoalPart = { label: string; ml: number };
+
+// What the adaptive goal of a day is made of: baseline from the latest weight up to that day
+// (the fixed goal without one), sessions saved that day, then the day's manual adjustments.
+export function goalParts(s: AppState, day: string): GoalPart[] {
+  const g = s.water.goal;
+  const adj = dayGoal(s, day);
+  const weight = s.bodyweight.filter((w) => dayOfISO(w.dateISO) <= day).sort((a, b) => a.dateISO.localeCompare(b.dateISO)).at(-1);
+  const parts: GoalPart[] = [weight ? { label: `${fmtWeight(weight.weightKg, s.units)} × ${g.mlPerKg} ml/kg`, ml: weight.weightKg * g.mlPerKg } : { label: "Objectif fixe (pas de poids)", ml: s.waterGoalMl }];
+  s.logs
+    .filter((l) => dayOfISO(l.dateISO, s.water.dayStartHHMM) === day)
+    .forEach((l) => parts.push({ label: `Séance ${l.dayName} (${sessionMin(l)} min)`, ml: sessionMin(l) * g.mlPerTrainingMin }));
+  if (adj.extraMin) parts.push({ label: `Exercice en plus (${adj.extraMin} min)`, ml: adj.extraMin * g.mlPerTrainingMin });
+  if (adj.hot) parts.push({ label: "Journée chaude", ml: g.hotDayMl });
+  return parts;
+}
+
+export function computeGoal(s: AppState, day: string) {
+  if (!s.water.goal.adaptive) return s.waterGoalMl;
+  const ml = goalParts(s, day).reduce((n, p) => n + p.ml, 0);
+  return Math.max(MIN_GOAL_ML, Math.round(ml / 50) * 50);
+}
+
+// The stored goal of a day. syncWaterGoal fills in every tracked day, so the fallback
+// only covers what it can't reach (imports, days beyond BACKFILL_DAYS).
+export const goalOf = (s: AppState, day: string) => s.waterGoals.find((g) => g.date === day)?.goalMl ?? computeGoal(s, day);
+
+function putDayGoal(s: AppState, g: WaterDayGoal): AppState {
+  const cur = s.waterGoals.find((x) => x.date === g.date);
+  if (cur && cur.goalMl === g.goalMl && cur.hot === g.hot && cur.extraMin === g.extraMin) return s;
+  return { ...s, waterGoals: cur ? s.waterGoals.map((x) => (x.date === g.date ? g : x)) : [...s.waterGoals, g] };
+}
+
+const BACKFILL_DAYS = 366;
+
+// Keeps today's stored goal up to date; past days are left as they were. Past days
+// without one (the app wasn't opened, or goals weren't stored yet) get the goal that
+// applies now, before any later change of the fixed goal can reach them.
+export function syncWaterGoal(s: AppState, now = Date.now()): AppState {
+  const today = waterDay(now, s.water.dayStartHHMM);
+  const stored = new Set(s.waterGoals.map((g) => g.date));
+  const first = s.waterLog.reduce((d, e) => {
+    const day = waterDay(e.t, s.water.dayStartHHMM);
+    return day < d ? day : d;
+  }, today);
+  const missing: WaterDayGoal[] = [];
+  for (let d = today, i = 0; d > first && i < BACKFILL_DAYS; i++) {
+    d = shiftDay(d, -1);
+    if (!stored.has(d)) missing.push({ ...blankDay(d), goalMl: computeGoal(s, d) });
+  }
+  const next = missing.length ? { ...s, waterGoals: [...s.waterGoals, ...missing].sort((a, b) => a.date.localeCompare(b.date)) } : s;
+  return putDayGoal(next, { ...dayGoal(next, today), goalMl: computeGoal(next, today) });
+}
+
+// Past days keep the fixed goal they had; only today follows the new one.
+export const setFixedGoal = (s: AppState, waterGoalMl: number, now = Date.now()) => syncWaterGoal({ ...syncWaterGoal(s, now), waterGoalMl }, now);
+
+export function adjustDay(s: AppState, day: string, adj: Pick<WaterDayGoal, "hot" | "extraMin">): AppState {
+  const next = putDayGoal(s, { ...dayGoal(s, day), ...adj });
+  return putDayGoal(next, { ...dayGoal(next, day), goalMl: computeGoal(next, day) });
+}
+
+// Days in a row each meeting its own goal, ending today (or yesterday while today is still under way).
+export function waterStreak(s: AppState, today: string) {
+  const totals = dailyTotals(s.waterLog, s.water);
+  const met = (d: string) => (totals.get(d) ?? 0) > 0 && (totals.get(d) ?? 0) >= goalOf(s, d);
+  let d = met(today) ? today : shiftDay(today, -1);
+  let n = 0;
+  while (met(d)) {
+    n++;
+    d = shiftDay(d, -1);
+  }
+  return n;
+}
@@ -0,0 +1,104 @@
+// Service worker: delivers reminders while the app is closed.
+// - Notification Triggers: the page posts the upcoming rings, scheduled here with a TimestampTrigger.
+// - Otherwise app/api/push sends each ring as a push message when it's due.
+// "done" / "snooze" go to an open window, or to the "inbox" store until the app opens.
+// The end of the rest timer comes the same two ways, under its own tag.
+
+const SNOOZE_MIN = 10;
+const ACTIONS = [
+  { action: "done", title: "Fait ✅" },
+  { action: "snooze", title: "+10 min" },
+];
+
+// Notification may be missing from the worker scope; a throw here would stop the worker installing at all
+const hasTriggers = typeof Notification !== "undefined" && "showTrigger" in Notification.prototype;
+const ringTag = (u) => `reminder-${u.id}-${u.at}`;
+const REST_TAG = "rest";
+
+self.addEventListener("install", () => self.skipWaiting());
+self.addEventListener("activate", (e) => e.waitUntil(self.clients.claim()));
+
+function show(u, scheduled) {
+  const opts = { body: u.title, tag: ringTag(u), data: u, actions: ACTIONS };
+  if (scheduled) opts.showTrigger = new TimestampTrigger(u.at);
+  return self.registration.showNotification("Rappel", opts);
+}
+
+function showRest(r, scheduled) {
+  const opts = { body: r.body, tag: REST_TAG, data: { rest: true, at: r.at }, renotify: true };
+  if (scheduled) opts.showTrigger = new TimestampTrigger(r.at);
+  return self.registration.showNotification("Repos terminé", opts);
+}
+
+// not-yet-shown notifications only
+async function closePending(keep) {
+  const pending = await self.registration.getNotifications({ includeTriggered: true });
+  pending.filter((n) => n.data && n.data.at > Date.now() && keep(n)).forEach((n) => n.close());
+}
+
+// The page sends the whole upcoming list each time; what was scheduled before is replaced.
+async function schedule(items) {
+  await closePending((n) => n.tag !== REST_TAG);
+  await Promise.all(items.filter((u) => u.at > Date.now()).map((u) => show(u, true)));
+}
+
+self.addEventListener("message", (e) => {
+  if (!e.data || !hasTriggers) return;
+  if (e.data.type === "schedule") e.waitUntil(schedule(e.data.items));
+  if (e.data.type === "rest") e.waitUntil(closePending((n) => n.tag === REST_TAG).then(() => e.data.rest && e.data.rest.at > Date.now() && showRest(e.data.rest, true)));
+});
+
+self.addEventListener("push", (e) => {
+  if (!e.data) return;
+  const d = e.data.json();
+  e.waitUntil(d.type === "rest" ? showRest(d, false) : show(d, false));
+});
+
+self.addEventListener("notificationclick", (e) => {
+  const u = e.notification.data;
+  e.notification.close();
+  if (!u) return;
+  if (u.rest) return e.waitUntil(focusApp());
+  e.waitUntil(e.action === "done" || e.action === "snooze" ? act(e.action, u) : focusApp());
+});
+
+async function act(action, u) {
+  const time = Date.now();
+  const ring = { action, id: u.id, at: u.at, time };
+  if (action === "snooze") {
+    ring.until = time + SNOOZE_MIN * 60_000;
+    await snoozeRing({ ...u, at: ring.until });
+  }
+  const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  if (windows.length) windows.forEach((w) => w.postMessage({ type: "ring-action", ring }));
+  else await enqueue(ring);
+}
+
+async function snoozeRing(u) {
+  if (hasTriggers) return show(u, true);
+  const sub = await self.registration.pushManager.getSubscription();
+  if (!sub) return;
+  await fetch("/api/push", { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ endpoint: sub.endpoint, item: u }) }).catch(() => {});
+}
+
+async function focusApp() {
+  const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  if (windows.length) return windows[0].focus();
+  return self.clients.openWindow("/");
+}
+
+// Same database as lib/db.ts, opened at whatever version the app created; never creates it.
+function enqueue(ring) {
+  return new Promise((resolve) => {
+    const r = indexedDB.open("myallinone");
+    r.onupgradeneeded = () => r.transaction.abort();
+    r.onerror = () => resolve();
+    r.onsuccess = () => {
+      const db = r.result;
+      if (!db.objectStoreNames.contains("inbox")) return resolve(db.close());
+      const tx = db.transaction("inbox", "readwrite");
+      tx.objectStore("inbox").add(ring);
+      tx.oncomplete = tx.onerror = () => resolve(db.close());
+    };
+  });
+}